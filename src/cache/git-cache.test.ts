@@ -28,6 +28,25 @@ describe('git-cache', () => {
       const hash2 = await generateRepositoryHash(process.cwd() + '/different')
       expect(hash1).not.toBe(hash2)
     })
+
+    it('should generate the same hash for relative and absolute paths to one repo', async () => {
+      const relativeHash = await generateRepositoryHash('.')
+      const absoluteHash = await generateRepositoryHash(process.cwd())
+      expect(relativeHash).toBe(absoluteHash)
+    })
+
+    it('should generate different hashes for different revision selections', async () => {
+      const headHash = await generateRepositoryHash(process.cwd())
+      const branchHash = await generateRepositoryHash(process.cwd(), ['release'])
+      const rangeHash = await generateRepositoryHash(process.cwd(), ['v1.0..release'])
+      expect(new Set([headHash, branchHash, rangeHash]).size).toBe(3)
+    })
+
+    it('should keep the HEAD hash unchanged when no selection is given', async () => {
+      const hash1 = await generateRepositoryHash(process.cwd())
+      const hash2 = await generateRepositoryHash(process.cwd(), [])
+      expect(hash1).toBe(hash2)
+    })
   })
 
   describe('cache operations', () => {
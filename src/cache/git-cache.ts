@@ -1,6 +1,6 @@
 import { createHash } from 'crypto'
 import { tmpdir } from 'os'
-import { join } from 'path'
+import { join, resolve } from 'path'
 import { readFile, writeFile, mkdir, access, unlink } from 'fs/promises'
 import { existsSync } from 'fs'
 import { simpleGit } from 'simple-git'
@@ -17,9 +17,16 @@ export interface CacheData {
 }
 
 
-export async function generateRepositoryHash(repoPath: string): Promise<string> {
+export async function generateRepositoryHash(repoPath: string, revisionSelection: string[] = []): Promise<string> {
   const inputs: string[] = []
-  inputs.push(repoPath)
+  // Absolute, so each checkout gets its own entry: "." in two different
+  // repositories must not share one, and one repository always maps to the same
+  inputs.push(resolve(repoPath))
+  
+  // Branches and ranges each get their own cache entry; date windows are never cached
+  if (revisionSelection.length > 0) {
+    inputs.push(`selection:${revisionSelection.join(' ')}`)
+  }
   
   try {
     const git = simpleGit(repoPath)
@@ -1,15 +1,24 @@
-import { program } from 'commander'
-import { generateReport } from '../report/generator.js'
+import { program, Option } from 'commander'
+import { generateReport, REPORT_FORMATS } from '../report/generator.js'
+import { generateComparisonReport } from '../report/comparison.js'
+import { generateBadges } from '../report/badges.js'
+import { generateMultiRepoReport, loadManifest, type MultiRepoManifest } from '../report/multi-repo.js'
+import { checkQualityGates } from '../report/quality-gates.js'
+import { formatQualityGateTable } from '../data/quality-gate-calculator.js'
 import { validateGitRepository } from '../utils/git-validation.js'
 import { ConsoleProgressReporter } from '../utils/progress-reporter.js'
 import { ThrottledProgressReporter } from '../utils/throttled-progress-reporter.js'
 import { isRepoStatError, formatError } from '../utils/errors.js'
 import { loadConfiguration, exportConfiguration } from '../config/unified-loader.js'
-import { getGitHubUrl, getRepositoryName } from '../git/parser.js'
+import { getRepositoryName } from '../git/parser.js'
+import { getRemoteHost } from '../git/remote-host.js'
 import { basename, resolve, join } from 'path'
 import { tmpdir } from 'os'
 import type { ConfigOverrides } from '../config/unified-loader.js'
 
+// Distinct from the exit code 1 used when repo-statter itself fails
+export const QUALITY_GATE_EXIT_CODE = 2
+
 export async function handleCLI(args: string[]): Promise<void> {
   program
     .name('repo-statter')
@@ -21,7 +30,14 @@ export async function handleCLI(args: string[]): Promise<void> {
     .option('-r, --repo <path>', 'Repository path (alternative to positional argument)')
     .option('-o, --output <dir>', 'Output directory', 'dist')
     .option('--output-file <filename>', 'Custom output filename (overrides default naming)')
+    .addOption(new Option('--format <format>', 'Report format').choices(REPORT_FORMATS).default('html'))
+    .option('--sparklines', 'Embed SVG sparklines in the Markdown report')
+    .option('--history', 'Record a metrics snapshot in a history file and show changes since the last run')
     .option('--max-commits <number>', 'Analyze only the N most recent commits (default: 1000, use 0 for all commits)')
+    .option('--branch <name>', 'Analyze the history of this branch or ref instead of HEAD')
+    .option('--range <A..B>', 'Analyze only the commits in a revision range (e.g. v1.0..v2.0)')
+    .option('--since <date>', 'Only include commits more recent than this date')
+    .option('--until <date>', 'Only include commits older than this date')
     .option('--no-cache', 'Disable caching (always do full scan)')
     .option('--clear-cache', 'Clear existing cache before running')
     .option('--config-file <path>', 'Path to configuration file')
@@ -59,6 +75,26 @@ export async function handleCLI(args: string[]): Promise<void> {
           configOverrides.maxCommits = parseInt(options.maxCommits, 10) === 0 ? null : parseInt(options.maxCommits, 10)
         }
         
+        // Only set the history selection if it was provided
+        if (options.branch !== undefined) {
+          configOverrides.branch = options.branch
+        }
+        if (options.range !== undefined) {
+          configOverrides.range = options.range
+        }
+        if (options.sparklines) {
+          configOverrides.sparklines = true
+        }
+        if (options.history) {
+          configOverrides.history = true
+        }
+        if (options.since !== undefined) {
+          configOverrides.since = options.since
+        }
+        if (options.until !== undefined) {
+          configOverrides.until = options.until
+        }
+        
         const config = loadConfiguration(configOverrides)
         
         // Display repository information
@@ -75,9 +111,9 @@ export async function handleCLI(args: string[]): Promise<void> {
         console.log(`Cache directory: ${cacheDir}`)
         
         try {
-          const githubUrl = await getGitHubUrl(finalRepoPath)
-          if (githubUrl) {
-            console.log(`Repository URL: ${githubUrl}`)
+          const remoteHost = await getRemoteHost(finalRepoPath, config)
+          if (remoteHost) {
+            console.log(`Repository URL: ${remoteHost.url}`)
           }
         } catch {
           // Silently ignore if we can't get the URL
@@ -90,20 +126,218 @@ export async function handleCLI(args: string[]): Promise<void> {
           useCache: config.performance.cacheEnabled,
           clearCache: options.clearCache || false
         }
-        const reportPath = await generateReport(finalRepoPath, outputDir, progressReporter, config.analysis.maxCommits === null ? undefined : config.analysis.maxCommits, outputFile, cacheOptions, config)
+        const reportPath = await generateReport(finalRepoPath, outputDir, progressReporter, config.analysis.maxCommits === null ? undefined : config.analysis.maxCommits, outputFile, cacheOptions, config, options.format)
         console.log(`\nReport generated: ${reportPath}`)
       } catch (error) {
-        if (isRepoStatError(error)) {
-          console.error(`Error: ${error.message}`)
-          if (error.code) {
-            console.error(`Error code: ${error.code}`)
-          }
-        } else {
-          console.error(`Unexpected error: ${formatError(error)}`, error)
+        exitWithError(error)
+      }
+    })
+    
+  program
+    .command('compare')
+    .description('Report on a single release: the commits in <from>..<to>')
+    .argument('<from>', 'Tag or ref the release starts after (e.g. v1.2.0)')
+    .argument('<to>', 'Tag or ref the release ends at (e.g. v1.3.0)')
+    .option('-r, --repo <path>', 'Repository path (defaults to current directory)')
+    .option('-o, --output <dir>', 'Output directory', 'dist')
+    .option('--output-file <filename>', 'Custom output filename (overrides default naming)')
+    .option('--no-cache', 'Disable caching (always do full scan)')
+    .option('--clear-cache', 'Clear existing cache before running')
+    .option('--config-file <path>', 'Path to configuration file')
+    .action(async (from, to, options) => {
+      const finalRepoPath = options.repo || process.cwd()
+      
+      try {
+        await validateGitRepository(finalRepoPath)
+        
+        const config = loadConfiguration({
+          output: options.output,
+          outputFile: options.outputFile,
+          noCache: options.cache === false,
+          clearCache: options.clearCache,
+          configPath: options.configFile
+        })
+        
+        console.log(`\nComparing ${from}..${to}`)
+        console.log(`Repository path: ${finalRepoPath}`)
+        console.log(`Output directory: ${resolve(options.output)}`)
+        console.log('')
+        
+        const consoleReporter = new ConsoleProgressReporter()
+        const progressReporter = new ThrottledProgressReporter(consoleReporter, config.performance.progressThrottleMs)
+        const cacheOptions = {
+          useCache: config.performance.cacheEnabled,
+          clearCache: options.clearCache || false
         }
-        process.exit(1)
+        const reportPath = await generateComparisonReport(finalRepoPath, from, to, options.output, progressReporter, options.outputFile, cacheOptions, config)
+        console.log(`\nComparison report generated: ${reportPath}`)
+      } catch (error) {
+        exitWithError(error)
+      }
+    })
+    
+  program
+    .command('badges')
+    .description('Write SVG badges for lines of code, contributors, recent commits, test ratio and bus factor')
+    .option('-r, --repo <path>', 'Repository path (defaults to current directory)')
+    .option('-o, --output <dir>', 'Output directory', 'dist')
+    .option('--max-commits <number>', 'Analyze only the N most recent commits (default: 1000, use 0 for all commits)')
+    .option('--no-cache', 'Disable caching (always do full scan)')
+    .option('--clear-cache', 'Clear existing cache before running')
+    .option('--config-file <path>', 'Path to configuration file')
+    .action(async (options) => {
+      const finalRepoPath = options.repo || process.cwd()
+      
+      try {
+        await validateGitRepository(finalRepoPath)
+        
+        const configOverrides: ConfigOverrides = {
+          output: options.output,
+          noCache: options.cache === false,
+          clearCache: options.clearCache,
+          configPath: options.configFile
+        }
+        if (options.maxCommits !== undefined) {
+          configOverrides.maxCommits = parseInt(options.maxCommits, 10) === 0 ? null : parseInt(options.maxCommits, 10)
+        }
+        const config = loadConfiguration(configOverrides)
+        
+        console.log(`\nGenerating badges`)
+        console.log(`Repository path: ${finalRepoPath}`)
+        console.log(`Output directory: ${resolve(options.output)}`)
+        console.log('')
+        
+        const consoleReporter = new ConsoleProgressReporter()
+        const progressReporter = new ThrottledProgressReporter(consoleReporter, config.performance.progressThrottleMs)
+        const cacheOptions = {
+          useCache: config.performance.cacheEnabled,
+          clearCache: options.clearCache || false
+        }
+        const badgePaths = await generateBadges(finalRepoPath, options.output, progressReporter, config.analysis.maxCommits === null ? undefined : config.analysis.maxCommits, cacheOptions, config)
+        console.log(`\nBadges generated:`)
+        badgePaths.forEach(badgePath => console.log(`  ${badgePath}`))
+      } catch (error) {
+        exitWithError(error)
       }
     })
     
+  program
+    .command('multi')
+    .description('Generate one combined report for several repositories')
+    .argument('[repos...]', 'Repository paths')
+    .option('--manifest <file>', 'JSON manifest listing the repositories (and optionally the report name)')
+    .option('--name <name>', 'Report title (default: the manifest name, or "Portfolio")')
+    .option('-o, --output <dir>', 'Output directory', 'dist')
+    .option('--output-file <filename>', 'Custom output filename (default: the report title)')
+    .option('--max-commits <number>', 'Analyze only the N most recent commits of each repository (default: 1000, use 0 for all commits)')
+    .option('--no-cache', 'Disable caching (always do full scan)')
+    .option('--clear-cache', 'Clear existing cache before running')
+    .option('--config-file <path>', 'Path to configuration file')
+    .action(async (repos: string[], options) => {
+      try {
+        const manifest: MultiRepoManifest = options.manifest
+          ? await loadManifest(options.manifest)
+          : { repositories: [] }
+        manifest.repositories.push(...repos.map(repo => ({ path: resolve(repo) })))
+        if (options.name) {
+          manifest.name = options.name
+        }
+        for (const repository of manifest.repositories) {
+          await validateGitRepository(repository.path)
+        }
+        
+        const configOverrides: ConfigOverrides = {
+          output: options.output,
+          outputFile: options.outputFile,
+          noCache: options.cache === false,
+          clearCache: options.clearCache,
+          configPath: options.configFile
+        }
+        if (options.maxCommits !== undefined) {
+          configOverrides.maxCommits = parseInt(options.maxCommits, 10) === 0 ? null : parseInt(options.maxCommits, 10)
+        }
+        const config = loadConfiguration(configOverrides)
+        
+        console.log(`\nGenerating multi-repository report`)
+        manifest.repositories.forEach(repository => console.log(`Repository path: ${repository.path}`))
+        console.log(`Output directory: ${resolve(options.output)}`)
+        console.log('')
+        
+        const consoleReporter = new ConsoleProgressReporter()
+        const progressReporter = new ThrottledProgressReporter(consoleReporter, config.performance.progressThrottleMs)
+        const cacheOptions = {
+          useCache: config.performance.cacheEnabled,
+          clearCache: options.clearCache || false
+        }
+        const reportPath = await generateMultiRepoReport(manifest, options.output, progressReporter, config.analysis.maxCommits === null ? undefined : config.analysis.maxCommits, options.outputFile, cacheOptions, config)
+        console.log(`\nMulti-repository report generated: ${reportPath}`)
+      } catch (error) {
+        exitWithError(error)
+      }
+    })
+    
+  program
+    .command('check')
+    .description(`Check the qualityGates thresholds from the config file; exits with code ${QUALITY_GATE_EXIT_CODE} when a gate fails`)
+    .option('-r, --repo <path>', 'Repository path (defaults to current directory)')
+    .option('--max-commits <number>', 'Analyze only the N most recent commits (default: 1000, use 0 for all commits)')
+    .option('--no-cache', 'Disable caching (always do full scan)')
+    .option('--clear-cache', 'Clear existing cache before running')
+    .option('--config-file <path>', 'Path to configuration file')
+    .action(async (options) => {
+      const finalRepoPath = options.repo || process.cwd()
+      
+      try {
+        await validateGitRepository(finalRepoPath)
+        
+        const configOverrides: ConfigOverrides = {
+          noCache: options.cache === false,
+          clearCache: options.clearCache,
+          configPath: options.configFile
+        }
+        if (options.maxCommits !== undefined) {
+          configOverrides.maxCommits = parseInt(options.maxCommits, 10) === 0 ? null : parseInt(options.maxCommits, 10)
+        }
+        const config = loadConfiguration(configOverrides)
+        
+        console.log(`\nChecking quality gates`)
+        console.log(`Repository path: ${finalRepoPath}`)
+        console.log('')
+        
+        const consoleReporter = new ConsoleProgressReporter()
+        const progressReporter = new ThrottledProgressReporter(consoleReporter, config.performance.progressThrottleMs)
+        const cacheOptions = {
+          useCache: config.performance.cacheEnabled,
+          clearCache: options.clearCache || false
+        }
+        const results = await checkQualityGates(finalRepoPath, progressReporter, config.analysis.maxCommits === null ? undefined : config.analysis.maxCommits, cacheOptions, config)
+        
+        const failed = results.filter(result => result.status === 'fail').length
+        console.log(`\n${formatQualityGateTable(results)}\n`)
+        if (failed > 0) {
+          console.error(`Quality gates failed: ${failed} of ${results.length}`)
+          process.exit(QUALITY_GATE_EXIT_CODE)
+        }
+        console.log('Quality gates passed')
+      } catch (error) {
+        exitWithError(error)
+      }
+    })
+    
+  // Options given after a subcommand belong to it, not to the default command
+  program.enablePositionalOptions()
+    
   program.parse(args, { from: 'user' })
+}
+
+function exitWithError(error: unknown): never {
+  if (isRepoStatError(error)) {
+    console.error(`Error: ${error.message}`)
+    if (error.code) {
+      console.error(`Error code: ${error.code}`)
+    }
+  } else {
+    console.error(`Unexpected error: ${formatError(error)}`, error)
+  }
+  process.exit(1)
 }
\ No newline at end of file
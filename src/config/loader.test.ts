@@ -123,6 +123,26 @@ describe('Configuration Loader', () => {
       {
         ...DEFAULT_CONFIG,
         fileHeat: { ...DEFAULT_CONFIG.fileHeat, frequencyWeight: 0.3, recencyWeight: 0.5 }
+      },
+      {
+        ...DEFAULT_CONFIG,
+        commitFilters: { ...DEFAULT_CONFIG.commitFilters, ignoreShas: ['HEAD~1'] }
+      },
+      {
+        ...DEFAULT_CONFIG,
+        ownership: { ...DEFAULT_CONFIG.ownership, blameConcurrency: 0 }
+      },
+      {
+        ...DEFAULT_CONFIG,
+        issues: { ...DEFAULT_CONFIG.issues, trackers: [{ pattern: '[A-Z+-', url: null }] }
+      },
+      {
+        ...DEFAULT_CONFIG,
+        links: { ...DEFAULT_CONFIG.links, commitUrl: 'https://git.example.com/commits' }
+      },
+      {
+        ...DEFAULT_CONFIG,
+        links: { ...DEFAULT_CONFIG.links, hosts: { 'git.example.com': 'sourcehut' } as unknown as typeof DEFAULT_CONFIG.links.hosts }
       }
     ];
 
@@ -9,6 +9,17 @@ export interface SimplifiedConfig {
     maxCommits: number | null // null means no limit, default: 1000
     bytesPerLineEstimate: number // Default: 50
     timeSeriesHourlyThresholdHours: number // Keep original property for compatibility
+    branch: string | null // Branch or ref to analyze, null means HEAD
+    range: string | null // Revision range such as "v1.0..v2.0", takes the place of branch
+    since: string | null // Only include commits after this date (any format git log accepts)
+    until: string | null // Only include commits before this date
+  }
+  
+  // Code complexity measurement
+  complexity: {
+    analyzer: 'lizard' | 'builtin' | 'auto' // auto uses lizard when installed, otherwise the built-in analyzer
+    trendSampleBy: 'commits' | 'tags' // Sample evenly spaced commits, or every tag in the analyzed history
+    trendSamples: number // Maximum number of points in the trend (tags are thinned evenly); 0 disables it
   }
   
   // File filtering (essential for correctness)
@@ -70,6 +81,101 @@ export interface SimplifiedConfig {
   commitFilters: {
     mergePatterns: string[]
     automatedPatterns: string[]
+    ignoreShas: string[] // Full or abbreviated SHAs left out of every statistic, lines of code and growth included, e.g. vendored drops
+    ignoreRevsFile: string | null // Like git blame's, relative to the repository root; null to skip
+    ignoreRevs: string[] // Unlike ignoreShas, still counted in lines of code and growth; only left out of contributor, churn, heat, award and blame statistics, e.g. formatter migrations
+  }
+  
+  // Commit classification by Conventional Commits type, with a keyword fallback
+  commitTypes: {
+    types: string[] // Conventional Commits types that are recognized
+    keywords: Record<string, string[]> // Type to whole words in the subject (plus -s, -es, -ed, -ing forms), for messages without a conventional header
+  }
+  
+  // Issue references in commit messages, e.g. PROJ-123 or #456
+  issues: {
+    trackers: Array<{
+      pattern: string // Regular expression matching an issue key in the message
+      url: string | null // Link template with {key}, {number}, {repo} and {issueUrl} (the code host's issue page); null leaves keys unlinked
+    }>
+    maxIssues: number
+  }
+  
+  // Links from the report back to the code host
+  links: {
+    commitUrl: string | null // Template with {sha} and {repo}; null uses the detected code host
+    hosts: Record<string, 'github' | 'gitlab' | 'bitbucket' | 'gitea' | 'azure'> // Self-hosted domains by forge, e.g. {"git.example.com": "gitlab"}
+  }
+  
+  // Identity resolution
+  identities: {
+    useMailmap: boolean // Honor the repository's .mailmap
+    emailAliases: Record<string, string> // Maps alias emails to canonical emails
+    sharedEmails: string[] // Glob patterns for placeholder, CI and bot emails used by several people; never used to link names
+    linkByName: boolean // Treat every email committed under the same name as one person; off, only .mailmap and authorMapping renames link names
+  }
+  
+  // Code ownership and bus factor
+  ownership: {
+    useBlame: boolean // Measure surviving lines with git blame (one git process per file); false estimates every file from churn share
+    maxBlameFiles: number // Largest files blamed; files beyond this limit fall back to churn share
+    blameConcurrency: number // git blame processes run at once
+    busFactorThreshold: number // Share of code that must be orphaned, default: 0.5
+    directoryDepth: number // Path segments used to group files into directories
+    maxFilesDisplayed: number
+  }
+  
+  // Hotspots: files that are both frequently changed and complex
+  hotspots: {
+    windowDays: number // Churn counted this many days back from the newest commit; 0 uses all history
+    maxFiles: number
+  }
+  
+  // Temporal coupling between files that change together
+  coupling: {
+    minSharedCommits: number // Pairs must change together at least this often
+    minConfidence: number // 0-1, share of the rarer file's commits that include the other file
+    maxFilesPerCommit: number // Larger commits (sweeping refactors, renames) are ignored
+    maxPairs: number
+  }
+  
+  // Monorepo workspace packages, each reported on its own
+  packages: {
+    detect: boolean // Read pnpm-workspace.yaml, package.json workspaces and Cargo workspaces
+    roots: string[] // Glob patterns for package directories, e.g. ["services/*"]; used instead of detection when set
+  }
+  
+  // Release and tag annotations on time-based charts
+  tags: {
+    annotate: boolean // Draw a vertical line for each tag on the time-based charts
+    patterns: string[] // Glob patterns tag names must match, e.g. ["v*"]; empty includes every tag
+  }
+  
+  // CI thresholds checked by `repo-statter check`; null disables a gate
+  qualityGates: {
+    minTestRatio: number | null // Test lines per application line
+    maxFileComplexity: number | null // Highest cyclomatic complexity of any current file
+    maxCommitLinesAdded: number | null // Lines added by any single commit, merges and ignored revisions excluded
+    minBusFactor: number | null
+  }
+  
+  // Metrics snapshot appended on every run, for "since last run" deltas and trends
+  history: {
+    enabled: boolean
+    file: string | null // null keeps <repo>.history.json in the output directory
+    maxSnapshots: number // Oldest snapshots are dropped beyond this
+  }
+  
+  // Markdown report (--format markdown)
+  markdown: {
+    sparklines: boolean // Embed SVG sparklines as data URIs; GitHub strips these, most other renderers show them
+    maxContributors: number // Rows in the contributor table
+  }
+  
+  // Co-authored-by trailer attribution
+  coAuthors: {
+    credit: 'full' | 'split' | 'none' // split (default): authors share each commit; full: every author gets the whole commit, so shares add up to more than the commit count; none: primary author only
+    primaryAuthorShare: number | null // With 'split': the primary author's share, null splits equally
   }
   
   // Author mapping
@@ -86,7 +192,17 @@ export const SIMPLIFIED_DEFAULTS: SimplifiedConfig = {
   analysis: {
     maxCommits: 1000, // Default to last 1000 commits for performance
     bytesPerLineEstimate: 50,
-    timeSeriesHourlyThresholdHours: 48
+    timeSeriesHourlyThresholdHours: 48,
+    branch: null,
+    range: null,
+    since: null,
+    until: null
+  },
+  
+  complexity: {
+    analyzer: 'auto',
+    trendSampleBy: 'commits',
+    trendSamples: 10
   },
   
   wordCloud: {
@@ -114,7 +230,7 @@ export const SIMPLIFIED_DEFAULTS: SimplifiedConfig = {
   performance: {
     progressThrottleMs: 200,
     cacheEnabled: true,
-    cacheVersion: '1.0',
+    cacheVersion: '1.3', // 1.1: commits carry co-authors, 1.2: breaking change footers, 1.3: body issue keys
     cacheDirName: 'repo-statter-cache'
   },
   
@@ -367,7 +483,97 @@ export const SIMPLIFIED_DEFAULTS: SimplifiedConfig = {
       'accepting local',
       'accepting incoming',
       'accepting current'
-    ]
+    ],
+    ignoreShas: [],
+    ignoreRevsFile: '.git-blame-ignore-revs',
+    ignoreRevs: []
+  },
+  
+  commitTypes: {
+    types: ['feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'build', 'ci', 'chore', 'revert'],
+    keywords: {
+      feat: ['add', 'implement', 'introduce', 'support', 'create'],
+      fix: ['fix', 'bug', 'resolve', 'correct', 'repair', 'patch', 'prevent'],
+      refactor: ['refactor', 'restructure', 'simplify', 'clean', 'rename', 'extract', 'move'],
+      docs: ['doc', 'document', 'documentation', 'readme', 'changelog', 'comment'],
+      test: ['test', 'spec', 'coverage'],
+      chore: ['bump', 'upgrade', 'release', 'chore', 'ci', 'build']
+    }
+  },
+  
+  issues: {
+    trackers: [
+      // Jira-style keys, skipping encodings and hashes such as UTF-8 or SHA-256
+      { pattern: '\\b(?!(?:UTF|ISO|SHA|RFC|CVE)-)[A-Z][A-Z0-9_]+-[1-9][0-9]*\\b', url: null },
+      { pattern: '(?<![\\w&/])#[1-9][0-9]*\\b', url: '{issueUrl}' }
+    ],
+    maxIssues: 20
+  },
+  
+  links: {
+    commitUrl: null,
+    hosts: {}
+  },
+  
+  identities: {
+    useMailmap: true,
+    emailAliases: {},
+    sharedEmails: ['you@example.com', '*@localhost', '*@localhost.localdomain', 'noreply@*', 'no-reply@*'],
+    linkByName: false
+  },
+  
+  ownership: {
+    useBlame: true,
+    maxBlameFiles: 200,
+    blameConcurrency: 4,
+    busFactorThreshold: 0.5,
+    directoryDepth: 2,
+    maxFilesDisplayed: 50
+  },
+  
+  hotspots: {
+    windowDays: 180,
+    maxFiles: 20
+  },
+  
+  coupling: {
+    minSharedCommits: 3,
+    minConfidence: 0.5,
+    maxFilesPerCommit: 20,
+    maxPairs: 50
+  },
+  
+  packages: {
+    detect: true,
+    roots: []
+  },
+  
+  tags: {
+    annotate: true,
+    patterns: []
+  },
+  
+  qualityGates: {
+    minTestRatio: null,
+    maxFileComplexity: null,
+    maxCommitLinesAdded: null,
+    minBusFactor: null
+  },
+  
+  history: {
+    enabled: false,
+    file: null,
+    maxSnapshots: 1000
+  },
+  
+  markdown: {
+    sparklines: false,
+    maxContributors: 20
+  },
+  
+  coAuthors: {
+    credit: 'split',
+    primaryAuthorShare: null
   }
   
   // No author mapping by default - don't include it in defaults
@@ -209,6 +209,27 @@ describe('Unified Config Loader', () => {
       
       expect(() => loadConfiguration({ configPath })).toThrow('bytesPerLineEstimate must be positive')
     })
+    
+    it('should apply history selection overrides', () => {
+      const config = loadConfiguration({
+        range: 'v1.0..v2.0',
+        since: '2024-01-01',
+        until: '2024-03-31'
+      })
+      
+      expect(config.analysis.range).toBe('v1.0..v2.0')
+      expect(config.analysis.since).toBe('2024-01-01')
+      expect(config.analysis.until).toBe('2024-03-31')
+      expect(config.analysis.branch).toBeNull()
+    })
+    
+    it('should reject combining branch and range', () => {
+      expect(() => loadConfiguration({ branch: 'main', range: 'v1.0..v2.0' })).toThrow('range and branch cannot be used together')
+    })
+    
+    it('should reject a range without ..', () => {
+      expect(() => loadConfiguration({ range: 'v1.0' })).toThrow('range must be in the form A..B')
+    })
   })
 })
 
@@ -7,6 +7,12 @@ import { SIMPLIFIED_DEFAULTS } from './simplified-schema.js'
 
 export interface ConfigOverrides {
   maxCommits?: number | null
+  branch?: string
+  range?: string
+  since?: string
+  until?: string
+  sparklines?: boolean
+  history?: boolean
   output?: string
   outputFile?: string
   noCache?: boolean
@@ -115,6 +121,30 @@ export function loadConfiguration(overrides: ConfigOverrides = {}, repoPath?: st
     config.analysis.maxCommits = overrides.maxCommits
   }
   
+  if (overrides.branch !== undefined) {
+    config.analysis.branch = overrides.branch
+  }
+  
+  if (overrides.range !== undefined) {
+    config.analysis.range = overrides.range
+  }
+  
+  if (overrides.since !== undefined) {
+    config.analysis.since = overrides.since
+  }
+  
+  if (overrides.until !== undefined) {
+    config.analysis.until = overrides.until
+  }
+  
+  if (overrides.history) {
+    config.history.enabled = true
+  }
+  
+  if (overrides.sparklines) {
+    config.markdown.sparklines = true
+  }
+  
   if (overrides.noCache || overrides.clearCache) {
     config.performance.cacheEnabled = false
   }
@@ -152,6 +182,14 @@ function validateConfiguration(config: SimplifiedConfig): void {
     throw new Error('bytesPerLineEstimate must be positive')
   }
   
+  if (config.analysis.range && config.analysis.branch) {
+    throw new Error('range and branch cannot be used together')
+  }
+  
+  if (config.analysis.range && !config.analysis.range.includes('..')) {
+    throw new Error('range must be in the form A..B')
+  }
+  
   if (config.wordCloud.minWordLength < 1) {
     throw new Error('minWordLength must be at least 1')
   }
@@ -167,6 +205,130 @@ function validateConfiguration(config: SimplifiedConfig): void {
   if (config.performance.progressThrottleMs < 0) {
     throw new Error('progressThrottleMs cannot be negative')
   }
+  
+  if (!['lizard', 'builtin', 'auto'].includes(config.complexity.analyzer)) {
+    throw new Error('complexity.analyzer must be one of: lizard, builtin, auto')
+  }
+  
+  if (!['commits', 'tags'].includes(config.complexity.trendSampleBy)) {
+    throw new Error('complexity.trendSampleBy must be one of: commits, tags')
+  }
+  
+  if (config.complexity.trendSamples < 0) {
+    throw new Error('complexity.trendSamples cannot be negative')
+  }
+  
+  if (config.ownership.busFactorThreshold <= 0 || config.ownership.busFactorThreshold >= 1) {
+    throw new Error('ownership.busFactorThreshold must be between 0 and 1')
+  }
+  
+  if (config.ownership.directoryDepth < 1) {
+    throw new Error('ownership.directoryDepth must be at least 1')
+  }
+  
+  if (config.ownership.maxBlameFiles < 0) {
+    throw new Error('ownership.maxBlameFiles cannot be negative')
+  }
+  
+  if (config.ownership.blameConcurrency < 1) {
+    throw new Error('ownership.blameConcurrency must be at least 1')
+  }
+  
+  if (config.hotspots.windowDays < 0) {
+    throw new Error('hotspots.windowDays cannot be negative')
+  }
+  
+  if (config.coupling.minSharedCommits < 1) {
+    throw new Error('coupling.minSharedCommits must be at least 1')
+  }
+  
+  if (config.coupling.minConfidence < 0 || config.coupling.minConfidence > 1) {
+    throw new Error('coupling.minConfidence must be between 0 and 1')
+  }
+  
+  if (config.coupling.maxFilesPerCommit < 2) {
+    throw new Error('coupling.maxFilesPerCommit must be at least 2')
+  }
+  
+  if (!Array.isArray(config.commitFilters.ignoreShas) || config.commitFilters.ignoreShas.some(sha => typeof sha !== 'string' || !/^[0-9a-f]{7,40}$/i.test(sha))) {
+    throw new Error('commitFilters.ignoreShas must be an array of commit SHAs (at least 7 hex characters)')
+  }
+  
+  if (config.commitFilters.ignoreRevsFile !== null && typeof config.commitFilters.ignoreRevsFile !== 'string') {
+    throw new Error('commitFilters.ignoreRevsFile must be a path or null')
+  }
+  
+  if (!Array.isArray(config.commitFilters.ignoreRevs) || config.commitFilters.ignoreRevs.some(sha => typeof sha !== 'string' || !/^[0-9a-f]{7,40}$/i.test(sha))) {
+    throw new Error('commitFilters.ignoreRevs must be an array of commit SHAs (at least 7 hex characters)')
+  }
+  
+  if (!Array.isArray(config.commitTypes.types) || config.commitTypes.types.some(type => typeof type !== 'string')) {
+    throw new Error('commitTypes.types must be an array of strings')
+  }
+  
+  if (Object.values(config.commitTypes.keywords).some(words => !Array.isArray(words) || words.some(word => typeof word !== 'string'))) {
+    throw new Error('commitTypes.keywords must map each type to an array of words')
+  }
+  
+  if (!Array.isArray(config.identities.sharedEmails) || config.identities.sharedEmails.some(pattern => typeof pattern !== 'string')) {
+    throw new Error('identities.sharedEmails must be an array of glob strings')
+  }
+  
+  if (!Array.isArray(config.issues.trackers)) {
+    throw new Error('issues.trackers must be an array')
+  }
+  
+  for (const tracker of config.issues.trackers) {
+    try {
+      new RegExp(tracker.pattern)
+    } catch {
+      throw new Error(`issues.trackers pattern is not a valid regular expression: ${tracker.pattern}`)
+    }
+    if (tracker.url !== null && typeof tracker.url !== 'string') {
+      throw new Error('issues.trackers url must be null or a string')
+    }
+  }
+  
+  if (config.issues.maxIssues < 1) {
+    throw new Error('issues.maxIssues must be at least 1')
+  }
+  
+  if (config.links.commitUrl !== null && (typeof config.links.commitUrl !== 'string' || !config.links.commitUrl.includes('{sha}'))) {
+    throw new Error('links.commitUrl must be null or a string containing {sha}')
+  }
+  
+  for (const [host, forge] of Object.entries(config.links.hosts)) {
+    if (!['github', 'gitlab', 'bitbucket', 'gitea', 'azure'].includes(forge)) {
+      throw new Error(`links.hosts.${host} must be one of github, gitlab, bitbucket, gitea or azure`)
+    }
+  }
+  
+  if (!Array.isArray(config.packages.roots) || config.packages.roots.some(root => typeof root !== 'string')) {
+    throw new Error('packages.roots must be an array of glob strings')
+  }
+  
+  if (!Array.isArray(config.tags.patterns) || config.tags.patterns.some(pattern => typeof pattern !== 'string')) {
+    throw new Error('tags.patterns must be an array of glob strings')
+  }
+  
+  for (const [gate, threshold] of Object.entries(config.qualityGates)) {
+    if (threshold !== null && (typeof threshold !== 'number' || threshold < 0)) {
+      throw new Error(`qualityGates.${gate} must be null or a non-negative number`)
+    }
+  }
+  
+  if (config.history.maxSnapshots < 2) {
+    throw new Error('history.maxSnapshots must be at least 2')
+  }
+  
+  if (config.markdown.maxContributors < 1) {
+    throw new Error('markdown.maxContributors must be at least 1')
+  }
+  
+  const { primaryAuthorShare } = config.coAuthors
+  if (primaryAuthorShare !== null && (primaryAuthorShare < 0 || primaryAuthorShare > 1)) {
+    throw new Error('coAuthors.primaryAuthorShare must be between 0 and 1')
+  }
 }
 
 // Export types for compatibility
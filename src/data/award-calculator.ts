@@ -8,12 +8,13 @@ function getTopCommitsByMetric(
   getValue: (commit: CommitData) => number,
   additionalFilter?: (commit: CommitData) => boolean
 ): CommitAward[] {
-  const { commits, config } = context
+  const { commits, ignoredRevisions, config } = context
   return commits
-    .filter(commit => isRealCommit(commit, config) && (!additionalFilter || additionalFilter(commit)))
+    .filter(commit => isRealCommit(commit, config) && !ignoredRevisions?.has(commit.sha) && (!additionalFilter || additionalFilter(commit)))
     .map(commit => ({
       sha: commit.sha,
       authorName: commit.authorName,
+      ...(commit.coAuthors && config.coAuthors.credit !== 'none' && { coAuthorNames: commit.coAuthors.map(coAuthor => coAuthor.name) }),
       date: commit.date,
       message: commit.message,
       value: getValue(commit)
@@ -0,0 +1,166 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+import { calculateFileComplexity, analyzeRepositoryComplexityBuiltin } from './builtin-complexity-analyzer.js'
+
+describe('builtin-complexity-analyzer', () => {
+  describe('calculateFileComplexity', () => {
+    it('should return null for unsupported files', () => {
+      expect(calculateFileComplexity('README.md', '# if and while')).toBeNull()
+      expect(calculateFileComplexity('Makefile', 'all: build')).toBeNull()
+    })
+
+    it('should report the most complex TypeScript function', () => {
+      const content = `
+        export function simple(a: number): number {
+          return a + 1
+        }
+
+        export function branchy(a?: number, b?: string): string {
+          if (a && b) {
+            return b
+          } else if (a || b === undefined) {
+            return a > 1 ? 'big' : 'small'
+          }
+          for (const x of [1, 2]) {
+            switch (x) {
+              case 1: break
+              case 2: break
+            }
+          }
+          return b ?? ''
+        }
+      `
+
+      // 1 + if + && + if + || + ?: + for + case + case + ??
+      expect(calculateFileComplexity('src/example.ts', content)).toBe(10)
+    })
+
+    it('should ignore keywords in strings, comments and regex literals', () => {
+      const content = `
+        // if (a && b) while
+        /* for (;;) { if } */
+        const message = "if this || that"
+        const template = \`case \${1} while\`
+        const pattern = /if|while/
+        function check() {
+          return pattern.test(message + template)
+        }
+      `
+
+      expect(calculateFileComplexity('check.js', content)).toBe(1)
+    })
+
+    it('should count arrow functions and class methods separately', () => {
+      const content = `
+        class Service {
+          private cache = new Map<string, number>()
+
+          async load(key: string): Promise<Map<string, number>> {
+            if (this.cache.has(key)) return this.cache
+            return this.cache
+          }
+        }
+
+        const handler = (items: string[]) => {
+          return items.filter(item => item.length > 0 && item !== 'x')
+        }
+      `
+
+      expect(calculateFileComplexity('service.ts', content)).toBe(2)
+    })
+
+    it('should analyze Java methods', () => {
+      const content = `
+        public class Parser {
+          public int parse(String input) throws IOException {
+            if (input == null || input.isEmpty()) {
+              return 0;
+            }
+            try {
+              return Integer.parseInt(input);
+            } catch (NumberFormatException e) {
+              return -1;
+            }
+          }
+        }
+      `
+
+      expect(calculateFileComplexity('Parser.java', content)).toBe(4)
+    })
+
+    it('should analyze Go functions and methods', () => {
+      const content = `
+        package main
+
+        func (s *Server) Handle(w http.ResponseWriter, r *http.Request) error {
+          for _, h := range s.handlers {
+            if h.Match(r) && h.Enabled {
+              return h.Serve(w, r)
+            }
+          }
+          switch r.Method {
+          case "GET":
+            return nil
+          case "POST":
+            return nil
+          }
+          return errors.New("if not found")
+        }
+      `
+
+      expect(calculateFileComplexity('server.go', content)).toBe(6)
+    })
+
+    it('should analyze Python functions by indentation', () => {
+      const content = [
+        'def outer(items):',
+        '    """Docstring with if and while"""',
+        '    total = 0',
+        '    for item in items:',
+        '        if item and item > 0:',
+        '            total += item',
+        '    return total',
+        '',
+        'class Greeter:',
+        '    def greet(self, name):',
+        '        # if this were counted it would be wrong',
+        '        return name if name else "world"',
+        ''
+      ].join('\n')
+
+      // outer: 1 + for + if + and
+      expect(calculateFileComplexity('greeter.py', content)).toBe(4)
+    })
+  })
+
+  describe('analyzeRepositoryComplexityBuiltin', () => {
+    let tempDir: string | null = null
+
+    afterEach(() => {
+      if (tempDir) rmSync(tempDir, { recursive: true, force: true })
+      tempDir = null
+    })
+
+    it('should map relative paths to complexity for supported files at a commit', async () => {
+      tempDir = mkdtempSync(join(tmpdir(), 'builtin-complexity-'))
+      execSync('git init -q', { cwd: tempDir })
+      mkdirSync(join(tempDir, 'src'))
+      mkdirSync(join(tempDir, 'node_modules'))
+      writeFileSync(join(tempDir, 'src', 'a.ts'), 'function a(x: number) { if (x) { return 1 } return 0 }')
+      writeFileSync(join(tempDir, 'node_modules', 'lib.js'), 'function b(x) { if (x) { return 1 } return 0 }')
+      writeFileSync(join(tempDir, 'notes.md'), 'if')
+      execSync('git add -A && git -c user.name=Test -c user.email=test@example.com commit -q -m init', { cwd: tempDir })
+      const sha = execSync('git rev-parse HEAD', { cwd: tempDir }).toString().trim()
+
+      // Uncommitted edits must not leak into the analysis of the commit
+      writeFileSync(join(tempDir, 'src', 'a.ts'), 'function a(x: number) { if (x && x > 1) { return 1 } return 0 }')
+
+      const result = await analyzeRepositoryComplexityBuiltin(tempDir, sha, ['src/a.ts', 'node_modules/lib.js', 'notes.md', 'src/missing.ts'])
+
+      expect(result).toEqual(new Map([['src/a.ts', 2]]))
+    })
+  })
+})
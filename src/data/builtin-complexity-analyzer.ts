@@ -0,0 +1,381 @@
+import { simpleGit } from 'simple-git'
+import { BlobContentReader } from '../git/blob-content-reader.js'
+import { isFileExcluded } from '../utils/exclusions.js'
+
+interface LanguageDefinition {
+  name: string
+  extensions: string[]
+  family?: 'javascript' | 'c-family' | 'go' | 'python'
+  supportsComplexity: boolean
+}
+
+interface ComplexityRules {
+  syntax: 'brace' | 'indent'
+  lineComments: string[]
+  blockComment?: [string, string]
+  quotes: string[]
+  regexLiterals?: boolean
+  decisionKeywords: string[]
+  decisionOperators: string[]
+  functionKeywords: string[]
+}
+
+// Kept in sync with LANGUAGE_DEFINITIONS in the v2 FileAnalyzer, which lives in a separate
+// workspace outside this package's rootDir; limited to languages the token rules below understand
+const LANGUAGE_DEFINITIONS: LanguageDefinition[] = [
+  { name: 'JavaScript', extensions: ['.js', '.mjs', '.cjs'], family: 'javascript', supportsComplexity: true },
+  { name: 'TypeScript', extensions: ['.ts', '.tsx', '.mts', '.cts'], family: 'javascript', supportsComplexity: true },
+  { name: 'JSX', extensions: ['.jsx'], family: 'javascript', supportsComplexity: true },
+  { name: 'Python', extensions: ['.py', '.pyw', '.pyx'], family: 'python', supportsComplexity: true },
+  { name: 'C', extensions: ['.c', '.h'], family: 'c-family', supportsComplexity: true },
+  { name: 'C++', extensions: ['.cpp', '.cxx', '.cc', '.hpp', '.hxx'], family: 'c-family', supportsComplexity: true },
+  { name: 'C#', extensions: ['.cs'], family: 'c-family', supportsComplexity: true },
+  { name: 'Java', extensions: ['.java'], family: 'c-family', supportsComplexity: true },
+  { name: 'Go', extensions: ['.go'], family: 'go', supportsComplexity: true }
+]
+
+// Decision points follow lizard: each adds one path through the function
+const COMPLEXITY_RULES: Record<NonNullable<LanguageDefinition['family']>, ComplexityRules> = {
+  javascript: {
+    syntax: 'brace',
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    regexLiterals: true,
+    decisionKeywords: ['if', 'for', 'while', 'case', 'catch'],
+    decisionOperators: ['&&', '||', '??', '?'],
+    functionKeywords: ['function']
+  },
+  'c-family': {
+    syntax: 'brace',
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    decisionKeywords: ['if', 'for', 'foreach', 'while', 'case', 'catch'],
+    decisionOperators: ['&&', '||', '?'],
+    functionKeywords: []
+  },
+  go: {
+    syntax: 'brace',
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    decisionKeywords: ['if', 'for', 'case'],
+    decisionOperators: ['&&', '||'],
+    functionKeywords: ['func']
+  },
+  python: {
+    syntax: 'indent',
+    lineComments: ['#'],
+    quotes: ['"""', "'''", '"', "'"],
+    decisionKeywords: ['if', 'elif', 'for', 'while', 'except', 'and', 'or'],
+    decisionOperators: [],
+    functionKeywords: ['def']
+  }
+}
+
+// Keywords whose parenthesised header is followed by a block that is not a function body
+const CONTROL_KEYWORDS = new Set([
+  'if', 'for', 'foreach', 'while', 'switch', 'catch', 'with', 'using', 'lock', 'fixed', 'synchronized',
+  'else', 'do', 'try', 'finally', 'return', 'case', 'select', 'go', 'defer', 'range'
+])
+
+// Files this large are almost always generated or minified
+export const MAX_COMPLEXITY_FILE_BYTES = 1024 * 1024
+
+// Blobs are fetched in batches to keep memory bounded on large trees
+export const BLOB_BATCH_SIZE = 200
+
+const languageByExtension = new Map<string, LanguageDefinition>()
+for (const language of LANGUAGE_DEFINITIONS) {
+  for (const extension of language.extensions) {
+    languageByExtension.set(extension, language)
+  }
+}
+
+function getComplexityRules(fileName: string): ComplexityRules | null {
+  const lastDot = fileName.lastIndexOf('.')
+  if (lastDot === -1 || lastDot < fileName.lastIndexOf('/')) {
+    return null
+  }
+
+  const language = languageByExtension.get(fileName.slice(lastDot).toLowerCase())
+  if (!language?.supportsComplexity || !language.family) {
+    return null
+  }
+  return COMPLEXITY_RULES[language.family]
+}
+
+function isRegexStart(code: string, index: number): boolean {
+  let i = index - 1
+  while (i >= 0 && (code[i] === ' ' || code[i] === '\t')) i--
+  if (i < 0) return true
+
+  const previous = code[i]!
+  if ('(,=:[!&|?{};+-*%<>~^\n'.includes(previous)) return true
+
+  const word = code.slice(0, i + 1).match(/[A-Za-z_$][\w$]*$/)?.[0]
+  return word === 'return' || word === 'typeof' || word === 'case'
+}
+
+/**
+ * Remove comments and replace string, character and regex literals with an
+ * empty string so their contents cannot be mistaken for code. Newlines are kept.
+ */
+function stripCommentsAndStrings(content: string, rules: ComplexityRules): string {
+  let output = ''
+  let i = 0
+
+  while (i < content.length) {
+    const lineComment = rules.lineComments.find(marker => content.startsWith(marker, i))
+    if (lineComment) {
+      while (i < content.length && content[i] !== '\n') i++
+      continue
+    }
+
+    if (rules.blockComment && content.startsWith(rules.blockComment[0], i)) {
+      const end = content.indexOf(rules.blockComment[1], i + rules.blockComment[0].length)
+      const stop = end === -1 ? content.length : end + rules.blockComment[1].length
+      output += content.slice(i, stop).replace(/[^\n]/g, '')
+      i = stop
+      continue
+    }
+
+    const quote = rules.quotes.find(marker => content.startsWith(marker, i))
+    if (quote) {
+      const multiline = quote.length === 3 || quote === '`'
+      i += quote.length
+      while (i < content.length && !content.startsWith(quote, i)) {
+        if (content[i] === '\\') i++
+        else if (content[i] === '\n' && !multiline) break
+        i++
+      }
+      i += quote.length
+      output += '""'
+      continue
+    }
+
+    if (rules.regexLiterals && content[i] === '/' && isRegexStart(content, i)) {
+      let inClass = false
+      i++
+      while (i < content.length && content[i] !== '\n') {
+        const char = content[i]
+        if (char === '\\') i++
+        else if (char === '[') inClass = true
+        else if (char === ']') inClass = false
+        else if (char === '/' && !inClass) break
+        i++
+      }
+      i++
+      output += '""'
+      continue
+    }
+
+    output += content[i]
+    i++
+  }
+
+  return output
+}
+
+function isDecision(token: string, next: string | undefined, rules: ComplexityRules): boolean {
+  if (rules.decisionKeywords.includes(token)) return true
+  if (!rules.decisionOperators.includes(token)) return false
+  // `?` is only a ternary when it is not an optional marker such as `name?: string` or `fn?(x)`
+  return token !== '?' || (next !== undefined && !':,);=])>'.includes(next))
+}
+
+/**
+ * Decide whether the `{` at `index` opens a function body by looking back for a
+ * parameter list `name(...)`, skipping return types, `throws` clauses and modifiers.
+ */
+function opensFunctionBody(tokens: string[], index: number): boolean {
+  let angleDepth = 0
+
+  for (let j = index - 1; j >= 0 && j >= index - 30; j--) {
+    const token = tokens[j]!
+    if (token === '>') { angleDepth++; continue }
+    if (token === '<') { angleDepth--; continue }
+    if (token === ';' || token === '{' || token === '}' || token === '=' || token === '(') return false
+    if (token === ',' && angleDepth <= 0) return false
+    if (CONTROL_KEYWORDS.has(token)) return false
+
+    if (token === ')') {
+      let depth = 0
+      for (let k = j; k >= 0; k--) {
+        if (tokens[k] === ')') depth++
+        else if (tokens[k] === '(' && --depth === 0) {
+          const name = tokens[k - 1]
+          return name !== undefined && /^[A-Za-z_$~][\w$]*$/.test(name) && !CONTROL_KEYWORDS.has(name)
+        }
+      }
+      return false
+    }
+  }
+
+  return false
+}
+
+function calculateBraceComplexity(code: string, rules: ComplexityRules): number[] {
+  const tokens = code.match(/[A-Za-z_$][\w$]*|&&|\|\||\?\?|\?\.|=>|\S/g) ?? []
+  const scopes: Array<{ isFunction: boolean; complexity: number }> = [{ isFunction: true, complexity: 1 }]
+  const results: number[] = []
+  let pendingFunction = false
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!
+
+    if (rules.functionKeywords.includes(token)) {
+      pendingFunction = true
+    } else if (token === '=>') {
+      pendingFunction = tokens[i + 1] === '{'
+    } else if (token === ';') {
+      pendingFunction = false
+    } else if (token === '{') {
+      scopes.push({ isFunction: pendingFunction || opensFunctionBody(tokens, i), complexity: 1 })
+      pendingFunction = false
+    } else if (token === '}') {
+      const scope = scopes.length > 1 ? scopes.pop() : undefined
+      if (scope?.isFunction) results.push(scope.complexity)
+    } else if (isDecision(token, tokens[i + 1], rules)) {
+      // Decisions in nested blocks and object literals belong to the enclosing function
+      const owner = scopes.findLast(scope => scope.isFunction)!
+      owner.complexity++
+    }
+  }
+
+  // Top-level code only counts when it branches
+  const moduleScope = scopes[0]!
+  if (moduleScope.complexity > 1) results.push(moduleScope.complexity)
+  return results
+}
+
+function calculateIndentComplexity(code: string, rules: ComplexityRules): number[] {
+  const scopes: Array<{ indent: number; complexity: number }> = []
+  const results: number[] = []
+  let moduleComplexity = 1
+  let bracketDepth = 0
+
+  for (const line of code.split('\n')) {
+    const trimmed = line.trim()
+    if (!trimmed) continue
+
+    // Continuation lines inside brackets do not change scope
+    if (bracketDepth === 0) {
+      const indent = line.length - line.trimStart().length
+      while (scopes.length > 0 && indent <= scopes[scopes.length - 1]!.indent) {
+        results.push(scopes.pop()!.complexity)
+      }
+      if (/^(async\s+)?def\b/.test(trimmed)) {
+        scopes.push({ indent, complexity: 1 })
+      }
+    }
+
+    for (const token of trimmed.match(/[A-Za-z_]\w*|[()[\]{}]/g) ?? []) {
+      if ('([{'.includes(token)) bracketDepth++
+      else if (')]}'.includes(token)) bracketDepth = Math.max(0, bracketDepth - 1)
+      else if (rules.decisionKeywords.includes(token)) {
+        const scope = scopes[scopes.length - 1]
+        if (scope) scope.complexity++
+        else moduleComplexity++
+      }
+    }
+  }
+
+  results.push(...scopes.map(scope => scope.complexity))
+  if (moduleComplexity > 1) results.push(moduleComplexity)
+  return results
+}
+
+export function supportsBuiltinComplexity(fileName: string): boolean {
+  return getComplexityRules(fileName) !== null
+}
+
+/**
+ * Cyclomatic complexity of every function in a file, plus top-level code when it
+ * branches. Returns null for unsupported languages.
+ */
+export function calculateFunctionComplexities(fileName: string, content: string): number[] | null {
+  const rules = getComplexityRules(fileName)
+  if (!rules) {
+    return null
+  }
+
+  const code = stripCommentsAndStrings(content, rules)
+  return rules.syntax === 'brace'
+    ? calculateBraceComplexity(code, rules)
+    : calculateIndentComplexity(code, rules)
+}
+
+/**
+ * Cyclomatic complexity of the most complex function in a file, matching what
+ * lizard reports per file. Returns null for unsupported languages and files
+ * without functions or branching code.
+ */
+export function calculateFileComplexity(fileName: string, content: string): number | null {
+  const functionComplexities = calculateFunctionComplexities(fileName, content)
+  return functionComplexities && functionComplexities.length > 0 ? Math.max(...functionComplexities) : null
+}
+
+export interface TreeBlob {
+  blob: string
+  path: string
+}
+
+/**
+ * Blobs at a commit that the built-in analyzer understands, leaving out
+ * excluded and oversized files
+ */
+export async function listComplexityBlobs(repoPath: string, sha: string, exclusionPatterns?: string[]): Promise<TreeBlob[]> {
+  const output = await simpleGit(repoPath).raw(['ls-tree', '-r', '-l', '-z', '--full-tree', sha])
+
+  const blobs: TreeBlob[] = []
+  for (const entry of output.split('\0')) {
+    // <mode> blob <sha> <size>\t<path>
+    const match = entry.match(/^\d+ blob ([0-9a-f]+)\s+(\d+)\t(.+)$/s)
+    if (!match?.[1] || !match[2] || !match[3]) continue
+
+    const path = match[3]
+    if (parseInt(match[2], 10) > MAX_COMPLEXITY_FILE_BYTES) continue
+    if (!supportsBuiltinComplexity(path) || isFileExcluded(path, exclusionPatterns)) continue
+
+    blobs.push({ blob: match[1], path })
+  }
+  return blobs
+}
+
+/**
+ * Pure TypeScript alternative to lizard with the same result shape: relative
+ * file path to the highest function complexity in that file. Files are read
+ * as they were at `ref`, not from the working tree.
+ */
+export async function analyzeRepositoryComplexityBuiltin(repoPath: string, ref: string, files: Iterable<string>): Promise<Map<string, number>> {
+  const complexityMap = new Map<string, number>()
+  const wanted = new Set(files)
+  let treeBlobs: TreeBlob[]
+  try {
+    treeBlobs = (await listComplexityBlobs(repoPath, ref)).filter(({ path }) => wanted.has(path))
+  } catch {
+    // Commit not available locally, e.g. in a shallow clone
+    return complexityMap
+  }
+  const reader = new BlobContentReader(repoPath)
+
+  try {
+    for (let start = 0; start < treeBlobs.length; start += BLOB_BATCH_SIZE) {
+      const batch = treeBlobs.slice(start, start + BLOB_BATCH_SIZE)
+      const contents = await reader.getContents(batch.map(entry => entry.blob))
+      for (const { blob, path } of batch) {
+        const content = contents.get(blob)
+        const complexity = content ? calculateFileComplexity(path, content.toString('utf-8')) : null
+        if (complexity !== null && complexity > 0) {
+          complexityMap.set(path, complexity)
+        }
+      }
+    }
+  } finally {
+    await reader.close()
+  }
+
+  return complexityMap
+}
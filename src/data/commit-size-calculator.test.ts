@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { CommitDataBuilder, FileChangeBuilder } from '../test/builders.js'
+import {
+  percentile,
+  createSizeBuckets,
+  calculateSizeDistribution,
+  classifyOutlier,
+  calculateCommitSizes,
+  getCommitSizeData
+} from './commit-size-calculator.js'
+import type { CommitData } from '../git/parser.js'
+import type { AnalysisContext } from '../report/generator.js'
+
+function createCommit(sha: string, changes: Array<[string, number, number]>, message = 'Change things'): CommitData {
+  return new CommitDataBuilder()
+    .withHash(sha)
+    .withMessage(message)
+    .withFileChanges(changes.map(([path, added, deleted]) => new FileChangeBuilder().withPath(path).withAdditions(added).withDeletions(deleted).build()))
+    .build()
+}
+
+describe('percentile', () => {
+  it('uses the nearest rank', () => {
+    const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
+    expect(percentile(sorted, 50)).toBe(5)
+    expect(percentile(sorted, 95)).toBe(10)
+    expect(percentile(sorted, 0)).toBe(1)
+    expect(percentile([], 50)).toBe(0)
+  })
+})
+
+describe('createSizeBuckets', () => {
+  it('counts values into half-open 1-2-5 buckets between the smallest and largest', () => {
+    expect(createSizeBuckets([3, 4, 12, 1500])).toEqual([
+      { label: '2–5', min: 2, max: 5, count: 2 },
+      { label: '5–10', min: 5, max: 10, count: 0 },
+      { label: '10–20', min: 10, max: 20, count: 1 },
+      { label: '20–50', min: 20, max: 50, count: 0 },
+      { label: '50–100', min: 50, max: 100, count: 0 },
+      { label: '100–200', min: 100, max: 200, count: 0 },
+      { label: '200–500', min: 200, max: 500, count: 0 },
+      { label: '500–1k', min: 500, max: 1000, count: 0 },
+      { label: '1k–2k', min: 1000, max: 2000, count: 1 }
+    ])
+  })
+
+  it('gives zero and one their own buckets', () => {
+    expect(createSizeBuckets([0, 1], [1]).map(bucket => [bucket.label, bucket.count])).toEqual([['0', 1], ['1–10', 1]])
+  })
+})
+
+describe('calculateSizeDistribution', () => {
+  it('places the outlier threshold on the log-scale upper fence', () => {
+    // Q1 = 9, Q3 = 99: the fence is 100 × 10^1.5 - 1
+    const values = [9, 9, 9, 9, 99, 99, 99, 99]
+    expect(calculateSizeDistribution(values, 0).outlierThreshold).toBe(3161)
+    expect(calculateSizeDistribution(values, 5000).outlierThreshold).toBe(5000)
+  })
+
+  it('reports percentiles, mean and max', () => {
+    const distribution = calculateSizeDistribution([10, 20, 30, 40], 0)
+    expect(distribution.percentiles).toEqual({ p50: 20, p75: 30, p90: 40, p95: 40, p99: 40 })
+    expect(distribution.mean).toBe(25)
+    expect(distribution.max).toBe(40)
+  })
+})
+
+describe('classifyOutlier', () => {
+  it('recognizes vendored drops', () => {
+    const commit = createCommit('a1', [['vendor/lib/a.js', 9000, 0], ['src/main.ts', 10, 0]])
+    expect(classifyOutlier(commit)).toEqual({ kind: 'vendored', reason: '100% of changed lines in vendored directories' })
+  })
+
+  it('recognizes generated files and lockfiles', () => {
+    const commit = createCommit('b2', [['package-lock.json', 6000, 2000], ['src/main.ts', 100, 0]])
+    expect(classifyOutlier(commit)?.kind).toBe('generated')
+  })
+
+  it('recognizes reformatting by balanced additions and deletions', () => {
+    const files = Array.from({ length: 6 }, (_, index): [string, number, number] => [`src/file${index}.ts`, 500, 480])
+    expect(classifyOutlier(createCommit('c3', files))?.kind).toBe('reformat')
+  })
+
+  it('finds nothing special in an ordinary large commit', () => {
+    expect(classifyOutlier(createCommit('d4', [['src/feature.ts', 5000, 10]]))).toBeNull()
+  })
+})
+
+describe('calculateCommitSizes', () => {
+  const ordinary = Array.from({ length: 20 }, (_, index) => createCommit(`c${index}`, [['src/app.ts', 10 + index, 5]]))
+
+  it('flags commits above the thresholds, largest first', () => {
+    const drop = createCommit('vendor1', [['third_party/zlib/inflate.c', 40000, 0]])
+    const big = createCommit('big1', [['src/rewrite.ts', 3000, 0]])
+
+    const data = calculateCommitSizes([...ordinary, drop, big], ['abc1234'])
+
+    expect(data.analyzedCommits).toBe(22)
+    expect(data.outliers.map(outlier => [outlier.sha, outlier.kind])).toEqual([['vendor1', 'vendored'], ['big1', 'large']])
+    expect(data.outliers[1]).toMatchObject({ lines: 3000, files: 1, bytes: 150000, reason: 'Unusually large: 3,000 lines, 150,000 bytes' })
+    expect(data.ignoredShas).toEqual(['abc1234'])
+    expect(data.ignoredRevs).toEqual([])
+  })
+
+  it('leaves byte statistics out without byte data', () => {
+    const commits = ordinary.map(({ bytesAdded: _added, bytesDeleted: _deleted, ...commit }) => commit)
+    expect(calculateCommitSizes(commits).bytes).toBeNull()
+  })
+})
+
+describe('getCommitSizeData', () => {
+  it('skips merge commits and returns nothing without real commits', () => {
+    const context = {
+      commits: [createCommit('m1', [['src/a.ts', 1, 0]], 'Merge branch main')],
+      config: TEST_CONFIG
+    } as unknown as AnalysisContext
+
+    expect(getCommitSizeData(context)).toBeUndefined()
+  })
+})
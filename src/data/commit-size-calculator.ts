@@ -0,0 +1,165 @@
+import type { CommitData } from '../git/parser.js'
+import { isRealCommit } from '../utils/commit-filters.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { CommitSizeData, CommitSizeOutlier, SizeBucket, SizeDistribution } from './types.js'
+
+const MAX_OUTLIERS = 50
+
+// Small histories give unreliable quartiles, so outliers must also clear these sizes
+const MIN_OUTLIER_SIZE = { lines: 1000, files: 50, bytes: 100_000 }
+
+// Share of a commit's changed lines that decides its outlier kind
+const KIND_SHARE = 0.5
+
+const VENDORED_PATTERN = /(^|\/)(vendor|vendored|third[-_]?party|external|node_modules|bower_components)\//i
+const GENERATED_PATTERNS = [
+  /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|Gemfile\.lock|poetry\.lock|composer\.lock|go\.sum)$/,
+  /\.min\.(js|css)$/,
+  /\.map$/,
+  /\.(pb\.go|g\.dart|designer\.cs)$/,
+  /_pb2\.py$/,
+  /\.generated\./,
+  /(^|\/)(generated|__generated__|dist)\//
+]
+
+function formatSize(value: number): string {
+  if (value >= 1_000_000) return `${value / 1_000_000}M`
+  if (value >= 1000) return `${value / 1000}k`
+  return String(value)
+}
+
+/**
+ * Nearest-rank percentile of an ascending array
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]!
+}
+
+/**
+ * Half-open buckets on a 1-2-5 scale (or powers of ten), from the bucket of
+ * the smallest value to the bucket of the largest
+ */
+export function createSizeBuckets(values: number[], steps: number[] = [1, 2, 5]): SizeBucket[] {
+  if (values.length === 0) return []
+  const largest = values.reduce((max, value) => Math.max(max, value), 0)
+
+  const edges = [0]
+  for (let magnitude = 1; edges[edges.length - 1]! <= largest; magnitude *= 10) {
+    edges.push(...steps.map(step => step * magnitude))
+  }
+
+  const buckets = edges.slice(0, -1).map((min, index): SizeBucket => {
+    const max = edges[index + 1]!
+    return { label: max - min === 1 ? formatSize(min) : `${formatSize(min)}–${formatSize(max)}`, min, max, count: 0 }
+  })
+  for (const value of values) {
+    buckets.find(bucket => value >= bucket.min && value < bucket.max)!.count++
+  }
+
+  const first = buckets.findIndex(bucket => bucket.count > 0)
+  const last = buckets.length - 1 - [...buckets].reverse().findIndex(bucket => bucket.count > 0)
+  return buckets.slice(first, last + 1)
+}
+
+/**
+ * Histogram and percentiles of commit sizes. Sizes are heavy-tailed, so the
+ * outlier threshold is Tukey's upper fence (Q3 + 1.5 × IQR) on a log scale,
+ * and never below `minimum`.
+ */
+export function calculateSizeDistribution(values: number[], minimum: number, steps?: number[]): SizeDistribution {
+  const sorted = [...values].sort((a, b) => a - b)
+  const q1 = percentile(sorted, 25)
+  const q3 = percentile(sorted, 75)
+  const fence = (1 + q3) * Math.pow((1 + q3) / (1 + q1), 1.5) - 1
+
+  return {
+    buckets: createSizeBuckets(sorted, steps),
+    percentiles: {
+      p50: percentile(sorted, 50),
+      p75: q3,
+      p90: percentile(sorted, 90),
+      p95: percentile(sorted, 95),
+      p99: percentile(sorted, 99)
+    },
+    mean: sorted.length > 0 ? Math.round((sorted.reduce((sum, value) => sum + value, 0) / sorted.length) * 10) / 10 : 0,
+    max: sorted[sorted.length - 1] ?? 0,
+    outlierThreshold: Math.max(minimum, Math.round(fence))
+  }
+}
+
+/**
+ * Guess why a commit is so large from where its lines went, or null when
+ * nothing stands out
+ */
+export function classifyOutlier(commit: CommitData): Pick<CommitSizeOutlier, 'kind' | 'reason'> | null {
+  const lines = commit.linesAdded + commit.linesDeleted
+  const share = (matches: (fileName: string) => boolean) => {
+    const matched = commit.filesChanged
+      .filter(fileChange => matches(fileChange.fileName))
+      .reduce((sum, fileChange) => sum + fileChange.linesAdded + fileChange.linesDeleted, 0)
+    return lines > 0 ? matched / lines : 0
+  }
+
+  const vendored = share(fileName => VENDORED_PATTERN.test(fileName))
+  if (vendored >= KIND_SHARE) {
+    return { kind: 'vendored', reason: `${Math.round(vendored * 100)}% of changed lines in vendored directories` }
+  }
+
+  const generated = share(fileName => GENERATED_PATTERNS.some(pattern => pattern.test(fileName)))
+  if (generated >= KIND_SHARE) {
+    return { kind: 'generated', reason: `${Math.round(generated * 100)}% of changed lines in generated files or lockfiles` }
+  }
+
+  // Reformatting rewrites lines in place: about as many removed as added, across many files
+  const balance = Math.min(commit.linesAdded, commit.linesDeleted) / Math.max(commit.linesAdded, commit.linesDeleted, 1)
+  if (balance >= 0.9 && commit.filesChanged.length >= 5) {
+    return { kind: 'reformat', reason: `${commit.filesChanged.length.toLocaleString()} files rewritten with nearly as many lines removed as added` }
+  }
+
+  return null
+}
+
+export function calculateCommitSizes(commits: CommitData[], ignoredShas: string[] = [], ignoredRevs: string[] = []): CommitSizeData {
+  const lines = calculateSizeDistribution(commits.map(commit => commit.linesAdded + commit.linesDeleted), MIN_OUTLIER_SIZE.lines)
+  const files = calculateSizeDistribution(commits.map(commit => commit.filesChanged.length), MIN_OUTLIER_SIZE.files)
+
+  const getBytes = (commit: CommitData) => commit.bytesAdded === undefined && commit.bytesDeleted === undefined
+    ? null
+    : (commit.bytesAdded ?? 0) + (commit.bytesDeleted ?? 0)
+  const byteValues = commits.map(getBytes).filter((bytes): bytes is number => bytes !== null)
+  // Bytes scale too far for 1-2-5 steps to stay readable
+  const bytes = byteValues.length > 0 ? calculateSizeDistribution(byteValues, MIN_OUTLIER_SIZE.bytes, [1]) : null
+
+  const outliers = commits
+    .flatMap((commit): CommitSizeOutlier[] => {
+      const size = { lines: commit.linesAdded + commit.linesDeleted, files: commit.filesChanged.length, bytes: getBytes(commit) }
+      const exceeded = [
+        ...(size.lines > lines.outlierThreshold ? [`${size.lines.toLocaleString()} lines`] : []),
+        ...(size.files > files.outlierThreshold ? [`${size.files.toLocaleString()} files`] : []),
+        ...(bytes && size.bytes !== null && size.bytes > bytes.outlierThreshold ? [`${size.bytes.toLocaleString()} bytes`] : [])
+      ]
+      if (exceeded.length === 0) return []
+
+      return [{
+        sha: commit.sha,
+        authorName: commit.authorName,
+        date: commit.date,
+        message: commit.message,
+        ...size,
+        ...(classifyOutlier(commit) ?? { kind: 'large', reason: `Unusually large: ${exceeded.join(', ')}` })
+      }]
+    })
+    .sort((a, b) => b.lines - a.lines)
+    .slice(0, MAX_OUTLIERS)
+
+  return { analyzedCommits: commits.length, lines, files, bytes, outliers, ignoredShas, ignoredRevs }
+}
+
+export function getCommitSizeData(context: AnalysisContext): CommitSizeData | undefined {
+  const { commits, ignoredRevisions, config } = context
+  const realCommits = commits.filter(commit => isRealCommit(commit, config) && !ignoredRevisions?.has(commit.sha))
+  if (realCommits.length === 0) return undefined
+  return calculateCommitSizes(realCommits, config.commitFilters.ignoreShas, config.commitFilters.ignoreRevs)
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { createTestCommit } from '../test/builders.js'
+import { classifyCommits } from '../git/commit-classifier.js'
+import { getCommitTypeData } from './commit-type-calculator.js'
+import type { AnalysisContext } from '../report/generator.js'
+
+function createContext(commits: Array<[string, string, string]>): AnalysisContext {
+  return {
+    repoPath: '/fake/repo',
+    repoName: 'test-repo',
+    isLizardInstalled: false,
+    currentFiles: new Set<string>(),
+    commits: classifyCommits(commits.map(([authorName, date, message]) => createTestCommit({ authorName, date, message })), TEST_CONFIG),
+    config: TEST_CONFIG
+  }
+}
+
+describe('getCommitTypeData', () => {
+  it('summarizes types, scopes, breaking changes and the feat-vs-fix ratio', () => {
+    const data = getCommitTypeData(createContext([
+      ['Alice', '2024-01-01T10:00:00Z', 'feat(ui): add dark mode'],
+      ['Alice', '2024-01-01T12:00:00Z', 'feat(ui)!: new layout'],
+      ['Bob', '2024-01-02T10:00:00Z', 'fix(parser): handle renames'],
+      ['Bob', '2024-01-02T11:00:00Z', 'Merge branch main'],
+      ['Bob', '2024-01-03T10:00:00Z', 'Update readme']
+    ]))!
+
+    expect(data.types).toEqual([
+      { type: 'feat', commits: 2, percentage: 50 },
+      { type: 'docs', commits: 1, percentage: 25 },
+      { type: 'fix', commits: 1, percentage: 25 }
+    ])
+    expect(data.scopes).toEqual([{ scope: 'ui', commits: 2 }, { scope: 'parser', commits: 1 }])
+    expect(data.breakingChanges).toBe(1)
+    expect(data.featFixRatio).toBe(2)
+    expect(data.conventionalPercentage).toBe(75)
+  })
+
+  it('counts types per day and per contributor', () => {
+    const data = getCommitTypeData(createContext([
+      ['Alice', '2024-01-01T10:00:00Z', 'feat: one'],
+      ['Bob', '2024-01-01T12:00:00Z', 'fix: two'],
+      ['Bob', '2024-01-05T10:00:00Z', 'fix: three']
+    ]))!
+
+    expect(data.granularity).toBe('day')
+    expect(data.timeSeries).toEqual([
+      { date: '2024-01-01', counts: { feat: 1, fix: 1 } },
+      { date: '2024-01-05', counts: { fix: 1 } }
+    ])
+    expect(data.contributors).toEqual([
+      { name: 'Bob', commits: 2, counts: { fix: 2 } },
+      { name: 'Alice', commits: 1, counts: { feat: 1 } }
+    ])
+    expect(data.featFixRatio).toBe(0.5)
+  })
+
+  it('buckets long histories by month', () => {
+    const data = getCommitTypeData(createContext([
+      ['Alice', '2023-01-10T10:00:00Z', 'feat: one'],
+      ['Alice', '2023-01-20T10:00:00Z', 'feat: two'],
+      ['Alice', '2023-12-01T10:00:00Z', 'chore: three']
+    ]))!
+
+    expect(data.granularity).toBe('month')
+    expect(data.timeSeries.map(point => point.date)).toEqual(['2023-01-01', '2023-12-01'])
+    expect(data.featFixRatio).toBeNull()
+  })
+})
@@ -0,0 +1,89 @@
+import { isRealCommit } from '../utils/commit-filters.js'
+import { getCommitCredits } from './contributor-calculator.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { CommitTypeData, CommitTypePoint, ContributorCommitTypes } from './types.js'
+
+const TOP_SCOPES = 10
+const TOP_CONTRIBUTORS = 10
+
+// Longer histories are bucketed by month so the stacked bars stay readable
+const MONTHLY_AFTER_DAYS = 180
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function increment(counts: Record<string, number>, type: string, amount: number = 1): void {
+  counts[type] = (counts[type] ?? 0) + amount
+}
+
+/**
+ * Break commits down by their classified type, over time and per contributor
+ */
+export function getCommitTypeData(context: AnalysisContext): CommitTypeData | undefined {
+  const { commits, config } = context
+  const classified = commits.filter(commit => commit.classification && isRealCommit(commit, config))
+  if (classified.length === 0) return undefined
+
+  const first = new Date(classified[0]!.date).getTime()
+  const last = new Date(classified[classified.length - 1]!.date).getTime()
+  const granularity: CommitTypeData['granularity'] = last - first > MONTHLY_AFTER_DAYS * DAY_MS ? 'month' : 'day'
+  const getPeriod = (date: string) => {
+    const day = new Date(date).toISOString().split('T')[0]!
+    return granularity === 'month' ? `${day.slice(0, 7)}-01` : day
+  }
+
+  const typeCounts: Record<string, number> = {}
+  const scopeCounts: Record<string, number> = {}
+  const timeSeries: CommitTypePoint[] = []
+  const contributors = new Map<string, ContributorCommitTypes>()
+  let conventional = 0
+  let breakingChanges = 0
+
+  for (const commit of classified) {
+    const { type, scope, breaking, source } = commit.classification!
+    increment(typeCounts, type)
+    if (scope) increment(scopeCounts, scope)
+    if (source === 'conventional') conventional++
+    if (breaking) breakingChanges++
+
+    const period = getPeriod(commit.date)
+    let point = timeSeries[timeSeries.length - 1]
+    if (point?.date !== period) {
+      point = { date: period, counts: {} }
+      timeSeries.push(point)
+    }
+    increment(point.counts, type)
+
+    for (const { name, share } of getCommitCredits(commit, config)) {
+      const contributor = contributors.get(name) ?? { name, commits: 0, counts: {} }
+      contributor.commits += share
+      increment(contributor.counts, type, share)
+      contributors.set(name, contributor)
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 10) / 10
+
+  return {
+    conventionalPercentage: round((conventional / classified.length) * 100),
+    breakingChanges,
+    featFixRatio: typeCounts['fix'] ? Math.round(((typeCounts['feat'] ?? 0) / typeCounts['fix']) * 100) / 100 : null,
+    types: Object.entries(typeCounts)
+      .map(([type, count]) => ({ type, commits: count, percentage: round((count / classified.length) * 100) }))
+      .sort((a, b) => b.commits - a.commits || a.type.localeCompare(b.type)),
+    scopes: Object.entries(scopeCounts)
+      .map(([scope, count]) => ({ scope, commits: count }))
+      .sort((a, b) => b.commits - a.commits || a.scope.localeCompare(b.scope))
+      .slice(0, TOP_SCOPES),
+    granularity,
+    timeSeries,
+    // Same rounding as getContributorStats for split co-author credit
+    contributors: Array.from(contributors.values())
+      .map(contributor => ({
+        ...contributor,
+        commits: round(contributor.commits),
+        counts: Object.fromEntries(Object.entries(contributor.counts).map(([type, count]) => [type, round(count)]))
+      }))
+      .sort((a, b) => b.commits - a.commits)
+      .slice(0, TOP_CONTRIBUTORS)
+  }
+}
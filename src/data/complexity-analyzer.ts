@@ -0,0 +1,32 @@
+import { analyzeRepositoryComplexity, checkLizardInstalled } from './lizard-complexity-analyzer.js'
+import { analyzeRepositoryComplexityBuiltin } from './builtin-complexity-analyzer.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+
+export type ComplexityAnalyzer = SimplifiedConfig['complexity']['analyzer']
+
+/**
+ * Pick the analyzer that will actually run: `auto` prefers lizard and falls back
+ * to the built-in analyzer when lizard is not installed.
+ */
+export async function resolveComplexityAnalyzer(analyzer: ComplexityAnalyzer): Promise<'lizard' | 'builtin'> {
+  if (analyzer !== 'auto') {
+    return analyzer
+  }
+  return await checkLizardInstalled() ? 'lizard' : 'builtin'
+}
+
+/**
+ * Complexity per file at `ref`. The built-in analyzer reads that commit from the
+ * object database; lizard scans the working tree.
+ */
+export async function analyzeComplexity(
+  repoPath: string,
+  ref: string,
+  files: Iterable<string>,
+  analyzer: ComplexityAnalyzer
+): Promise<Map<string, number>> {
+  if (await resolveComplexityAnalyzer(analyzer) === 'builtin') {
+    return analyzeRepositoryComplexityBuiltin(repoPath, ref, files)
+  }
+  return analyzeRepositoryComplexity(repoPath)
+}
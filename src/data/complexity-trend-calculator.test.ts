@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { selectEvenlySpaced, getComplexityTrend } from './complexity-trend-calculator.js'
+import { createTestCommit } from '../test/builders.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+
+describe('selectEvenlySpaced', () => {
+  it('returns everything when there are fewer items than requested', () => {
+    expect(selectEvenlySpaced([1, 2, 3], 5)).toEqual([1, 2, 3])
+  })
+  
+  it('keeps the first and last items', () => {
+    expect(selectEvenlySpaced([0, 1, 2, 3, 4, 5, 6, 7, 8], 3)).toEqual([0, 4, 8])
+    expect(selectEvenlySpaced([0, 1, 2, 3, 4, 5, 6, 7, 8, 9], 4)).toEqual([0, 3, 6, 9])
+  })
+  
+  it('returns the newest item for a single sample and nothing when disabled', () => {
+    expect(selectEvenlySpaced([1, 2, 3], 1)).toEqual([3])
+    expect(selectEvenlySpaced([1, 2, 3], 0)).toEqual([])
+  })
+})
+
+describe('getComplexityTrend', () => {
+  let testRepoPath: string
+  let shas: string[]
+  
+  const commitFile = (content: string, message: string) => {
+    writeFileSync(join(testRepoPath, 'app.ts'), content)
+    execSync('git add .', { cwd: testRepoPath })
+    execSync(`git commit -m "${message}"`, { cwd: testRepoPath })
+  }
+  
+  const createContext = (complexity: Partial<SimplifiedConfig['complexity']>): AnalysisContext => ({
+    repoPath: testRepoPath,
+    repoName: 'test-repo',
+    isLizardInstalled: false,
+    currentFiles: new Set(['app.ts']),
+    commits: shas.map((sha, index) => createTestCommit({ sha, date: `2024-0${index + 1}-01T00:00:00Z` })),
+    config: { ...TEST_CONFIG, complexity: { ...TEST_CONFIG.complexity, ...complexity } }
+  })
+  
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-complexity-trend-'))
+    execSync('git init', { cwd: testRepoPath })
+    execSync('git config user.name "Test User"', { cwd: testRepoPath })
+    execSync('git config user.email "test@example.com"', { cwd: testRepoPath })
+    
+    commitFile('export function a() { return 1 }\n', 'Simple')
+    execSync('git tag v1.0', { cwd: testRepoPath })
+    commitFile('export function a(x: number) { if (x) { return 1 } return 0 }\n', 'Branch')
+    commitFile([
+      'export function a(x: number) { if (x && x > 1) { return 1 } return 0 }',
+      'export function b(y: string) { return y ? y : "none" }',
+      ''
+    ].join('\n'), 'More branches')
+    execSync('git tag -a v2.0 -m "Release 2"', { cwd: testRepoPath })
+    writeFileSync(join(testRepoPath, 'README.md'), 'if and while')
+    execSync('git add .', { cwd: testRepoPath })
+    execSync('git commit -m "Docs"', { cwd: testRepoPath })
+    
+    shas = execSync('git rev-list --reverse HEAD', { cwd: testRepoPath }).toString().trim().split('\n')
+  })
+  
+  afterAll(() => {
+    if (testRepoPath) {
+      rmSync(testRepoPath, { recursive: true, force: true })
+    }
+  })
+  
+  it('measures complexity at evenly spaced commits without checking out', async () => {
+    const result = await getComplexityTrend(createContext({ trendSampleBy: 'commits', trendSamples: 10 }))
+    
+    expect(result.sampleBy).toBe('commits')
+    expect(result.points.map(point => point.totalComplexity)).toEqual([1, 2, 5, 5])
+    expect(result.points[2]).toMatchObject({
+      sha: shas[2],
+      label: shas[2]!.slice(0, 7),
+      files: 1,
+      functions: 2,
+      averageComplexity: 2.5,
+      maxComplexity: 3
+    })
+  })
+  
+  it('samples at tags, peeling annotated tags to their commits', async () => {
+    const result = await getComplexityTrend(createContext({ trendSampleBy: 'tags', trendSamples: 10 }))
+    
+    expect(result.sampleBy).toBe('tags')
+    expect(result.points.map(point => [point.label, point.sha, point.totalComplexity])).toEqual([
+      ['v1.0', shas[0], 1],
+      ['v2.0', shas[2], 5]
+    ])
+  })
+  
+  it('returns no points when disabled', async () => {
+    const result = await getComplexityTrend(createContext({ trendSamples: 0 }))
+    
+    expect(result.points).toEqual([])
+  })
+})
@@ -0,0 +1,131 @@
+import { BlobContentReader } from '../git/blob-content-reader.js'
+import { getTags, filterTags } from '../git/tags.js'
+import { formatError } from '../utils/errors.js'
+import {
+  calculateFunctionComplexities,
+  listComplexityBlobs,
+  BLOB_BATCH_SIZE,
+  type TreeBlob
+} from './builtin-complexity-analyzer.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { ComplexityTrendPoint, ComplexityTrendData } from './types.js'
+
+interface TrendSample {
+  sha: string
+  date: string
+  label: string
+}
+
+/**
+ * Pick up to `count` evenly spaced items, always keeping the first and last
+ */
+export function selectEvenlySpaced<T>(items: T[], count: number): T[] {
+  if (count <= 0 || items.length === 0) {
+    return []
+  }
+  if (items.length <= count) {
+    return [...items]
+  }
+  if (count === 1) {
+    return [items[items.length - 1]!]
+  }
+
+  const selected: T[] = []
+  for (let i = 0; i < count; i++) {
+    selected.push(items[Math.round(i * (items.length - 1) / (count - 1))]!)
+  }
+  return selected
+}
+
+/**
+ * Complexity measured at sampled points in history. File versions are read from
+ * the object database, so nothing is checked out and lizard is not involved;
+ * the built-in analyzer is used for every sample. Unchanged blobs are analyzed once.
+ */
+export async function getComplexityTrend(context: AnalysisContext): Promise<ComplexityTrendData> {
+  const { repoPath, commits, config, progressReporter } = context
+  const { trendSampleBy, trendSamples } = config.complexity
+
+  const commitDates = new Map(commits.map(commit => [commit.sha, commit.date]))
+  let sampleBy = trendSampleBy
+  let samples: TrendSample[] = []
+
+  if (trendSamples > 0 && trendSampleBy === 'tags') {
+    try {
+      const tags = filterTags(await getTags(repoPath), config.tags.patterns).filter(tag => commitDates.has(tag.sha))
+      samples = tags.map(tag => ({ sha: tag.sha, date: commitDates.get(tag.sha)!, label: tag.name }))
+    } catch (error) {
+      console.warn(`Warning: Could not list tags for the complexity trend: ${formatError(error)}`)
+    }
+  }
+
+  // Without tags in the analyzed history, fall back to evenly spaced commits
+  if (trendSamples > 0 && samples.length === 0) {
+    sampleBy = 'commits'
+    samples = commits.map(commit => ({ sha: commit.sha, date: commit.date, label: commit.sha.slice(0, 7) }))
+  }
+
+  samples = selectEvenlySpaced(samples, trendSamples)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+  const points: ComplexityTrendPoint[] = []
+  if (samples.length === 0) {
+    return { sampleBy, points }
+  }
+
+  const complexitiesByBlob = new Map<string, number[]>()
+  const reader = new BlobContentReader(repoPath)
+
+  try {
+    for (const [index, sample] of samples.entries()) {
+      progressReporter?.report(`Measuring complexity trend: ${index + 1}/${samples.length} (${sample.label})`)
+
+      let treeBlobs: TreeBlob[]
+      try {
+        treeBlobs = await listComplexityBlobs(repoPath, sample.sha, config.exclusions.patterns)
+      } catch {
+        // Commit not available locally (e.g. shallow clone); skip this sample
+        continue
+      }
+      const unseen = treeBlobs.filter(entry => !complexitiesByBlob.has(entry.blob))
+
+      for (let start = 0; start < unseen.length; start += BLOB_BATCH_SIZE) {
+        const batch = unseen.slice(start, start + BLOB_BATCH_SIZE)
+        const contents = await reader.getContents(batch.map(entry => entry.blob))
+        for (const { blob, path } of batch) {
+          const content = contents.get(blob)
+          complexitiesByBlob.set(blob, content ? calculateFunctionComplexities(path, content.toString('utf-8')) ?? [] : [])
+        }
+      }
+
+      let files = 0
+      let functions = 0
+      let totalComplexity = 0
+      let maxComplexity = 0
+      for (const { blob } of treeBlobs) {
+        const complexities = complexitiesByBlob.get(blob) ?? []
+        if (complexities.length === 0) continue
+
+        files++
+        functions += complexities.length
+        for (const complexity of complexities) {
+          totalComplexity += complexity
+          maxComplexity = Math.max(maxComplexity, complexity)
+        }
+      }
+
+      points.push({
+        ...sample,
+        files,
+        functions,
+        totalComplexity,
+        averageComplexity: functions > 0 ? Math.round((totalComplexity / functions) * 100) / 100 : 0,
+        maxComplexity
+      })
+    }
+  } finally {
+    await reader.close()
+  }
+
+  return { sampleBy, points }
+}
@@ -4,20 +4,33 @@ import {
   getContributorStats, 
   getContributorsByAverageLinesChanged,
   getLowestAverageLinesChanged,
-  getHighestAverageLinesChanged
+  getHighestAverageLinesChanged,
+  getCommitCredits
 } from './contributor-calculator.js'
 import { createTestCommit, createEmptyCommit } from '../test/builders.js'
 import type { AnalysisContext } from '../report/generator.js'
 import type { CommitData } from '../git/parser.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
 
-function createTestContext(commits: CommitData[]): AnalysisContext {
+function createTestContext(commits: CommitData[], config: SimplifiedConfig = TEST_CONFIG): AnalysisContext {
   return {
     repoPath: '/fake/repo',
     repoName: 'test-repo',
     isLizardInstalled: false,
     currentFiles: new Set<string>(),
     commits,
-    config: TEST_CONFIG
+    config
+  }
+}
+
+function withCoAuthorCredit(coAuthors: SimplifiedConfig['coAuthors']): SimplifiedConfig {
+  return { ...TEST_CONFIG, coAuthors }
+}
+
+function createPairedCommit(linesAdded: number): CommitData {
+  return {
+    ...createTestCommit({ authorName: 'Alice', linesAdded, linesDeleted: 0 }),
+    coAuthors: [{ name: 'Bob', email: 'bob@example.com' }]
   }
 }
 
@@ -102,6 +115,17 @@ describe('getContributorStats', () => {
   it('throws on empty commits array', () => {
     expect(() => getContributorStats(createTestContext([]))).toThrow('Cannot calculate contributor stats from empty commits array')
   })
+  
+  it('leaves out ignored revisions', () => {
+    const commits = [
+      createTestCommit({ sha: 'aaa1111', authorName: 'Alice', linesAdded: 10 }),
+      createTestCommit({ sha: 'bbb2222', authorName: 'Formatter', linesAdded: 5000, linesDeleted: 5000 })
+    ]
+    
+    const stats = getContributorStats({ ...createTestContext(commits), ignoredRevisions: new Set(['bbb2222']) })
+    
+    expect(stats.map(s => s.name)).toEqual(['Alice'])
+  })
 })
 
 describe('getContributorsByAverageLinesChanged', () => {
@@ -304,4 +328,63 @@ describe('getHighestAverageLinesChanged', () => {
     expect(stats[0]!.name).toBe('Alice')
     expect(stats[0]!.averageLinesChanged).toBe(150)
   })
-})
\ No newline at end of file
+})
+describe('getCommitCredits', () => {
+  it('credits only the author of a commit without co-authors', () => {
+    const commit = createTestCommit({ authorName: 'Alice' })
+    
+    expect(getCommitCredits(commit, TEST_CONFIG)).toEqual([{ name: 'Alice', share: 1 }])
+  })
+  
+  it('gives every co-author full credit', () => {
+    const config = withCoAuthorCredit({ credit: 'full', primaryAuthorShare: null })
+    
+    expect(getCommitCredits(createPairedCommit(10), config)).toEqual([
+      { name: 'Alice', share: 1 },
+      { name: 'Bob', share: 1 }
+    ])
+  })
+  
+  it('splits credit equally by default', () => {
+    expect(getCommitCredits(createPairedCommit(10), TEST_CONFIG)).toEqual([
+      { name: 'Alice', share: 0.5 },
+      { name: 'Bob', share: 0.5 }
+    ])
+  })
+  
+  it('gives the primary author the configured share', () => {
+    const config = withCoAuthorCredit({ credit: 'split', primaryAuthorShare: 0.6 })
+    const credits = getCommitCredits(createPairedCommit(10), config)
+    
+    expect(credits[0]).toEqual({ name: 'Alice', share: 0.6 })
+    expect(credits[1]?.share).toBeCloseTo(0.4)
+  })
+  
+  it('ignores co-authors when credit is disabled', () => {
+    const config = withCoAuthorCredit({ credit: 'none', primaryAuthorShare: null })
+    
+    expect(getCommitCredits(createPairedCommit(10), config)).toEqual([{ name: 'Alice', share: 1 }])
+  })
+})
+
+describe('getContributorStats with co-authors', () => {
+  it('attributes co-authored commits to every author', () => {
+    const config = withCoAuthorCredit({ credit: 'full', primaryAuthorShare: null })
+    const stats = getContributorStats(createTestContext([createPairedCommit(10)], config))
+    
+    expect(stats.map(s => [s.name, s.commits, s.linesAdded])).toEqual([
+      ['Alice', 1, 10],
+      ['Bob', 1, 10]
+    ])
+  })
+  
+  it('splits commits and lines between co-authors', () => {
+    const config = withCoAuthorCredit({ credit: 'split', primaryAuthorShare: null })
+    const commits = [createPairedCommit(10), createTestCommit({ authorName: 'Alice', linesAdded: 5, linesDeleted: 0 })]
+    
+    const stats = getContributorStats(createTestContext(commits, config))
+    
+    expect(stats.find(s => s.name === 'Alice')).toMatchObject({ commits: 1.5, linesAdded: 10 })
+    expect(stats.find(s => s.name === 'Bob')).toMatchObject({ commits: 0.5, linesAdded: 5 })
+  })
+})
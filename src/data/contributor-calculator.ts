@@ -1,55 +1,95 @@
 import { isRealCommit } from '../utils/commit-filters.js'
 import { assert } from '../utils/errors.js'
 import type { AnalysisContext } from '../report/generator.js'
+import type { CommitData } from '../git/parser.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
 import type { ContributorStats, ContributorAward } from './types.js'
 
+export interface CommitCredit {
+  name: string
+  share: number
+}
+
+/**
+ * Who gets credit for a commit: the primary author plus any co-authors, either
+ * with full credit each or splitting the commit between them.
+ */
+export function getCommitCredits(commit: CommitData, config: SimplifiedConfig): CommitCredit[] {
+  const coAuthors = config.coAuthors.credit === 'none' ? [] : (commit.coAuthors ?? [])
+  if (coAuthors.length === 0) {
+    return [{ name: commit.authorName, share: 1 }]
+  }
+  
+  if (config.coAuthors.credit === 'full') {
+    return [commit.authorName, ...coAuthors.map(coAuthor => coAuthor.name)].map(name => ({ name, share: 1 }))
+  }
+  
+  const primaryShare = config.coAuthors.primaryAuthorShare ?? 1 / (coAuthors.length + 1)
+  const coAuthorShare = (1 - primaryShare) / coAuthors.length
+  return [
+    { name: commit.authorName, share: primaryShare },
+    ...coAuthors.map(coAuthor => ({ name: coAuthor.name, share: coAuthorShare }))
+  ]
+}
+
 export function getContributorStats(context: AnalysisContext): ContributorStats[] {
-  const { commits, config } = context
+  const { commits, ignoredRevisions, config } = context
   
-  // Config will be used for filtering/customization in future updates
-  void config
   assert(commits.length > 0, 'Cannot calculate contributor stats from empty commits array')
   const contributorMap = new Map<string, ContributorStats>()
   
   for (const commit of commits) {
-    if (!contributorMap.has(commit.authorName)) {
-      contributorMap.set(commit.authorName, {
-        name: commit.authorName,
-        commits: 0,
-        linesAdded: 0,
-        linesDeleted: 0
-      })
-    }
+    if (ignoredRevisions?.has(commit.sha)) continue
     
-    const existing = contributorMap.get(commit.authorName)!
-    existing.commits += 1
-    existing.linesAdded += commit.linesAdded
-    existing.linesDeleted += commit.linesDeleted
+    for (const { name, share } of getCommitCredits(commit, config)) {
+      if (!contributorMap.has(name)) {
+        contributorMap.set(name, {
+          name,
+          commits: 0,
+          linesAdded: 0,
+          linesDeleted: 0
+        })
+      }
+      
+      const existing = contributorMap.get(name)!
+      existing.commits += share
+      existing.linesAdded += commit.linesAdded * share
+      existing.linesDeleted += commit.linesDeleted * share
+    }
   }
   
+  // Split credit leaves fractions behind; keep one decimal for commits and whole lines
   return Array.from(contributorMap.values())
+    .map(stats => ({
+      ...stats,
+      commits: Math.round(stats.commits * 10) / 10,
+      linesAdded: Math.round(stats.linesAdded),
+      linesDeleted: Math.round(stats.linesDeleted)
+    }))
     .sort((a, b) => b.commits - a.commits)
 }
 
 
 export function getContributorsByAverageLinesChanged(context: AnalysisContext): ContributorAward[] {
-  const { commits, config } = context
+  const { commits, ignoredRevisions, config } = context
   
   const contributorMap = new Map<string, { commits: number; totalLinesChanged: number }>()
   
   for (const commit of commits) {
-    if (!isRealCommit(commit, config)) continue
+    if (!isRealCommit(commit, config) || ignoredRevisions?.has(commit.sha)) continue
     
-    if (!contributorMap.has(commit.authorName)) {
-      contributorMap.set(commit.authorName, {
-        commits: 0,
-        totalLinesChanged: 0
-      })
+    for (const { name, share } of getCommitCredits(commit, config)) {
+      if (!contributorMap.has(name)) {
+        contributorMap.set(name, {
+          commits: 0,
+          totalLinesChanged: 0
+        })
+      }
+      
+      const existing = contributorMap.get(name)!
+      existing.commits += share
+      existing.totalLinesChanged += (commit.linesAdded + commit.linesDeleted) * share
     }
-    
-    const existing = contributorMap.get(commit.authorName)!
-    existing.commits += 1
-    existing.totalLinesChanged += commit.linesAdded + commit.linesDeleted
   }
   
   return Array.from(contributorMap.entries())
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { calculateChangeCoupling } from './coupling-calculator.js'
+import { createTestCommit } from '../test/builders.js'
+
+const commitTouching = (...fileNames: string[]) => createTestCommit({
+  filesChanged: fileNames.map(fileName => ({ fileName, linesAdded: 1, linesDeleted: 0, fileType: 'ts' }))
+})
+
+const settings = { ...TEST_CONFIG.coupling, minSharedCommits: 2, minConfidence: 0.5 }
+
+describe('coupling-calculator', () => {
+  describe('calculateChangeCoupling', () => {
+    it('should return no pairs for empty commits', () => {
+      expect(calculateChangeCoupling([], settings)).toEqual({ analyzedCommits: 0, skippedCommits: 0, pairs: [] })
+    })
+
+    it('should find files that change together with support and confidence', () => {
+      const commits = [
+        commitTouching('src/api.ts', 'src/client.ts'),
+        commitTouching('src/api.ts', 'src/client.ts'),
+        commitTouching('src/api.ts', 'src/client.ts', 'README.md'),
+        commitTouching('src/api.ts')
+      ]
+
+      const result = calculateChangeCoupling(commits, settings)
+
+      expect(result.analyzedCommits).toBe(4)
+      expect(result.pairs).toEqual([{
+        fileA: 'src/api.ts',
+        fileB: 'src/client.ts',
+        sharedCommits: 3,
+        support: 0.75,
+        confidence: 1, // every client.ts commit also touched api.ts
+        crossDirectory: false
+      }])
+    })
+
+    it('should drop pairs below the minimum shared commits or confidence', () => {
+      const commits = [
+        commitTouching('a.ts', 'b.ts'),
+        commitTouching('a.ts', 'b.ts'),
+        commitTouching('c.ts', 'd.ts'),
+        commitTouching('c.ts', 'd.ts'),
+        commitTouching('c.ts'),
+        commitTouching('c.ts'),
+        commitTouching('c.ts'),
+        commitTouching('d.ts'),
+        commitTouching('d.ts'),
+        commitTouching('d.ts'),
+        commitTouching('e.ts', 'f.ts')
+      ]
+
+      const result = calculateChangeCoupling(commits, settings)
+
+      // c/d share only 2 of 5 commits each; e/f changed together once
+      expect(result.pairs.map(pair => [pair.fileA, pair.fileB])).toEqual([['a.ts', 'b.ts']])
+    })
+
+    it('should skip commits that touch more files than the cap', () => {
+      const sweeping = commitTouching(...Array.from({ length: 5 }, (_, i) => `file${i}.ts`))
+      const commits = [sweeping, sweeping, sweeping]
+
+      const result = calculateChangeCoupling(commits, { ...settings, maxFilesPerCommit: 4 })
+
+      expect(result.skippedCommits).toBe(3)
+      expect(result.analyzedCommits).toBe(0)
+      expect(result.pairs).toEqual([])
+    })
+
+    it('should flag coupling across directories and ignore deleted files', () => {
+      const commits = [
+        commitTouching('server/routes.ts', 'web/form.ts', 'old/legacy.ts'),
+        commitTouching('server/routes.ts', 'web/form.ts', 'old/legacy.ts')
+      ]
+
+      const result = calculateChangeCoupling(commits, settings, new Set(['server/routes.ts', 'web/form.ts']))
+
+      expect(result.pairs).toHaveLength(1)
+      expect(result.pairs[0]).toMatchObject({ fileA: 'server/routes.ts', fileB: 'web/form.ts', crossDirectory: true })
+    })
+
+    it('should limit the number of pairs returned', () => {
+      const commits = [
+        commitTouching('a.ts', 'b.ts', 'c.ts'),
+        commitTouching('a.ts', 'b.ts', 'c.ts')
+      ]
+
+      const result = calculateChangeCoupling(commits, { ...settings, maxPairs: 2 })
+
+      expect(result.pairs).toHaveLength(2)
+    })
+  })
+})
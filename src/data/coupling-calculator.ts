@@ -0,0 +1,87 @@
+import type { CommitData } from '../git/parser.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { FileCoupling, CouplingData } from './types.js'
+
+function parentDirectory(fileName: string): string {
+  const index = fileName.lastIndexOf('/')
+  return index === -1 ? '.' : fileName.slice(0, index)
+}
+
+/**
+ * Find file pairs that are repeatedly committed together (temporal coupling).
+ *
+ * Commits touching more than `maxFilesPerCommit` files are skipped so sweeping
+ * refactors and mass renames do not couple everything to everything. Pairs need
+ * at least `minSharedCommits` shared commits and `minConfidence` confidence, where
+ * confidence is the share of the less frequently changed file's commits that
+ * also touched the other file.
+ */
+export function calculateChangeCoupling(
+  commits: CommitData[],
+  settings: SimplifiedConfig['coupling'],
+  currentFiles?: Set<string>
+): CouplingData {
+  const commitsByFile = new Map<string, number>()
+  const sharedByPair = new Map<string, number>()
+  let analyzedCommits = 0
+  let skippedCommits = 0
+
+  for (const commit of commits) {
+    const files = Array.from(new Set(commit.filesChanged.map(fileChange => fileChange.fileName)))
+    if (files.length > settings.maxFilesPerCommit) {
+      skippedCommits++
+      continue
+    }
+    analyzedCommits++
+
+    // Only files that still exist can be coupled today
+    const candidates = (currentFiles ? files.filter(fileName => currentFiles.has(fileName)) : files).sort()
+    for (const fileName of candidates) {
+      commitsByFile.set(fileName, (commitsByFile.get(fileName) ?? 0) + 1)
+    }
+
+    for (let i = 0; i < candidates.length; i++) {
+      for (let j = i + 1; j < candidates.length; j++) {
+        const key = `${candidates[i]}\0${candidates[j]}`
+        sharedByPair.set(key, (sharedByPair.get(key) ?? 0) + 1)
+      }
+    }
+  }
+
+  const pairs: FileCoupling[] = []
+  for (const [key, sharedCommits] of sharedByPair) {
+    if (sharedCommits < settings.minSharedCommits) continue
+
+    const [fileA = '', fileB = ''] = key.split('\0')
+    const rarerFileCommits = Math.min(commitsByFile.get(fileA) ?? 0, commitsByFile.get(fileB) ?? 0)
+    const confidence = rarerFileCommits > 0 ? sharedCommits / rarerFileCommits : 0
+    if (confidence < settings.minConfidence) continue
+
+    pairs.push({
+      fileA,
+      fileB,
+      sharedCommits,
+      support: analyzedCommits > 0 ? sharedCommits / analyzedCommits : 0,
+      confidence,
+      crossDirectory: parentDirectory(fileA) !== parentDirectory(fileB)
+    })
+  }
+
+  pairs.sort((a, b) =>
+    b.confidence - a.confidence ||
+    b.sharedCommits - a.sharedCommits ||
+    a.fileA.localeCompare(b.fileA) ||
+    a.fileB.localeCompare(b.fileB)
+  )
+
+  return {
+    analyzedCommits,
+    skippedCommits,
+    pairs: pairs.slice(0, settings.maxPairs)
+  }
+}
+
+export function getCouplingData(context: AnalysisContext): CouplingData {
+  return calculateChangeCoupling(context.commits, context.config.coupling, context.currentFiles)
+}
@@ -184,6 +184,27 @@ describe('getFileHeatData', () => {
     expect(heatData[0]!.heatScore).toBeGreaterThan(0)
   })
   
+  it('keeps the size changes of ignored revisions without counting them as modifications', () => {
+    const commits = [
+      createTestCommit({
+        sha: 'aaa1111',
+        date: '2024-01-01T10:00:00Z',
+        filesChanged: [new FileChangeBuilder().withPath('src/index.js').withAdditions(100).build()]
+      }),
+      createTestCommit({
+        sha: 'bbb2222',
+        date: '2024-01-10T10:00:00Z',
+        filesChanged: [new FileChangeBuilder().withPath('src/index.js').withAdditions(120).withDeletions(100).build()]
+      })
+    ]
+    
+    const heatData = getFileHeatData({ ...createAnalysisContext(commits), ignoredRevisions: new Set(['bbb2222']) })
+    
+    expect(heatData[0]!.commitCount).toBe(1)
+    expect(heatData[0]!.lastModified).toBe('2024-01-01T10:00:00.000Z')
+    expect(heatData[0]!.totalLines).toBe(120)
+  })
+  
   it('accumulates data for files modified multiple times', () => {
     const commits = [
       createTestCommit({
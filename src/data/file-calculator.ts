@@ -32,17 +32,19 @@ export function getFileTypeStats(context: AnalysisContext): FileTypeStats[] {
 }
 
 export function getFileHeatData(context: AnalysisContext): FileHeatData[] {
-  const { commits, currentFiles, config } = context
+  const { commits, ignoredRevisions, currentFiles, config } = context
   
   const recencyDecayDays = config.fileHeat.recencyDecayDays
   const frequencyWeight = config.fileHeat.frequencyWeight
   const recencyWeight = config.fileHeat.recencyWeight
   const maxFilesDisplayed = config.fileHeat.maxFilesDisplayed
 
-  const fileMap = new Map<string, { commitCount: number; lastModified: Date; totalLines: number; fileType: string }>()
+  const fileMap = new Map<string, { commitCount: number; lastModified: Date; fileType: string }>()
+  const fileLines = new Map<string, number>()
   
   for (const commit of commits) {
     const commitDate = new Date(commit.date)
+    const isIgnored = ignoredRevisions?.has(commit.sha) ?? false
     
     for (const fileChange of commit.filesChanged) {
       // If currentFiles is provided, only include files that still exist
@@ -50,18 +52,22 @@ export function getFileHeatData(context: AnalysisContext): FileHeatData[] {
         continue
       }
       
+      // Ignored revisions still change file sizes, but do not heat files up
+      fileLines.set(fileChange.fileName, (fileLines.get(fileChange.fileName) ?? 0) + fileChange.linesAdded - fileChange.linesDeleted)
+      if (isIgnored) {
+        continue
+      }
+      
       const existing = fileMap.get(fileChange.fileName)
       
       if (!existing) {
         fileMap.set(fileChange.fileName, {
           commitCount: 1,
           lastModified: commitDate,
-          totalLines: fileChange.linesAdded - fileChange.linesDeleted,
           fileType: fileChange.fileType
         })
       } else {
         existing.commitCount += 1
-        existing.totalLines += fileChange.linesAdded - fileChange.linesDeleted
         if (commitDate > existing.lastModified) {
           existing.lastModified = commitDate
         }
@@ -83,7 +89,7 @@ export function getFileHeatData(context: AnalysisContext): FileHeatData[] {
       heatScore,
       commitCount: data.commitCount,
       lastModified: data.lastModified.toISOString(),
-      totalLines: Math.max(data.totalLines, 1),
+      totalLines: Math.max(fileLines.get(fileName) ?? 0, 1),
       fileType: data.fileType
     })
   }
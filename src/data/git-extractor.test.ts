@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import { TEST_CONFIG } from '../test/test-config.js'
-import { getFileType, parseCommitDiff, parseByteChanges } from './git-extractor.js'
+import { getFileType, parseCommitDiff, parseByteChanges, parseNumstatLines, parseRawDiffLines, calculateByteChanges, parseCoAuthors } from './git-extractor.js'
 import type { DiffSummary, ByteChanges } from './git-extractor.js'
 
 describe('getFileType', () => {
@@ -282,4 +282,115 @@ invalid line
     expect(() => parseByteChanges(undefined as any, TEST_CONFIG)).toThrow('gitNumstatOutput must be a string')
     expect(() => parseByteChanges(123 as any, TEST_CONFIG)).toThrow('gitNumstatOutput must be a string')
   })
-})
\ No newline at end of file
+})
+
+describe('parseNumstatLines', () => {
+  it('parses added and deleted line counts per file', () => {
+    const result = parseNumstatLines(['10\t5\tsrc/index.ts', '0\t3\tsrc/old.ts'])
+    
+    expect(result.files).toEqual([
+      { file: 'src/index.ts', insertions: 10, deletions: 5 },
+      { file: 'src/old.ts', insertions: 0, deletions: 3 }
+    ])
+  })
+
+  it('treats binary files as zero lines', () => {
+    const result = parseNumstatLines(['-\t-\tassets/logo.png'])
+    
+    expect(result.files).toEqual([{ file: 'assets/logo.png', insertions: 0, deletions: 0 }])
+  })
+
+  it('keeps rename paths and tabs in filenames intact', () => {
+    const result = parseNumstatLines(['0\t0\t{src => lib}/a.ts', '1\t0\tsrc/file\twith\ttabs.ts'])
+    
+    expect(result.files[0]!.file).toBe('{src => lib}/a.ts')
+    expect(result.files[1]!.file).toBe('src/file\twith\ttabs.ts')
+  })
+
+  it('ignores malformed lines', () => {
+    expect(parseNumstatLines(['invalid line', '']).files).toHaveLength(0)
+  })
+})
+
+describe('parseRawDiffLines', () => {
+  const oldBlob = 'a'.repeat(40)
+  const newBlob = 'b'.repeat(40)
+  const nullBlob = '0'.repeat(40)
+
+  it('parses additions, modifications and deletions', () => {
+    const result = parseRawDiffLines([
+      `:000000 100644 ${nullBlob} ${newBlob} A\tsrc/new.ts`,
+      `:100644 100644 ${oldBlob} ${newBlob} M\tsrc/changed.ts`,
+      `:100644 000000 ${oldBlob} ${nullBlob} D\tsrc/gone.ts`
+    ], TEST_CONFIG)
+    
+    expect(result).toEqual([
+      { fileName: 'src/new.ts', oldBlob: nullBlob, newBlob },
+      { fileName: 'src/changed.ts', oldBlob, newBlob },
+      { fileName: 'src/gone.ts', oldBlob, newBlob: nullBlob }
+    ])
+  })
+
+  it('skips excluded files and scored renames', () => {
+    const result = parseRawDiffLines([
+      `:100644 100644 ${oldBlob} ${newBlob} M\tnode_modules/lib.js`,
+      `:100644 100644 ${oldBlob} ${newBlob} R100\tsrc/a.ts\tlib/a.ts`
+    ], TEST_CONFIG)
+    
+    expect(result).toHaveLength(0)
+  })
+})
+
+describe('calculateByteChanges', () => {
+  it('computes byte deltas from blob sizes', () => {
+    const nullBlob = '0'.repeat(40)
+    const result = calculateByteChanges([
+      { fileName: 'src/new.ts', oldBlob: nullBlob, newBlob: 'n1' },
+      { fileName: 'src/grown.ts', oldBlob: 'o2', newBlob: 'n2' },
+      { fileName: 'src/gone.ts', oldBlob: 'o3', newBlob: nullBlob }
+    ], new Map([['n1', 100], ['o2', 50], ['n2', 80], ['o3', 40]]))
+    
+    expect(result.fileChanges['src/new.ts']).toEqual({ bytesAdded: 100, bytesDeleted: 0 })
+    expect(result.fileChanges['src/grown.ts']).toEqual({ bytesAdded: 30, bytesDeleted: 0 })
+    expect(result.fileChanges['src/gone.ts']).toEqual({ bytesAdded: 0, bytesDeleted: 40 })
+    expect(result.totalBytesAdded).toBe(130)
+    expect(result.totalBytesDeleted).toBe(40)
+  })
+
+  it('treats unknown blobs as empty', () => {
+    const result = calculateByteChanges([{ fileName: 'a.ts', oldBlob: 'x', newBlob: 'y' }], new Map())
+    
+    expect(result.fileChanges['a.ts']).toEqual({ bytesAdded: 0, bytesDeleted: 0 })
+  })
+})
+
+describe('parseCoAuthors', () => {
+  it('should extract Co-authored-by trailers from a commit body', () => {
+    const body = [
+      'Pair on the parser rewrite',
+      '',
+      'Co-authored-by: Alice Smith <alice@example.com>',
+      'co-authored-by: Bob <bob@example.com>'
+    ].join('\n')
+    
+    expect(parseCoAuthors(body)).toEqual([
+      { name: 'Alice Smith', email: 'alice@example.com' },
+      { name: 'Bob', email: 'bob@example.com' }
+    ])
+  })
+  
+  it('should drop duplicate emails and malformed trailers', () => {
+    const body = [
+      'Co-authored-by: Alice <alice@example.com>',
+      'Co-authored-by: Alice Smith <ALICE@example.com>',
+      'Co-authored-by: no email here',
+      'Signed-off-by: Carol <carol@example.com>'
+    ].join('\n')
+    
+    expect(parseCoAuthors(body)).toEqual([{ name: 'Alice', email: 'alice@example.com' }])
+  })
+  
+  it('should return an empty array for an empty body', () => {
+    expect(parseCoAuthors('')).toEqual([])
+  })
+})
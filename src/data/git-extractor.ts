@@ -1,5 +1,5 @@
 import { extname } from 'path'
-import type { FileChange } from '../git/parser.js'
+import type { CoAuthor, FileChange } from '../git/parser.js'
 import { assert, assertDefined } from '../utils/errors.js'
 import type { SimplifiedConfig } from '../config/simplified-schema.js'
 import { isFileExcluded } from '../utils/exclusions.js'
@@ -89,6 +89,112 @@ export function parseCommitDiff(
   }
 }
 
+export interface RawDiffEntry {
+  fileName: string
+  oldBlob: string
+  newBlob: string
+}
+
+export function isNullBlob(blob: string): boolean {
+  return blob.startsWith('0000000')
+}
+
+/**
+ * Parse `--numstat` lines ("added<TAB>deleted<TAB>path") into a diff summary.
+ * Binary files are reported by git as "-" and count as zero lines.
+ */
+export function parseNumstatLines(lines: string[]): DiffSummary {
+  assert(Array.isArray(lines), 'numstat lines must be an array')
+
+  const files: DiffSummaryFile[] = []
+
+  for (const line of lines) {
+    const parts = line.split('\t')
+    if (parts.length < 3) continue
+
+    const added = parseInt(parts[0] ?? '', 10)
+    const deleted = parseInt(parts[1] ?? '', 10)
+
+    files.push({
+      file: parts.slice(2).join('\t'),
+      insertions: isNaN(added) ? 0 : added,
+      deletions: isNaN(deleted) ? 0 : deleted
+    })
+  }
+
+  return { files }
+}
+
+/**
+ * Parse `--raw` lines (":100644 100644 oldblob newblob M<TAB>path") into blob pairs.
+ * Only plain additions, modifications and deletions carry byte changes; renames and
+ * copies report a similarity score (e.g. R100) and are left to cumulative-exclusion.
+ */
+export function parseRawDiffLines(lines: string[], config: SimplifiedConfig): RawDiffEntry[] {
+  assert(Array.isArray(lines), 'raw diff lines must be an array')
+
+  const entries: RawDiffEntry[] = []
+
+  for (const line of lines) {
+    const match = line.match(/^:(\d+)\s+(\d+)\s+([0-9a-f]+)\s+([0-9a-f]+)\s+([AMDRC])\s+(.+)$/)
+    if (!match) continue
+
+    const [, , , oldBlob, newBlob, , fileName] = match
+    if (!oldBlob || !newBlob || !fileName) continue
+
+    // Skip excluded files, but allow renames through so cumulative-exclusion can handle them
+    if (!fileName.includes(' => ') && isFileExcluded(fileName, config.exclusions.patterns)) {
+      continue
+    }
+
+    entries.push({ fileName, oldBlob, newBlob })
+  }
+
+  return entries
+}
+
+export function calculateByteChanges(entries: RawDiffEntry[], blobSizes: Map<string, number>): ByteChanges {
+  const fileChanges: Record<string, { bytesAdded: number; bytesDeleted: number }> = {}
+  let totalBytesAdded = 0
+  let totalBytesDeleted = 0
+
+  for (const { fileName, oldBlob, newBlob } of entries) {
+    const oldSize = isNullBlob(oldBlob) ? 0 : (blobSizes.get(oldBlob) ?? 0)
+    const newSize = isNullBlob(newBlob) ? 0 : (blobSizes.get(newBlob) ?? 0)
+
+    const bytesAdded = Math.max(0, newSize - oldSize)
+    const bytesDeleted = Math.max(0, oldSize - newSize)
+
+    fileChanges[fileName] = { bytesAdded, bytesDeleted }
+    totalBytesAdded += bytesAdded
+    totalBytesDeleted += bytesDeleted
+  }
+
+  return { totalBytesAdded, totalBytesDeleted, fileChanges }
+}
+
+/**
+ * Extract `Co-authored-by: Name <email>` trailers from a commit body.
+ * Trailer keys are matched case-insensitively and duplicate emails are dropped.
+ */
+export function parseCoAuthors(body: string): CoAuthor[] {
+  const coAuthors: CoAuthor[] = []
+  const seen = new Set<string>()
+
+  for (const line of body.split('\n')) {
+    const match = line.trim().match(/^co-authored-by:\s*(.+?)\s*<([^>]+)>$/i)
+    if (!match) continue
+
+    const [, name, email] = match
+    if (!name || !email || seen.has(email.toLowerCase())) continue
+
+    seen.add(email.toLowerCase())
+    coAuthors.push({ name, email })
+  }
+
+  return coAuthors
+}
+
 export function parseByteChanges(gitNumstatOutput: string, config: SimplifiedConfig): ByteChanges {
   assert(typeof gitNumstatOutput === 'string', 'gitNumstatOutput must be a string')
   
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createSnapshot, appendSnapshot, calculateTrend, calculateHistory, recordSnapshot } from './history-calculator.js'
+import { CommitDataBuilder } from '../test/builders.js'
+import { TEST_CONFIG } from '../test/test-config.js'
+import type { ProcessedData } from './unified-pipeline.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { CategoryBreakdown, ComplexityTrendData, MetricsSnapshot } from './types.js'
+
+function breakdown(application: number, test: number): CategoryBreakdown {
+  return { total: application + test, application, test, build: 0, documentation: 0, other: 0 }
+}
+
+function createPipelineData(overrides: Partial<ProcessedData> = {}): ProcessedData {
+  return {
+    commits: [
+      new CommitDataBuilder().withHash('aaa111').withDate('2024-01-01T00:00:00Z').build(),
+      new CommitDataBuilder().withHash('bbb222').withDate('2024-02-01T00:00:00Z').build()
+    ],
+    contributors: [{ name: 'A' }, { name: 'B' }],
+    timeSeries: [{ cumulativeLines: breakdown(80, 20) }],
+    topFilesData: { largest: [], mostChurn: [], mostComplex: [{ fileName: 'src/big.ts', value: 12, percentage: 100 }] },
+    hotspots: { basis: 'size', windowDays: 90, files: [{ fileName: 'src/big.ts', churn: 10, commits: 2, complexity: null, linesOfCode: 50, score: 0.8 }] },
+    complexityTrend: { sampleBy: 'commits', points: [{ sha: 'bbb222', averageComplexity: 2.5 }] },
+    ownership: { busFactor: 1 },
+    ...overrides
+  } as unknown as ProcessedData
+}
+
+function snapshot(sha: string, recordedAt: string, overrides: Partial<MetricsSnapshot> = {}): MetricsSnapshot {
+  return {
+    sha,
+    commitDate: '2024-02-01T00:00:00Z',
+    recordedAt,
+    commits: 10,
+    contributors: 2,
+    linesOfCode: breakdown(80, 20),
+    averageComplexity: null,
+    maxFileComplexity: null,
+    busFactor: null,
+    hotspots: [],
+    ...overrides
+  }
+}
+
+describe('createSnapshot', () => {
+  it('summarizes the newest commit of the run', () => {
+    expect(createSnapshot(createPipelineData(), new Date('2024-03-01T10:00:00Z'))).toEqual({
+      sha: 'bbb222',
+      commitDate: '2024-02-01T00:00:00Z',
+      recordedAt: '2024-03-01T10:00:00.000Z',
+      commits: 2,
+      contributors: 2,
+      linesOfCode: breakdown(80, 20),
+      averageComplexity: 2.5,
+      maxFileComplexity: 12,
+      busFactor: 1,
+      hotspots: [{ fileName: 'src/big.ts', score: 0.8 }]
+    })
+  })
+
+  it('leaves out complexity sampled before the newest commit', () => {
+    const pipelineData = createPipelineData({
+      complexityTrend: { sampleBy: 'tags', points: [{ sha: 'aaa111', averageComplexity: 2 }] } as unknown as ComplexityTrendData
+    })
+
+    expect(createSnapshot(pipelineData, new Date())?.averageComplexity).toBeNull()
+  })
+
+  it('records nothing without commits', () => {
+    expect(createSnapshot(createPipelineData({ commits: [], timeSeries: [] }), new Date())).toBeNull()
+  })
+})
+
+describe('appendSnapshot', () => {
+  it('replaces a snapshot of the same commit on the same day', () => {
+    const existing = [snapshot('aaa', '2024-03-01T08:00:00Z'), snapshot('bbb', '2024-03-02T08:00:00Z')]
+
+    const result = appendSnapshot(existing, snapshot('bbb', '2024-03-02T18:00:00Z'), 10)
+
+    expect(result.map(entry => entry.recordedAt)).toEqual(['2024-03-01T08:00:00Z', '2024-03-02T18:00:00Z'])
+  })
+
+  it('keeps the same commit recorded on another day and trims the oldest', () => {
+    const existing = [snapshot('aaa', '2024-03-01T08:00:00Z'), snapshot('bbb', '2024-03-02T08:00:00Z')]
+
+    const result = appendSnapshot(existing, snapshot('bbb', '2024-03-03T08:00:00Z'), 2)
+
+    expect(result.map(entry => `${entry.sha}@${entry.recordedAt.slice(0, 10)}`)).toEqual(['bbb@2024-03-02', 'bbb@2024-03-03'])
+  })
+})
+
+describe('calculateTrend', () => {
+  it('reports the percentage change with a label', () => {
+    expect(calculateTrend(150, 120, ' lines')).toEqual({ value: 25, direction: 'up', label: '+30 lines since last run' })
+    expect(calculateTrend(1.5, 2)).toEqual({ value: 25, direction: 'down', label: '-0.50 since last run' })
+  })
+
+  it('has no trend for unchanged or missing values', () => {
+    expect(calculateTrend(3, 3)).toBeUndefined()
+    expect(calculateTrend(null, 3)).toBeUndefined()
+  })
+})
+
+describe('calculateHistory', () => {
+  it('compares the latest snapshot with the one before it', () => {
+    const history = calculateHistory([
+      snapshot('aaa', '2024-03-01T08:00:00Z'),
+      snapshot('bbb', '2024-03-02T08:00:00Z', { commits: 12, linesOfCode: breakdown(100, 20) })
+    ])
+
+    expect(history.previous?.sha).toBe('aaa')
+    expect(history.trends).toEqual({
+      commits: { value: 20, direction: 'up', label: '+2 since last run' },
+      linesOfCode: { value: 20, direction: 'up', label: '+20 lines since last run' }
+    })
+  })
+
+  it('has no previous run or trends for the first snapshot', () => {
+    expect(calculateHistory([snapshot('aaa', '2024-03-01T08:00:00Z')])).toMatchObject({ previous: null, trends: {} })
+  })
+})
+
+describe('recordSnapshot', () => {
+  let outputDir: string
+  const context = { repoName: 'repo', config: TEST_CONFIG } as AnalysisContext
+
+  beforeEach(() => {
+    outputDir = mkdtempSync(join(tmpdir(), 'repo-statter-history-'))
+  })
+
+  afterEach(() => {
+    rmSync(outputDir, { recursive: true, force: true })
+  })
+
+  it('appends each run to the history file in the output directory', async () => {
+    await recordSnapshot(context, createPipelineData(), outputDir, new Date('2024-03-01T10:00:00Z'))
+    const history = await recordSnapshot(context, createPipelineData({ contributors: [] }), outputDir, new Date('2024-03-02T10:00:00Z'))
+
+    expect(history?.snapshots).toHaveLength(2)
+    expect(history?.trends.contributors).toEqual({ value: 100, direction: 'down', label: '-2 since last run' })
+
+    const file = JSON.parse(readFileSync(join(outputDir, 'repo.history.json'), 'utf-8'))
+    expect(file).toMatchObject({ version: 1, repository: 'repo' })
+    expect(file.snapshots).toHaveLength(2)
+  })
+
+  it('refuses to overwrite a file that is not a history', async () => {
+    writeFileSync(join(outputDir, 'repo.history.json'), '{"something": "else"}')
+
+    await expect(recordSnapshot(context, createPipelineData(), outputDir)).rejects.toMatchObject({ code: 'INVALID_HISTORY' })
+    expect(readFileSync(join(outputDir, 'repo.history.json'), 'utf-8')).toBe('{"something": "else"}')
+  })
+})
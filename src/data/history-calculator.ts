@@ -0,0 +1,125 @@
+import { existsSync } from 'fs'
+import { readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { RepoStatError, formatError } from '../utils/errors.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { ProcessedData } from './unified-pipeline.js'
+import type { HistoryData, MetricsSnapshot, MetricTrend } from './types.js'
+
+const HISTORY_FILE_VERSION = 1
+const SNAPSHOT_HOTSPOTS = 5
+
+interface HistoryFile {
+  version: number
+  repository: string
+  snapshots: MetricsSnapshot[]
+}
+
+/**
+ * Compact summary of one run, or null when there is nothing to record
+ */
+export function createSnapshot(pipelineData: ProcessedData, recordedAt: Date): MetricsSnapshot | null {
+  const { commits, contributors, timeSeries, complexityTrend, topFilesData, ownership, hotspots } = pipelineData
+  const newest = commits[commits.length - 1]
+  const lines = timeSeries[timeSeries.length - 1]?.cumulativeLines
+  if (!newest || !lines) return null
+
+  // Tag sampling can end before the newest commit, which would not describe this run
+  const trendPoint = complexityTrend?.points[complexityTrend.points.length - 1]
+
+  return {
+    sha: newest.sha,
+    commitDate: newest.date,
+    recordedAt: recordedAt.toISOString(),
+    commits: commits.length,
+    contributors: contributors.length,
+    linesOfCode: { ...lines },
+    averageComplexity: trendPoint?.sha === newest.sha ? trendPoint.averageComplexity : null,
+    maxFileComplexity: topFilesData?.mostComplex[0]?.value ?? null,
+    busFactor: ownership?.busFactor ?? null,
+    hotspots: (hotspots?.files ?? []).slice(0, SNAPSHOT_HOTSPOTS).map(file => ({ fileName: file.fileName, score: file.score }))
+  }
+}
+
+/**
+ * Snapshots are keyed by HEAD sha and day: re-running on the same commit the
+ * same day replaces that snapshot instead of adding another
+ */
+export function appendSnapshot(snapshots: MetricsSnapshot[], snapshot: MetricsSnapshot, maxSnapshots: number): MetricsSnapshot[] {
+  const day = snapshot.recordedAt.slice(0, 10)
+  const kept = snapshots.filter(existing => existing.sha !== snapshot.sha || existing.recordedAt.slice(0, 10) !== day)
+  return [...kept, snapshot].slice(-maxSnapshots)
+}
+
+/**
+ * Percentage change in the v2 MetricData trend shape; unchanged values have no trend
+ */
+export function calculateTrend(current: number | null, previous: number | null, unit: string = ''): MetricTrend | undefined {
+  if (current === null || previous === null || current === previous) return undefined
+
+  const delta = current - previous
+  const formatted = Number.isInteger(delta) ? Math.abs(delta).toLocaleString('en-US') : Math.abs(delta).toFixed(2)
+  return {
+    value: previous === 0 ? 100 : Math.round(Math.abs(delta / previous) * 1000) / 10,
+    direction: delta > 0 ? 'up' : 'down',
+    label: `${delta > 0 ? '+' : '-'}${formatted}${unit} since last run`
+  }
+}
+
+export function calculateHistory(snapshots: MetricsSnapshot[]): HistoryData {
+  const current = snapshots[snapshots.length - 1]
+  const previous = snapshots[snapshots.length - 2] ?? null
+  if (!current || !previous) {
+    return { snapshots, previous, trends: {} }
+  }
+
+  const trends: HistoryData['trends'] = {}
+  const add = (key: keyof HistoryData['trends'], trend: MetricTrend | undefined) => {
+    if (trend) trends[key] = trend
+  }
+  add('commits', calculateTrend(current.commits, previous.commits))
+  add('linesOfCode', calculateTrend(current.linesOfCode.total, previous.linesOfCode.total, ' lines'))
+  add('contributors', calculateTrend(current.contributors, previous.contributors))
+  add('averageComplexity', calculateTrend(current.averageComplexity, previous.averageComplexity))
+  add('busFactor', calculateTrend(current.busFactor, previous.busFactor))
+
+  return { snapshots, previous, trends }
+}
+
+export function getHistoryPath(context: AnalysisContext, outputDir: string): string {
+  return context.config.history.file ?? join(outputDir, `${context.repoName}.history.json`)
+}
+
+async function loadSnapshots(historyPath: string): Promise<MetricsSnapshot[]> {
+  if (!existsSync(historyPath)) return []
+
+  // Refuse to overwrite a file we cannot read rather than lose its history
+  let history: HistoryFile
+  try {
+    history = JSON.parse(await readFile(historyPath, 'utf-8'))
+  } catch (error) {
+    throw new RepoStatError(`Could not read history file ${historyPath}: ${formatError(error)}`, 'INVALID_HISTORY')
+  }
+  if (history.version !== HISTORY_FILE_VERSION || !Array.isArray(history.snapshots)) {
+    throw new RepoStatError(`History file ${historyPath} is not a repo-statter history (version ${HISTORY_FILE_VERSION})`, 'INVALID_HISTORY')
+  }
+  return history.snapshots
+}
+
+/**
+ * Append this run to the history file and work out the deltas and trends
+ */
+export async function recordSnapshot(context: AnalysisContext, pipelineData: ProcessedData, outputDir: string, recordedAt: Date = new Date()): Promise<HistoryData | undefined> {
+  const { config, repoName, progressReporter } = context
+  const snapshot = createSnapshot(pipelineData, recordedAt)
+  if (!snapshot) return undefined
+
+  const historyPath = getHistoryPath(context, outputDir)
+  progressReporter?.report(`Recording metrics snapshot in ${historyPath}`)
+
+  const snapshots = appendSnapshot(await loadSnapshots(historyPath), snapshot, config.history.maxSnapshots)
+  const history: HistoryFile = { version: HISTORY_FILE_VERSION, repository: repoName, snapshots }
+  await writeFile(historyPath, JSON.stringify(history, null, 2))
+
+  return calculateHistory(snapshots)
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { calculateHotspots } from './hotspot-calculator.js'
+import { createTestCommit } from '../test/builders.js'
+
+const settings = { ...TEST_CONFIG.hotspots, windowDays: 30 }
+
+describe('hotspot-calculator', () => {
+  describe('calculateHotspots', () => {
+    it('should return no files for empty commits', () => {
+      const result = calculateHotspots([], new Map(), settings)
+
+      expect(result).toEqual({ basis: 'size', windowDays: 30, files: [] })
+    })
+
+    it('should rank files by churn combined with complexity', () => {
+      const commits = [
+        createTestCommit({
+          date: '2024-06-01T00:00:00Z',
+          filesChanged: [
+            { fileName: 'busy-simple.ts', linesAdded: 100, linesDeleted: 0, fileType: 'ts' },
+            { fileName: 'busy-complex.ts', linesAdded: 100, linesDeleted: 0, fileType: 'ts' },
+            { fileName: 'quiet-complex.ts', linesAdded: 10, linesDeleted: 0, fileType: 'ts' }
+          ]
+        })
+      ]
+      const complexityMap = new Map([['busy-simple.ts', 1], ['busy-complex.ts', 20], ['quiet-complex.ts', 20]])
+
+      const result = calculateHotspots(commits, complexityMap, settings)
+
+      expect(result.basis).toBe('complexity')
+      expect(result.files.map(file => file.fileName)).toEqual(['busy-complex.ts', 'quiet-complex.ts', 'busy-simple.ts'])
+      expect(result.files[0]).toEqual({
+        fileName: 'busy-complex.ts',
+        churn: 100,
+        commits: 1,
+        complexity: 20,
+        linesOfCode: 100,
+        score: 1
+      })
+      expect(result.files[1]?.score).toBeCloseTo(0.1)
+      expect(result.files[2]?.score).toBeCloseTo(0.05)
+    })
+
+    it('should only count churn inside the recent window', () => {
+      const commits = [
+        createTestCommit({
+          date: '2024-01-01T00:00:00Z',
+          filesChanged: [{ fileName: 'old.ts', linesAdded: 500, linesDeleted: 0, fileType: 'ts' }]
+        }),
+        createTestCommit({
+          date: '2024-06-01T00:00:00Z',
+          filesChanged: [{ fileName: 'new.ts', linesAdded: 50, linesDeleted: 10, fileType: 'ts' }]
+        })
+      ]
+
+      const result = calculateHotspots(commits, new Map(), settings)
+
+      expect(result.files.map(file => file.fileName)).toEqual(['new.ts'])
+      expect(result.files[0]).toMatchObject({ churn: 60, commits: 1, linesOfCode: 40, complexity: null })
+
+      const allHistory = calculateHotspots(commits, new Map(), { ...settings, windowDays: 0 })
+      expect(allHistory.files.map(file => file.fileName)).toEqual(['old.ts', 'new.ts'])
+    })
+
+    it('should fall back to size and skip deleted files', () => {
+      const commits = [
+        createTestCommit({
+          date: '2024-06-01T00:00:00Z',
+          filesChanged: [
+            { fileName: 'large.ts', linesAdded: 400, linesDeleted: 0, fileType: 'ts' },
+            { fileName: 'small.ts', linesAdded: 40, linesDeleted: 0, fileType: 'ts' },
+            { fileName: 'deleted.ts', linesAdded: 1000, linesDeleted: 0, fileType: 'ts' }
+          ]
+        })
+      ]
+
+      const result = calculateHotspots(commits, new Map(), settings, new Set(['large.ts', 'small.ts']))
+
+      expect(result.basis).toBe('size')
+      expect(result.files.map(file => file.fileName)).toEqual(['large.ts', 'small.ts'])
+      expect(result.files[1]?.score).toBeCloseTo(0.01)
+    })
+
+    it('should ignore files without complexity data when complexity is available', () => {
+      const commits = [
+        createTestCommit({
+          date: '2024-06-01T00:00:00Z',
+          filesChanged: [
+            { fileName: 'code.ts', linesAdded: 10, linesDeleted: 0, fileType: 'ts' },
+            { fileName: 'README.md', linesAdded: 500, linesDeleted: 0, fileType: 'md' }
+          ]
+        })
+      ]
+
+      const result = calculateHotspots(commits, new Map([['code.ts', 5]]), settings)
+
+      expect(result.files.map(file => file.fileName)).toEqual(['code.ts'])
+    })
+  })
+})
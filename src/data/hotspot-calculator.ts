@@ -0,0 +1,84 @@
+import type { CommitData } from '../git/parser.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { HotspotStats, HotspotData } from './types.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Rank files by recent churn combined with complexity.
+ *
+ * Churn (lines added + deleted) only counts within `windowDays` of the newest
+ * commit, so long-stable files drop out. Both churn and complexity are scaled
+ * against the largest value and multiplied, which keeps the score between 0 and 1.
+ * Without complexity data, lines of code stand in for complexity.
+ */
+export function calculateHotspots(
+  commits: CommitData[],
+  complexityMap: Map<string, number>,
+  settings: SimplifiedConfig['hotspots'],
+  currentFiles?: Set<string>,
+  ignoredRevisions?: Set<string>
+): HotspotData {
+  const basis: HotspotData['basis'] = complexityMap.size > 0 ? 'complexity' : 'size'
+  const newestCommit = commits[commits.length - 1]
+  const windowStart = newestCommit && settings.windowDays > 0
+    ? new Date(newestCommit.date).getTime() - settings.windowDays * DAY_MS
+    : -Infinity
+
+  const linesByFile = new Map<string, number>()
+  const recentChurn = new Map<string, { churn: number; commits: number }>()
+
+  for (const commit of commits) {
+    // Ignored revisions still change file sizes, but their churn is not counted
+    const isRecent = new Date(commit.date).getTime() >= windowStart && !ignoredRevisions?.has(commit.sha)
+
+    for (const fileChange of commit.filesChanged) {
+      if (currentFiles && !currentFiles.has(fileChange.fileName)) {
+        continue
+      }
+
+      const { fileName, linesAdded, linesDeleted } = fileChange
+      linesByFile.set(fileName, (linesByFile.get(fileName) ?? 0) + linesAdded - linesDeleted)
+
+      if (isRecent) {
+        const entry = recentChurn.get(fileName) ?? { churn: 0, commits: 0 }
+        entry.churn += linesAdded + linesDeleted
+        entry.commits++
+        recentChurn.set(fileName, entry)
+      }
+    }
+  }
+
+  const candidates = Array.from(recentChurn.entries())
+    .map(([fileName, { churn, commits: commitCount }]) => ({
+      fileName,
+      churn,
+      commits: commitCount,
+      complexity: basis === 'complexity' ? complexityMap.get(fileName) ?? null : null,
+      linesOfCode: Math.max(0, linesByFile.get(fileName) ?? 0)
+    }))
+    .filter(file => file.churn > 0 && (basis === 'complexity' ? file.complexity !== null : file.linesOfCode > 0))
+
+  const maxChurn = candidates.reduce((max, file) => Math.max(max, file.churn), 0)
+  const weightOf = (file: typeof candidates[number]) => basis === 'complexity' ? file.complexity ?? 0 : file.linesOfCode
+  const maxWeight = candidates.reduce((max, file) => Math.max(max, weightOf(file)), 0)
+
+  const files: HotspotStats[] = candidates
+    .map(file => ({
+      ...file,
+      score: maxChurn > 0 && maxWeight > 0 ? (file.churn / maxChurn) * (weightOf(file) / maxWeight) : 0
+    }))
+    .sort((a, b) => b.score - a.score || b.churn - a.churn || a.fileName.localeCompare(b.fileName))
+    .slice(0, settings.maxFiles)
+
+  return {
+    basis,
+    windowDays: settings.windowDays,
+    files
+  }
+}
+
+export function getHotspotData(context: AnalysisContext, complexityMap: Map<string, number>): HotspotData {
+  return calculateHotspots(context.commits, complexityMap, context.config.hotspots, context.currentFiles, context.ignoredRevisions)
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { createTestCommit } from '../test/builders.js'
+import { resolveRemoteHost } from '../git/remote-host.js'
+import { parseCommitHistory } from '../git/parser.js'
+import { extractIssueKeys, getIssueData } from './issue-calculator.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+
+function createContext(commits: Array<[string, string]>, config: SimplifiedConfig = TEST_CONFIG): AnalysisContext {
+  return {
+    repoPath: '/fake/repo',
+    repoName: 'test-repo',
+    isLizardInstalled: false,
+    currentFiles: new Set<string>(),
+    commits: commits.map(([date, message]) => createTestCommit({ date, message })),
+    remoteHost: resolveRemoteHost('git@github.com:owner/repo.git')!,
+    config
+  }
+}
+
+describe('extractIssueKeys', () => {
+  const { trackers } = TEST_CONFIG.issues
+
+  it('finds Jira-style keys and issue numbers', () => {
+    expect(extractIssueKeys('PROJ-123: fix login (#456)', trackers)).toEqual(['PROJ-123', '#456'])
+  })
+
+  it('reports each key once per message', () => {
+    expect(extractIssueKeys('ABC-1 follow-up for ABC-1', trackers)).toEqual(['ABC-1'])
+  })
+
+  it('ignores encodings, hashes, anchors and entities', () => {
+    expect(extractIssueKeys('Read UTF-8 and SHA-256, see docs/#3 and &#39;', trackers)).toEqual([])
+  })
+})
+
+describe('getIssueData', () => {
+  it('ranks issues and measures commits without a ticket', () => {
+    const data = getIssueData(createContext([
+      ['2024-01-01T10:00:00Z', 'PROJ-1 start feature'],
+      ['2024-01-02T10:00:00Z', 'PROJ-1 finish feature, closes #7'],
+      ['2024-01-03T10:00:00Z', 'Tidy up'],
+      ['2024-01-04T10:00:00Z', 'Merge branch main into PROJ-1'],
+      ['2024-01-05T10:00:00Z', 'PROJ-2 quick fix']
+    ]))!
+
+    expect(data.commitsWithIssues).toBe(3)
+    expect(data.commitsWithoutIssues).toBe(1)
+    expect(data.percentageWithoutIssues).toBe(25)
+    expect(data.totalIssues).toBe(3)
+    expect(data.issues[0]).toEqual({
+      key: 'PROJ-1',
+      commits: 2,
+      firstDate: '2024-01-01T10:00:00Z',
+      lastDate: '2024-01-02T10:00:00Z',
+      url: null
+    })
+    expect(data.issues.map(issue => issue.key)).toEqual(['PROJ-1', '#7', 'PROJ-2'])
+    expect(data.issues[1]!.url).toBe('https://github.com/owner/repo/issues/7')
+  })
+
+  it('links keys through the configured URL template', () => {
+    const config = {
+      ...TEST_CONFIG,
+      issues: { ...TEST_CONFIG.issues, trackers: [{ pattern: '\\bPROJ-\\d+\\b', url: 'https://jira.example.com/browse/{key}' }] }
+    }
+    const data = getIssueData(createContext([['2024-01-01T10:00:00Z', 'PROJ-42 add export']], config))!
+
+    expect(data.issues).toEqual([expect.objectContaining({ key: 'PROJ-42', url: 'https://jira.example.com/browse/PROJ-42' })])
+  })
+
+  it('links issue numbers to the issue page of the code host', () => {
+    const gitlab = { ...createContext([['2024-01-01T10:00:00Z', 'Fix crash (#12)']]), remoteHost: resolveRemoteHost('git@gitlab.com:team/app.git')! }
+    const azure = { ...gitlab, remoteHost: resolveRemoteHost('https://dev.azure.com/org/project/_git/app')! }
+
+    expect(getIssueData(gitlab)!.issues[0]!.url).toBe('https://gitlab.com/team/app/-/issues/12')
+    expect(getIssueData(azure)!.issues[0]!.url).toBe('https://dev.azure.com/org/project/_workitems/edit/12')
+  })
+
+  it('leaves host links out for repositories without a known remote', () => {
+    const { remoteHost: _, ...context } = createContext([['2024-01-01T10:00:00Z', 'Fix crash (#12)']])
+
+    expect(getIssueData(context)!.issues[0]!.url).toBeNull()
+  })
+})
+
+describe('getIssueData on parsed history', () => {
+  let testRepoPath: string
+
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-issues-'))
+    execSync('git init', { cwd: testRepoPath })
+    execSync('git config user.name "Alice"', { cwd: testRepoPath })
+    execSync('git config user.email "alice@example.com"', { cwd: testRepoPath })
+
+    writeFileSync(join(testRepoPath, 'app.js'), 'export const a = 1\n')
+    execSync('git add . && git commit -m "Add app"', { cwd: testRepoPath })
+    writeFileSync(join(testRepoPath, 'app.js'), 'export const a = 2\n')
+    writeFileSync(join(testRepoPath, 'message.txt'), 'Fix login redirect\n\nCloses #456\nRefs: PROJ-123\n')
+    execSync('git add app.js && git commit -F message.txt', { cwd: testRepoPath })
+  })
+
+  afterAll(() => {
+    rmSync(testRepoPath, { recursive: true, force: true })
+  })
+
+  it('counts keys referenced only in the commit body', async () => {
+    const commits = await parseCommitHistory(testRepoPath, undefined, undefined, { useCache: false }, TEST_CONFIG)
+    const data = getIssueData({ ...createContext([]), commits })!
+
+    expect(commits.map(commit => commit.message)).toEqual(['Add app', 'Fix login redirect'])
+    expect(data.issues.map(issue => [issue.key, issue.url])).toEqual([
+      ['#456', 'https://github.com/owner/repo/issues/456'],
+      ['PROJ-123', null]
+    ])
+    expect(data.commitsWithIssues).toBe(1)
+    expect(data.percentageWithoutIssues).toBe(50)
+  })
+})
@@ -0,0 +1,89 @@
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+import { isRealCommit } from '../utils/commit-filters.js'
+import { fillLinkTemplate } from '../utils/links.js'
+import type { RemoteHost } from '../git/remote-host.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { IssueData, IssueReference } from './types.js'
+
+export interface IssueKey {
+  key: string
+  url: string | null
+}
+
+/**
+ * Build an extractor for the configured trackers. Patterns are compiled once;
+ * each key is reported once per message, by the first tracker matching it.
+ * `{issueUrl}` in a link template is the code host's issue page for `{number}`.
+ */
+export function createIssueExtractor(trackers: SimplifiedConfig['issues']['trackers'], remoteHost: RemoteHost | null = null): (message: string) => IssueKey[] {
+  const repositoryUrl = remoteHost?.url ?? null
+  const compiled = trackers.map(tracker => ({
+    pattern: new RegExp(tracker.pattern, 'g'),
+    // Left in place without a host issue page, so those keys stay unlinked
+    url: remoteHost?.issueUrl ? tracker.url?.replace(/\{issueUrl\}/g, remoteHost.issueUrl) ?? null : tracker.url
+  }))
+
+  return (message: string) => {
+    const keys = new Map<string, IssueKey>()
+    for (const { pattern, url } of compiled) {
+      for (const match of message.matchAll(pattern)) {
+        const key = match[0]
+        if (keys.has(key)) continue
+        keys.set(key, {
+          key,
+          url: url ? fillLinkTemplate(url, { key, number: key.match(/\d+$/)?.[0], repo: repositoryUrl }) : null
+        })
+      }
+    }
+    return Array.from(keys.values())
+  }
+}
+
+/**
+ * Issue keys referenced in one commit message
+ */
+export function extractIssueKeys(message: string, trackers: SimplifiedConfig['issues']['trackers']): string[] {
+  return createIssueExtractor(trackers)(message).map(({ key }) => key)
+}
+
+/**
+ * Most referenced issues and the share of commits that reference none
+ */
+export function getIssueData(context: AnalysisContext): IssueData | undefined {
+  const { commits, config, remoteHost } = context
+  const realCommits = commits.filter(commit => isRealCommit(commit, config))
+  if (realCommits.length === 0 || config.issues.trackers.length === 0) return undefined
+
+  const extract = createIssueExtractor(config.issues.trackers, remoteHost ?? null)
+  const references = new Map<string, IssueReference>()
+  let commitsWithIssues = 0
+
+  // Commits are in chronological order, so the first reference sets firstDate.
+  // Keys in the body were collected by the parser, which is the only stage that reads it
+  for (const commit of realCommits) {
+    const keys = extract([commit.message, ...(commit.issueKeys ?? [])].join('\n'))
+    if (keys.length === 0) continue
+    commitsWithIssues++
+
+    for (const { key, url } of keys) {
+      const reference = references.get(key)
+      if (reference) {
+        reference.commits++
+        reference.lastDate = commit.date
+      } else {
+        references.set(key, { key, commits: 1, firstDate: commit.date, lastDate: commit.date, url })
+      }
+    }
+  }
+
+  const commitsWithoutIssues = realCommits.length - commitsWithIssues
+  return {
+    commitsWithIssues,
+    commitsWithoutIssues,
+    percentageWithoutIssues: Math.round((commitsWithoutIssues / realCommits.length) * 1000) / 10,
+    totalIssues: references.size,
+    issues: Array.from(references.values())
+      .sort((a, b) => b.commits - a.commits || a.key.localeCompare(b.key))
+      .slice(0, config.issues.maxIssues)
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { calculateMilestones, getMilestones } from './milestone-calculator.js'
+import { createTestCommit } from '../test/builders.js'
+import type { GitTag } from '../git/tags.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+
+describe('calculateMilestones', () => {
+  const commits = [
+    createTestCommit({ sha: 'aaa', date: '2024-01-01T00:00:00Z' }),
+    createTestCommit({ sha: 'bbb', date: '2024-02-01T00:00:00Z' }),
+    createTestCommit({ sha: 'ccc', date: '2024-03-01T00:00:00Z' })
+  ]
+  const tags: GitTag[] = [
+    { name: 'v2.0', sha: 'ccc', date: '2024-03-02T00:00:00Z', annotated: true, message: 'Second release' },
+    { name: 'nightly-1', sha: 'bbb', date: '2024-02-01T00:00:00Z', annotated: false },
+    { name: 'v1.0', sha: 'aaa', date: '2024-01-01T00:00:00Z', annotated: false },
+    { name: 'v0.1', sha: 'zzz', date: '2023-12-01T00:00:00Z', annotated: true }
+  ]
+
+  it('maps tags onto analyzed commits in history order', () => {
+    const milestones = calculateMilestones(tags, commits, [])
+
+    expect(milestones.map(m => [m.name, m.commitIndex])).toEqual([
+      ['v1.0', 0],
+      ['nightly-1', 1],
+      ['v2.0', 2]
+    ])
+    expect(milestones[2]).toEqual({
+      name: 'v2.0',
+      date: '2024-03-01T00:00:00Z',
+      commitSha: 'ccc',
+      commitIndex: 2,
+      type: 'release',
+      message: 'Second release'
+    })
+    expect(milestones[0]?.type).toBe('tag')
+  })
+
+  it('keeps only tags matching the glob patterns', () => {
+    expect(calculateMilestones(tags, commits, ['v*']).map(m => m.name)).toEqual(['v1.0', 'v2.0'])
+    expect(calculateMilestones(tags, commits, ['nightly-*', 'v2.*']).map(m => m.name)).toEqual(['nightly-1', 'v2.0'])
+  })
+})
+
+describe('getMilestones', () => {
+  let testRepoPath: string
+  let shas: string[]
+
+  const commitFile = (content: string, message: string) => {
+    writeFileSync(join(testRepoPath, 'README.md'), content)
+    execSync('git add .', { cwd: testRepoPath })
+    execSync(`git commit -m "${message}"`, { cwd: testRepoPath })
+  }
+
+  const createContext = (tags: Partial<SimplifiedConfig['tags']> = {}): AnalysisContext => ({
+    repoPath: testRepoPath,
+    repoName: 'test-repo',
+    isLizardInstalled: false,
+    currentFiles: new Set(['README.md']),
+    commits: shas.map((sha, index) => createTestCommit({ sha, date: `2024-0${index + 1}-01T00:00:00Z` })),
+    config: { ...TEST_CONFIG, tags: { ...TEST_CONFIG.tags, ...tags } }
+  })
+
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-milestones-'))
+    execSync('git init', { cwd: testRepoPath })
+    execSync('git config user.name "Test User"', { cwd: testRepoPath })
+    execSync('git config user.email "test@example.com"', { cwd: testRepoPath })
+
+    commitFile('one\n', 'First')
+    execSync('git tag v1.0', { cwd: testRepoPath })
+    commitFile('two\n', 'Second')
+    execSync('git tag -a release/2.0 -m "Release 2.0"', { cwd: testRepoPath })
+    commitFile('three\n', 'Third')
+
+    shas = execSync('git rev-list --reverse HEAD', { cwd: testRepoPath }).toString().trim().split('\n')
+  })
+
+  afterAll(() => {
+    rmSync(testRepoPath, { recursive: true, force: true })
+  })
+
+  it('reads lightweight and annotated tags from the repository', async () => {
+    const milestones = await getMilestones(createContext())
+
+    expect(milestones).toEqual([
+      { name: 'v1.0', date: '2024-01-01T00:00:00Z', commitSha: shas[0], commitIndex: 0, type: 'tag' },
+      { name: 'release/2.0', date: '2024-02-01T00:00:00Z', commitSha: shas[1], commitIndex: 1, type: 'release', message: 'Release 2.0' }
+    ])
+  })
+
+  it('applies tag patterns and can be disabled', async () => {
+    expect((await getMilestones(createContext({ patterns: ['release/*'] }))).map(m => m.name)).toEqual(['release/2.0'])
+    expect(await getMilestones(createContext({ annotate: false }))).toEqual([])
+  })
+
+  it('returns no milestones when tags cannot be read', async () => {
+    const context = { ...createContext(), repoPath: join(testRepoPath, 'missing') }
+
+    expect(await getMilestones(context)).toEqual([])
+  })
+})
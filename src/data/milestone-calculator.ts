@@ -0,0 +1,44 @@
+import { getTags, filterTags, type GitTag } from '../git/tags.js'
+import { formatError } from '../utils/errors.js'
+import type { CommitData } from '../git/parser.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { Milestone } from './types.js'
+
+/**
+ * Map tags onto the analyzed commits. Tags on commits outside the analyzed
+ * history (other branches, filtered or older commits) are dropped.
+ */
+export function calculateMilestones(tags: GitTag[], commits: CommitData[], patterns: string[]): Milestone[] {
+  const commitIndexes = new Map(commits.map((commit, index) => [commit.sha, index]))
+
+  const milestones: Milestone[] = []
+  for (const tag of filterTags(tags, patterns)) {
+    const commitIndex = commitIndexes.get(tag.sha)
+    if (commitIndex === undefined) continue
+
+    milestones.push({
+      name: tag.name,
+      date: commits[commitIndex]!.date,
+      commitSha: tag.sha,
+      commitIndex,
+      type: tag.annotated ? 'release' : 'tag',
+      ...(tag.message ? { message: tag.message } : {})
+    })
+  }
+
+  return milestones.sort((a, b) => a.commitIndex - b.commitIndex || a.name.localeCompare(b.name))
+}
+
+export async function getMilestones(context: AnalysisContext): Promise<Milestone[]> {
+  const { repoPath, commits, config } = context
+  if (!config.tags.annotate || commits.length === 0) {
+    return []
+  }
+
+  try {
+    return calculateMilestones(await getTags(repoPath), commits, config.tags.patterns)
+  } catch (error) {
+    console.warn(`Warning: Could not list tags for chart annotations: ${formatError(error)}`)
+    return []
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { calculatePortfolio, getPortfolioContributors, getPortfolioFileTypes, type PortfolioInput } from './multi-repo-calculator.js'
+import { CommitDataBuilder, FileChangeBuilder } from '../test/builders.js'
+import { TEST_CONFIG } from '../test/test-config.js'
+import type { ProcessedData } from './unified-pipeline.js'
+
+function createInput(name: string, overrides: Partial<ProcessedData>): PortfolioInput {
+  return {
+    name,
+    path: `/repos/${name}`,
+    pipelineData: {
+      commits: [],
+      contributors: [],
+      fileTypes: [],
+      linearSeries: [],
+      ...overrides
+    } as unknown as ProcessedData
+  }
+}
+
+describe('getPortfolioContributors', () => {
+  it('merges identities that share an email across repositories', () => {
+    const api = createInput('api', {
+      commits: [
+        new CommitDataBuilder().withAuthor('Jane Doe', 'jane@example.com').withFileChange(new FileChangeBuilder().withAdditions(10).withDeletions(0).build()).build(),
+        new CommitDataBuilder().withAuthor('Jane Doe', 'jane@example.com').withFileChange(new FileChangeBuilder().withAdditions(5).withDeletions(0).build()).build()
+      ]
+    })
+    const web = createInput('web', {
+      commits: [
+        new CommitDataBuilder().withAuthor('jdoe', 'jane@example.com').withFileChange(new FileChangeBuilder().withAdditions(20).withDeletions(4).build()).build(),
+        new CommitDataBuilder().withAuthor('Sam', 'sam@example.com').withFileChange(new FileChangeBuilder().withAdditions(1).withDeletions(0).build()).build()
+      ]
+    })
+
+    expect(getPortfolioContributors([api, web], TEST_CONFIG)).toEqual([
+      { name: 'Jane Doe', commits: 3, linesAdded: 35, linesDeleted: 4, repositories: ['api', 'web'] },
+      { name: 'Sam', commits: 1, linesAdded: 1, linesDeleted: 0, repositories: ['web'] }
+    ])
+  })
+
+  it('merges identities linked through a secondary email in one repository', () => {
+    const api = createInput('api', {
+      commits: [{
+        ...new CommitDataBuilder().withAuthor('Jane Doe', 'jane@work.example.com').build(),
+        identity: { name: 'Jane Doe', emails: ['jane@work.example.com', 'jane@home.example.com'] }
+      }]
+    })
+    const web = createInput('web', {
+      commits: [{
+        ...new CommitDataBuilder().withAuthor('Jane', 'jane@home.example.com').build(),
+        identity: { name: 'Jane', emails: ['jane@home.example.com'] }
+      }]
+    })
+
+    expect(getPortfolioContributors([api, web], TEST_CONFIG)).toEqual([
+      expect.objectContaining({ name: 'Jane Doe', commits: 2, repositories: ['api', 'web'] })
+    ])
+  })
+
+  it('keeps people apart who share a placeholder email in different repositories', () => {
+    const api = createInput('api', { commits: [new CommitDataBuilder().withAuthor('Jane Doe', 'root@localhost').build()] })
+    const web = createInput('web', { commits: [new CommitDataBuilder().withAuthor('Sam', 'root@localhost').build()] })
+
+    expect(getPortfolioContributors([api, web], TEST_CONFIG).map(contributor => contributor.name)).toEqual(['Jane Doe', 'Sam'])
+  })
+})
+
+describe('getPortfolioFileTypes', () => {
+  it('sums lines per file type across repositories', () => {
+    const fileTypes = getPortfolioFileTypes([
+      createInput('api', { fileTypes: [{ type: 'TypeScript', lines: 60, percentage: 100 }] }),
+      createInput('web', { fileTypes: [{ type: 'CSS', lines: 20, percentage: 50 }, { type: 'TypeScript', lines: 20, percentage: 50 }] })
+    ])
+
+    expect(fileTypes).toEqual([
+      { type: 'TypeScript', lines: 80, percentage: 80 },
+      { type: 'CSS', lines: 20, percentage: 20 }
+    ])
+  })
+})
+
+describe('calculatePortfolio', () => {
+  it('keeps the last growth point of each day per repository', () => {
+    const commits = [
+      new CommitDataBuilder().withDate('2024-01-01T09:00:00Z').withFileChange(new FileChangeBuilder().withAdditions(10).withDeletions(0).build()).build(),
+      new CommitDataBuilder().withDate('2024-01-01T17:00:00Z').withFileChange(new FileChangeBuilder().withAdditions(5).withDeletions(0).build()).build(),
+      new CommitDataBuilder().withDate('2024-01-03T12:00:00Z').withFileChange(new FileChangeBuilder().withAdditions(0).withDeletions(3).build()).build()
+    ]
+    const linearSeries = [
+      { date: '2024-01-01T09:00:00Z', cumulativeLines: 10 },
+      { date: '2024-01-01T17:00:00Z', cumulativeLines: 15 },
+      { date: '2024-01-03T12:00:00Z', cumulativeLines: 12 }
+    ]
+
+    const portfolio = calculatePortfolio('Product', [createInput('api', { commits, linearSeries } as unknown as Partial<ProcessedData>)], TEST_CONFIG)
+
+    expect(portfolio.repositories[0]).toMatchObject({
+      name: 'api',
+      commits: 3,
+      linesOfCode: 12,
+      firstCommitDate: '2024-01-01T09:00:00Z',
+      lastCommitDate: '2024-01-03T12:00:00Z',
+      growth: [{ date: '2024-01-01', lines: 15 }, { date: '2024-01-03', lines: 12 }]
+    })
+    expect(portfolio).toMatchObject({ name: 'Product', totalCommits: 3, totalLinesOfCode: 12 })
+  })
+})
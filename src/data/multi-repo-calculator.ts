@@ -0,0 +1,101 @@
+import { resolveIdentities } from '../git/identity-resolver.js'
+import { getCommitCredits } from './contributor-calculator.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+import type { ProcessedData } from './unified-pipeline.js'
+import type { FileTypeStats, PortfolioContributor, PortfolioData, PortfolioRepository } from './types.js'
+
+export interface PortfolioInput {
+  name: string
+  path: string
+  pipelineData: ProcessedData
+}
+
+function getRepositorySummary({ name, path, pipelineData }: PortfolioInput): PortfolioRepository {
+  const { commits, contributors, linearSeries } = pipelineData
+  const linesAdded = commits.reduce((sum, commit) => sum + commit.linesAdded, 0)
+  const linesDeleted = commits.reduce((sum, commit) => sum + commit.linesDeleted, 0)
+
+  // One point per day keeps a dozen overlaid repositories readable
+  const growth = new Map<string, number>()
+  for (const point of linearSeries) {
+    growth.set(point.date.slice(0, 10), point.cumulativeLines)
+  }
+
+  return {
+    name,
+    path,
+    commits: commits.length,
+    contributors: contributors.length,
+    linesOfCode: Math.max(0, linesAdded - linesDeleted),
+    firstCommitDate: commits[0]?.date ?? null,
+    lastCommitDate: commits[commits.length - 1]?.date ?? null,
+    growth: Array.from(growth, ([date, lines]) => ({ date, lines }))
+  }
+}
+
+/**
+ * Contributor totals across repositories. Each repository's commits are
+ * already resolved through its own .mailmap; resolving them again together
+ * links identities that share any of their emails in different repositories,
+ * except through `identities.sharedEmails`.
+ */
+export function getPortfolioContributors(inputs: PortfolioInput[], config: SimplifiedConfig): PortfolioContributor[] {
+  const repositoryOf = inputs.flatMap(input => input.pipelineData.commits.map(() => input.name))
+  const commits = resolveIdentities(inputs.flatMap(input => input.pipelineData.commits), [], config)
+
+  const contributorMap = new Map<string, PortfolioContributor>()
+  commits.forEach((commit, index) => {
+    for (const { name, share } of getCommitCredits(commit, config)) {
+      const existing = contributorMap.get(name) ?? { name, commits: 0, linesAdded: 0, linesDeleted: 0, repositories: [] }
+      existing.commits += share
+      existing.linesAdded += commit.linesAdded * share
+      existing.linesDeleted += commit.linesDeleted * share
+      const repository = repositoryOf[index]!
+      if (!existing.repositories.includes(repository)) {
+        existing.repositories.push(repository)
+      }
+      contributorMap.set(name, existing)
+    }
+  })
+
+  // Same rounding as getContributorStats for split co-author credit
+  return Array.from(contributorMap.values())
+    .map(stats => ({
+      ...stats,
+      commits: Math.round(stats.commits * 10) / 10,
+      linesAdded: Math.round(stats.linesAdded),
+      linesDeleted: Math.round(stats.linesDeleted)
+    }))
+    .sort((a, b) => b.commits - a.commits)
+}
+
+export function getPortfolioFileTypes(inputs: PortfolioInput[]): FileTypeStats[] {
+  const fileTypeMap = new Map<string, number>()
+  for (const { pipelineData } of inputs) {
+    for (const { type, lines } of pipelineData.fileTypes) {
+      fileTypeMap.set(type, (fileTypeMap.get(type) ?? 0) + lines)
+    }
+  }
+
+  const total = Array.from(fileTypeMap.values()).reduce((sum, lines) => sum + lines, 0)
+  return Array.from(fileTypeMap.entries())
+    .map(([type, lines]) => ({
+      type,
+      lines,
+      percentage: total > 0 ? (lines / total) * 100 : 0
+    }))
+    .sort((a, b) => b.lines - a.lines)
+}
+
+export function calculatePortfolio(name: string, inputs: PortfolioInput[], config: SimplifiedConfig): PortfolioData {
+  const repositories = inputs.map(getRepositorySummary)
+
+  return {
+    name,
+    repositories,
+    contributors: getPortfolioContributors(inputs, config),
+    fileTypes: getPortfolioFileTypes(inputs),
+    totalCommits: repositories.reduce((sum, repository) => sum + repository.commits, 0),
+    totalLinesOfCode: repositories.reduce((sum, repository) => sum + repository.linesOfCode, 0)
+  }
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { calculateBusFactor, getDirectory, getOwnershipData } from './ownership-calculator.js'
+import { parseBlamePorcelain } from '../git/blame.js'
+import { createTestCommit } from '../test/builders.js'
+import { parseCommitHistory } from '../git/parser.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { CommitData } from '../git/parser.js'
+
+function createTestContext(commits: CommitData[], repoPath = '/fake/repo'): AnalysisContext {
+  const currentFiles = new Set(commits.flatMap(commit => commit.filesChanged.map(file => file.fileName)))
+  return {
+    repoPath,
+    repoName: 'test-repo',
+    isLizardInstalled: false,
+    currentFiles,
+    commits,
+    config: TEST_CONFIG
+  }
+}
+
+describe('calculateBusFactor', () => {
+  it('returns 0 when there is no code', () => {
+    expect(calculateBusFactor(new Map(), 0.5)).toBe(0)
+  })
+  
+  it('returns 1 when a single owner holds more than half the code', () => {
+    expect(calculateBusFactor(new Map([['Alice', 60], ['Bob', 30], ['Carol', 10]]), 0.5)).toBe(1)
+  })
+  
+  it('counts owners until more than the threshold is orphaned', () => {
+    const lines = new Map([['Alice', 25], ['Bob', 25], ['Carol', 25], ['Dave', 25]])
+    
+    // Exactly half is not "more than" half
+    expect(calculateBusFactor(lines, 0.5)).toBe(3)
+    expect(calculateBusFactor(lines, 0.2)).toBe(1)
+  })
+})
+
+describe('getDirectory', () => {
+  it('groups files by leading path segments', () => {
+    expect(getDirectory('src/data/types.ts', 2)).toBe('src/data')
+    expect(getDirectory('src/data/types.ts', 1)).toBe('src')
+    expect(getDirectory('src/index.ts', 2)).toBe('src')
+    expect(getDirectory('README', 2)).toBe('.')
+  })
+})
+
+describe('parseBlamePorcelain', () => {
+  it('counts surviving lines and authors per commit', () => {
+    const shaA = 'a'.repeat(40)
+    const shaB = 'b'.repeat(40)
+    const output = [
+      `${shaA} 1 1 2`,
+      'author Alice',
+      'author-mail <alice@example.com>',
+      'filename a.ts',
+      '\tline one',
+      `${shaA} 2 2`,
+      '\tline two',
+      `${shaB} 1 3 1`,
+      'author Bob',
+      'author-mail <bob@example.com>',
+      'filename a.ts',
+      '\tline three'
+    ].join('\n')
+    
+    const result = parseBlamePorcelain(output)
+    
+    expect(result.totalLines).toBe(3)
+    expect(result.linesByCommit.get(shaA)).toBe(2)
+    expect(result.linesByCommit.get(shaB)).toBe(1)
+    expect(result.authorsByCommit.get(shaB)).toEqual({ name: 'Bob', email: 'bob@example.com' })
+  })
+})
+
+describe('getOwnershipData', () => {
+  it('falls back to churn share when blame is unavailable', async () => {
+    const commits = [
+      createTestCommit({
+        sha: 'c1',
+        authorName: 'Alice',
+        filesChanged: [{ fileName: 'src/app.ts', linesAdded: 90, linesDeleted: 0, fileType: 'TypeScript' }]
+      }),
+      createTestCommit({
+        sha: 'c2',
+        authorName: 'Bob',
+        filesChanged: [{ fileName: 'src/app.ts', linesAdded: 10, linesDeleted: 20, fileType: 'TypeScript' }]
+      })
+    ]
+    
+    const ownership = await getOwnershipData(createTestContext(commits))
+    
+    expect(ownership.files).toHaveLength(1)
+    expect(ownership.files[0]?.source).toBe('churn')
+    expect(ownership.estimatedFiles).toBe(1)
+    // 80 surviving lines split by churn share: Alice 90/120, Bob 30/120
+    expect(ownership.owners).toEqual([
+      { name: 'Alice', lines: 60, percentage: 75 },
+      { name: 'Bob', lines: 20, percentage: 25 }
+    ])
+    expect(ownership.busFactor).toBe(1)
+    expect(ownership.directories[0]?.directory).toBe('src')
+  })
+
+  it('gives ignored revisions no churn share', async () => {
+    const commits = [
+      createTestCommit({
+        sha: 'aaa1111',
+        authorName: 'Alice',
+        filesChanged: [{ fileName: 'src/app.ts', linesAdded: 50, linesDeleted: 0, fileType: 'TypeScript' }]
+      }),
+      createTestCommit({
+        sha: 'bbb2222',
+        authorName: 'Formatter',
+        filesChanged: [{ fileName: 'src/app.ts', linesAdded: 40, linesDeleted: 40, fileType: 'TypeScript' }]
+      })
+    ]
+
+    const ownership = await getOwnershipData({ ...createTestContext(commits), ignoredRevisions: new Set(['bbb2222']) })
+
+    expect(ownership.owners).toEqual([{ name: 'Alice', lines: 50, percentage: 100 }])
+  })
+  
+  describe('with git blame', () => {
+    let testRepoPath: string
+    
+    beforeAll(() => {
+      testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-test-'))
+      
+      execSync('git init', { cwd: testRepoPath })
+      const commitAs = (name: string, email: string, message: string) => {
+        execSync('git add -A', { cwd: testRepoPath })
+        execSync(`git -c user.name="${name}" -c user.email="${email}" commit -m "${message}"`, { cwd: testRepoPath })
+      }
+      
+      mkdirSync(join(testRepoPath, 'src'))
+      writeFileSync(join(testRepoPath, 'src/core.js'), Array(10).fill('// alice').join('\n') + '\n')
+      commitAs('Alice', 'alice@example.com', 'Add core')
+      
+      // Bob rewrites most of Alice's lines, so churn and blame disagree
+      writeFileSync(join(testRepoPath, 'src/core.js'), Array(2).fill('// alice').concat(Array(8).fill('// bob')).join('\n') + '\n')
+      writeFileSync(join(testRepoPath, 'src/util.js'), Array(4).fill('// bob').join('\n') + '\n')
+      commitAs('Bob', 'bob@example.com', 'Rewrite core')
+    })
+    
+    afterAll(() => {
+      if (testRepoPath) {
+        rmSync(testRepoPath, { recursive: true, force: true })
+      }
+    })
+    
+    it('measures ownership from surviving lines', async () => {
+      const commits = await parseCommitHistory(testRepoPath, undefined, undefined, { useCache: false }, TEST_CONFIG)
+      
+      const ownership = await getOwnershipData(createTestContext(commits, testRepoPath))
+      
+      expect(ownership.files.every(file => file.source === 'blame')).toBe(true)
+      expect(ownership.blamedFiles).toBe(2)
+      expect(ownership.estimatedFiles).toBe(0)
+      expect(ownership.owners.map(owner => [owner.name, owner.lines])).toEqual([['Bob', 12], ['Alice', 2]])
+      expect(ownership.owners[0]?.percentage).toBeCloseTo(85.71)
+      expect(ownership.busFactor).toBe(1)
+    })
+    
+    it('estimates files beyond maxBlameFiles from churn share', async () => {
+      const commits = await parseCommitHistory(testRepoPath, undefined, undefined, { useCache: false }, TEST_CONFIG)
+      const config = { ...TEST_CONFIG, ownership: { ...TEST_CONFIG.ownership, useBlame: true, maxBlameFiles: 1 } }
+      
+      const ownership = await getOwnershipData({ ...createTestContext(commits, testRepoPath), config })
+      
+      expect(ownership.files.map(file => [file.fileName, file.source])).toEqual([['src/core.js', 'blame'], ['src/util.js', 'churn']])
+      expect(ownership.blamedFiles).toBe(1)
+      expect(ownership.estimatedFiles).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,221 @@
+import { blameFile } from '../git/blame.js'
+import { isFileExcluded } from '../utils/exclusions.js'
+import { isBinaryFile } from './git-extractor.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { CommitData } from '../git/parser.js'
+import type { OwnerShare, FileOwnership, DirectoryOwnership, OwnershipData } from './types.js'
+
+/**
+ * Minimum number of owners whose departure orphans more than `threshold` of the lines
+ */
+export function calculateBusFactor(linesByOwner: Map<string, number>, threshold: number): number {
+  const sortedLines = Array.from(linesByOwner.values()).sort((a, b) => b - a)
+  const totalLines = sortedLines.reduce((sum, lines) => sum + lines, 0)
+  if (totalLines === 0) {
+    return 0
+  }
+
+  let orphanedLines = 0
+  let owners = 0
+  for (const lines of sortedLines) {
+    orphanedLines += lines
+    owners++
+    if (orphanedLines > totalLines * threshold) {
+      break
+    }
+  }
+
+  return owners
+}
+
+function toOwnerShares(linesByOwner: Map<string, number>): OwnerShare[] {
+  const totalLines = Array.from(linesByOwner.values()).reduce((sum, lines) => sum + lines, 0)
+
+  return Array.from(linesByOwner.entries())
+    .map(([name, lines]) => ({
+      name,
+      lines,
+      percentage: totalLines > 0 ? (lines / totalLines) * 100 : 0
+    }))
+    .sort((a, b) => b.lines - a.lines)
+}
+
+function addLines(target: Map<string, number>, name: string, lines: number): void {
+  target.set(name, (target.get(name) ?? 0) + lines)
+}
+
+export function getDirectory(fileName: string, depth: number): string {
+  const segments = fileName.split('/').slice(0, -1)
+  return segments.length > 0 ? segments.slice(0, depth).join('/') : '.'
+}
+
+interface ChurnEntry {
+  churnByAuthor: Map<string, number>
+  netLines: number
+}
+
+/**
+ * Churn per author and net size per file. Ignored revisions still count toward
+ * a file's size but give their author no share of it.
+ */
+function buildChurnIndex(commits: CommitData[], ignoredRevisions?: Set<string>): Map<string, ChurnEntry> {
+  const index = new Map<string, ChurnEntry>()
+
+  for (const commit of commits) {
+    for (const fileChange of commit.filesChanged) {
+      const entry = index.get(fileChange.fileName) ?? { churnByAuthor: new Map(), netLines: 0 }
+      entry.netLines += fileChange.linesAdded - fileChange.linesDeleted
+      index.set(fileChange.fileName, entry)
+      if (ignoredRevisions?.has(commit.sha)) continue
+      addLines(entry.churnByAuthor, commit.authorName, fileChange.linesAdded + fileChange.linesDeleted)
+    }
+  }
+
+  return index
+}
+
+/**
+ * Spread a file's estimated size across authors in proportion to their churn
+ */
+function getChurnOwnership(entry: ChurnEntry): Map<string, number> {
+  const linesByOwner = new Map<string, number>()
+  const totalChurn = Array.from(entry.churnByAuthor.values()).reduce((sum, churn) => sum + churn, 0)
+  const estimatedLines = Math.max(0, entry.netLines)
+  if (totalChurn === 0 || estimatedLines === 0) {
+    return linesByOwner
+  }
+
+  for (const [name, churn] of entry.churnByAuthor) {
+    linesByOwner.set(name, Math.round((churn / totalChurn) * estimatedLines))
+  }
+  return linesByOwner
+}
+
+/**
+ * Run `task` over `items` with at most `concurrency` calls in flight
+ */
+async function forEachConcurrently<T>(items: T[], concurrency: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      await task(items[next++]!)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+}
+
+/**
+ * Per-file, per-directory and repository ownership measured from surviving lines
+ * (git blame at the newest analyzed commit). Files beyond `ownership.maxBlameFiles`,
+ * files that cannot be blamed, and every file when `ownership.useBlame` is off are
+ * estimated from churn share.
+ */
+export async function getOwnershipData(context: AnalysisContext): Promise<OwnershipData> {
+  const { commits, currentFiles, repoPath, config, ignoredRevisions, progressReporter } = context
+  const settings = config.ownership
+
+  const churnIndex = buildChurnIndex(commits, ignoredRevisions)
+  const newestCommit = commits[commits.length - 1]
+
+  // Blame reports raw authors; map them back to the canonical identities used elsewhere
+  const authorBySha = new Map(commits.map(commit => [commit.sha, commit.authorName]))
+  const authorByEmail = new Map<string, string>()
+  for (const commit of commits) {
+    for (const email of commit.identity?.emails ?? [commit.authorEmail]) {
+      authorByEmail.set(email.toLowerCase(), commit.authorName)
+    }
+  }
+
+  // Largest files first so the blame budget is spent where most code lives
+  const files = Array.from(currentFiles)
+    .filter(fileName => !isFileExcluded(fileName, config.exclusions.patterns) && !isBinaryFile(fileName, config))
+    .sort((a, b) => (churnIndex.get(b)?.netLines ?? 0) - (churnIndex.get(a)?.netLines ?? 0) || a.localeCompare(b))
+
+  const blameCandidates = settings.useBlame && newestCommit ? files.slice(0, settings.maxBlameFiles) : []
+  const blamedLines = new Map<string, Map<string, number>>()
+  const ignoreRevs = Array.from(ignoredRevisions ?? [])
+  let attemptedFiles = 0
+
+  await forEachConcurrently(blameCandidates, settings.blameConcurrency, async fileName => {
+    try {
+      const blame = await blameFile(repoPath, newestCommit!.sha, fileName, ignoreRevs)
+      const linesByOwner = new Map<string, number>()
+      for (const [sha, lines] of blame.linesByCommit) {
+        const author = blame.authorsByCommit.get(sha)
+        const name = authorBySha.get(sha) ?? (author && authorByEmail.get(author.email.toLowerCase())) ?? author?.name ?? 'Unknown'
+        addLines(linesByOwner, name, lines)
+      }
+      blamedLines.set(fileName, linesByOwner)
+    } catch {
+      // Estimated from churn share below
+    }
+
+    attemptedFiles++
+    if (attemptedFiles % 100 === 0) {
+      progressReporter?.report(`Calculating code ownership: ${attemptedFiles}/${blameCandidates.length} files blamed`)
+    }
+  })
+
+  const estimatedFiles = files.length - blamedLines.size
+  if (!settings.useBlame) {
+    progressReporter?.report('Code ownership estimated from churn share because ownership.useBlame is off')
+  } else if (estimatedFiles > 0) {
+    const failedFiles = blameCandidates.length - blamedLines.size
+    progressReporter?.report(
+      `Code ownership: ${blamedLines.size} files measured with git blame, ${estimatedFiles} estimated from churn share ` +
+      `(${files.length - blameCandidates.length} beyond ownership.maxBlameFiles, ${failedFiles} could not be blamed)`
+    )
+  }
+
+  const fileOwnership: FileOwnership[] = []
+  for (const fileName of files) {
+    const blamed = blamedLines.get(fileName)
+    const entry = churnIndex.get(fileName)
+    const linesByOwner = blamed ?? (entry ? getChurnOwnership(entry) : new Map<string, number>())
+    const source: FileOwnership['source'] = blamed ? 'blame' : 'churn'
+
+    const owners = toOwnerShares(linesByOwner)
+    const totalLines = owners.reduce((sum, owner) => sum + owner.lines, 0)
+    if (totalLines > 0) {
+      fileOwnership.push({ fileName, totalLines, source, owners })
+    }
+  }
+
+  const repositoryLines = new Map<string, number>()
+  const directoryLines = new Map<string, Map<string, number>>()
+  for (const file of fileOwnership) {
+    const directory = getDirectory(file.fileName, settings.directoryDepth)
+    const linesByOwner = directoryLines.get(directory) ?? new Map<string, number>()
+    for (const owner of file.owners) {
+      addLines(repositoryLines, owner.name, owner.lines)
+      addLines(linesByOwner, owner.name, owner.lines)
+    }
+    directoryLines.set(directory, linesByOwner)
+  }
+
+  const directories: DirectoryOwnership[] = Array.from(directoryLines.entries())
+    .map(([directory, linesByOwner]) => {
+      const owners = toOwnerShares(linesByOwner)
+      return {
+        directory,
+        totalLines: owners.reduce((sum, owner) => sum + owner.lines, 0),
+        busFactor: calculateBusFactor(linesByOwner, settings.busFactorThreshold),
+        owners
+      }
+    })
+    .sort((a, b) => b.totalLines - a.totalLines)
+
+  const owners = toOwnerShares(repositoryLines)
+
+  return {
+    busFactor: calculateBusFactor(repositoryLines, settings.busFactorThreshold),
+    totalLines: owners.reduce((sum, owner) => sum + owner.lines, 0),
+    owners,
+    blamedFiles: blamedLines.size,
+    estimatedFiles,
+    directories,
+    files: fileOwnership
+      .sort((a, b) => b.totalLines - a.totalLines)
+      .slice(0, settings.maxFilesDisplayed)
+  }
+}
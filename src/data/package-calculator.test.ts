@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join, dirname } from 'path'
+import { execSync } from 'child_process'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { CommitDataBuilder, FileChangeBuilder, createTestCommit } from '../test/builders.js'
+import {
+  parsePnpmWorkspace,
+  parseCargoWorkspace,
+  matchPackageDirectories,
+  findPackage,
+  detectPackages,
+  calculatePackageStats
+} from './package-calculator.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+
+describe('parsePnpmWorkspace', () => {
+  it('reads block and flow sequences', () => {
+    expect(parsePnpmWorkspace('packages:\n  - "packages/*"\n  - \'apps/*\' # apps\n  - "!**/test/**"\nonlyBuiltDependencies:\n  - esbuild\n'))
+      .toEqual(['packages/*', 'apps/*', '!**/test/**'])
+    expect(parsePnpmWorkspace("packages: ['libs/*', tools]\n")).toEqual(['libs/*', 'tools'])
+  })
+
+  it('returns nothing without a packages list', () => {
+    expect(parsePnpmWorkspace('catalog:\n  react: ^18\n')).toEqual([])
+  })
+})
+
+describe('parseCargoWorkspace', () => {
+  it('reads members and excludes from the workspace table', () => {
+    const content = [
+      '[workspace]',
+      'members = [',
+      '  "crates/*",',
+      '  "cli",',
+      ']',
+      'exclude = ["crates/legacy"]',
+      '',
+      '[workspace.dependencies]',
+      'serde = "1"'
+    ].join('\n')
+
+    expect(parseCargoWorkspace(content)).toEqual(['crates/*', 'cli', '!crates/legacy'])
+  })
+
+  it('returns nothing for a single crate', () => {
+    expect(parseCargoWorkspace('[package]\nname = "tool"\n')).toEqual([])
+  })
+})
+
+describe('matchPackageDirectories', () => {
+  const files = new Set([
+    'package.json',
+    'packages/ui/package.json',
+    'packages/ui/src/button.ts',
+    'packages/docs/README.md',
+    'packages/internal/package.json',
+    'apps/web/package.json',
+    'apps/web/src/main.ts'
+  ])
+
+  it('keeps matching directories that contain the manifest', () => {
+    expect(matchPackageDirectories(['packages/*', './apps/*/', '!packages/internal'], files, 'package.json')).toEqual(['apps/web', 'packages/ui'])
+  })
+
+  it('accepts every matching directory without a manifest', () => {
+    expect(matchPackageDirectories(['packages/*'], files, null)).toEqual(['packages/docs', 'packages/internal', 'packages/ui'])
+  })
+})
+
+describe('findPackage', () => {
+  it('picks the deepest package containing the file', () => {
+    const roots = [{ name: 'tools', path: 'tools' }, { name: 'lint', path: 'tools/lint' }]
+
+    expect(findPackage('tools/lint/index.ts', roots)?.name).toBe('lint')
+    expect(findPackage('tools/build.ts', roots)?.name).toBe('tools')
+    expect(findPackage('toolsets/a.ts', roots)).toBeNull()
+  })
+})
+
+describe('calculatePackageStats', () => {
+  const change = (path: string, added: number, deleted: number = 0) =>
+    new FileChangeBuilder().withPath(path).withFileType('TypeScript').withAdditions(added).withDeletions(deleted).build()
+
+  const commits = [
+    new CommitDataBuilder().withHash('a1').withAuthor('Alice').withDate('2024-01-01T10:00:00Z')
+      .withFileChanges([change('packages/ui/button.ts', 100), change('README.md', 5)]).build(),
+    new CommitDataBuilder().withHash('b2').withAuthor('Bob').withDate('2024-01-01T15:00:00Z')
+      .withFileChanges([change('packages/ui/button.ts', 10, 30), change('apps/web/main.ts', 50)]).build(),
+    new CommitDataBuilder().withHash('c3').withAuthor('Bob').withDate('2024-01-05T09:00:00Z')
+      .withFileChanges([change('apps/web/main.ts', 20)]).build()
+  ]
+  const context = {
+    commits,
+    currentFiles: new Set(['packages/ui/button.ts', 'apps/web/main.ts', 'README.md']),
+    config: TEST_CONFIG
+  } as unknown as AnalysisContext
+  const roots = [{ name: '@acme/ui', path: 'packages/ui' }, { name: 'web', path: 'apps/web' }]
+
+  it('breaks lines, commits and contributors down by package', () => {
+    const { packages } = calculatePackageStats(context, 'pnpm', roots)
+
+    expect(packages.map(pkg => [pkg.name, pkg.commits, pkg.linesOfCode])).toEqual([
+      ['@acme/ui', 2, 80],
+      ['web', 2, 70],
+      ['(root)', 1, 5]
+    ])
+    expect(packages[0]!.contributors).toEqual([
+      { name: 'Alice', commits: 1, linesAdded: 100, linesDeleted: 0 },
+      { name: 'Bob', commits: 1, linesAdded: 10, linesDeleted: 30 }
+    ])
+    expect(packages[0]!.topChurnFiles).toEqual([{ fileName: 'packages/ui/button.ts', churn: 140, commits: 2 }])
+    expect(packages[1]!.fileTypes).toEqual([{ type: 'TypeScript', lines: 70, percentage: 100 }])
+  })
+
+  it('keeps one cumulative point per day for every package seen so far', () => {
+    const { timeSeries } = calculatePackageStats(context, 'pnpm', roots)
+
+    expect(timeSeries).toEqual([
+      { date: '2024-01-01', cumulativeLines: { 'packages/ui': 80, '': 5, 'apps/web': 50 } },
+      { date: '2024-01-05', cumulativeLines: { 'packages/ui': 80, '': 5, 'apps/web': 70 } }
+    ])
+  })
+})
+
+describe('detectPackages', () => {
+  let testRepoPath: string
+
+  const writeFiles = (files: Record<string, string>) => {
+    for (const [path, content] of Object.entries(files)) {
+      mkdirSync(dirname(join(testRepoPath, path)), { recursive: true })
+      writeFileSync(join(testRepoPath, path), content)
+    }
+  }
+
+  const createContext = (packages: Partial<SimplifiedConfig['packages']> = {}): AnalysisContext => {
+    const sha = execSync('git rev-parse HEAD', { cwd: testRepoPath }).toString().trim()
+    const files = execSync('git ls-files', { cwd: testRepoPath }).toString().trim().split('\n')
+    return {
+      repoPath: testRepoPath,
+      repoName: 'monorepo',
+      isLizardInstalled: false,
+      currentFiles: new Set(files),
+      commits: [createTestCommit({ sha })],
+      config: { ...TEST_CONFIG, packages: { ...TEST_CONFIG.packages, ...packages } }
+    }
+  }
+
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-packages-'))
+    execSync('git init', { cwd: testRepoPath })
+    execSync('git config user.name "Test User"', { cwd: testRepoPath })
+    execSync('git config user.email "test@example.com"', { cwd: testRepoPath })
+
+    writeFiles({
+      'package.json': JSON.stringify({ name: 'root', workspaces: ['libs/*'] }),
+      'pnpm-workspace.yaml': 'packages:\n  - "packages/*"\n',
+      'packages/ui/package.json': JSON.stringify({ name: '@acme/ui' }),
+      'packages/ui/index.ts': 'export {}\n',
+      'packages/unnamed/package.json': '{}',
+      'services/billing/main.go': 'package main\n'
+    })
+    execSync('git add . && git commit -m "Initial commit"', { cwd: testRepoPath })
+  })
+
+  afterAll(() => {
+    rmSync(testRepoPath, { recursive: true, force: true })
+  })
+
+  it('prefers pnpm workspaces and reads package names from the analyzed commit', async () => {
+    expect(await detectPackages(createContext())).toEqual({
+      source: 'pnpm',
+      roots: [{ name: '@acme/ui', path: 'packages/ui' }, { name: 'packages/unnamed', path: 'packages/unnamed' }]
+    })
+  })
+
+  it('uses configured roots instead of detection', async () => {
+    expect(await detectPackages(createContext({ roots: ['services/*'] }))).toEqual({
+      source: 'config',
+      roots: [{ name: 'services/billing', path: 'services/billing' }]
+    })
+  })
+
+  it('finds nothing with detection turned off', async () => {
+    expect(await detectPackages(createContext({ detect: false }))).toBeNull()
+  })
+})
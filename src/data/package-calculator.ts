@@ -0,0 +1,297 @@
+import { Minimatch } from 'minimatch'
+import { BlobContentReader } from '../git/blob-content-reader.js'
+import { getCommitCredits } from './contributor-calculator.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { ContributorStats, FileTypeStats, PackageData, PackageSeriesPoint, PackageStats } from './types.js'
+
+const TOP_CHURN_FILES = 10
+const ROOT_PACKAGE_NAME = '(root)'
+
+export interface PackageRoot {
+  name: string
+  path: string
+}
+
+interface PackageSource {
+  source: PackageData['source']
+  patterns: string[]
+  manifest: 'package.json' | 'Cargo.toml' | null // file a matching directory must contain
+}
+
+/**
+ * The `packages:` list of pnpm-workspace.yaml, as a block or flow sequence
+ */
+export function parsePnpmWorkspace(content: string): string[] {
+  const unquote = (value: string) => value.trim().replace(/^['"]|['"]$/g, '')
+  const lines = content.split('\n').map(line => line.replace(/\s+#.*$/, ''))
+  const start = lines.findIndex(line => /^packages\s*:/.test(line))
+  if (start === -1) return []
+
+  const inline = lines[start]!.replace(/^packages\s*:/, '').trim()
+  if (inline.startsWith('[')) {
+    return inline.replace(/^\[|\]$/g, '').split(',').map(unquote).filter(Boolean)
+  }
+
+  const patterns: string[] = []
+  for (const line of lines.slice(start + 1)) {
+    if (!line.trim()) continue
+    const item = line.match(/^\s+-\s*(.+)$/)
+    if (!item) break
+    patterns.push(unquote(item[1]!))
+  }
+  return patterns
+}
+
+/**
+ * `members` and `exclude` of the `[workspace]` table in Cargo.toml
+ */
+export function parseCargoWorkspace(content: string): string[] {
+  const section = content.match(/^\[workspace\]\s*$([\s\S]*?)(?=^\[|(?![\s\S]))/m)?.[1]
+  if (!section) return []
+
+  const readArray = (key: string) => {
+    const array = section.match(new RegExp(`^${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'))?.[1] ?? ''
+    return Array.from(array.matchAll(/"([^"]*)"|'([^']*)'/g), match => match[1] ?? match[2] ?? '')
+  }
+  return [...readArray('members'), ...readArray('exclude').map(pattern => `!${pattern}`)]
+}
+
+/**
+ * Directories that match the patterns (and contain `manifest`, when given).
+ * Patterns starting with `!` exclude directories, as in pnpm workspaces.
+ */
+export function matchPackageDirectories(patterns: string[], currentFiles: Set<string>, manifest: string | null): string[] {
+  const normalize = (pattern: string) => pattern.replace(/^\.\//, '').replace(/\/+$/, '')
+  const include = patterns.filter(pattern => !pattern.startsWith('!')).map(pattern => new Minimatch(normalize(pattern)))
+  const exclude = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => new Minimatch(normalize(pattern.slice(1))))
+
+  const directories = new Set<string>()
+  for (const file of currentFiles) {
+    const parts = file.split('/')
+    for (let depth = 1; depth < parts.length; depth++) {
+      directories.add(parts.slice(0, depth).join('/'))
+    }
+  }
+
+  return Array.from(directories)
+    .filter(directory => include.some(matcher => matcher.match(directory)) && !exclude.some(matcher => matcher.match(directory)))
+    .filter(directory => manifest === null || currentFiles.has(`${directory}/${manifest}`))
+    .sort()
+}
+
+/**
+ * The package a file belongs to: the deepest package directory containing it
+ */
+export function findPackage(fileName: string, roots: PackageRoot[]): PackageRoot | null {
+  let match: PackageRoot | null = null
+  for (const root of roots) {
+    if (fileName.startsWith(`${root.path}/`) && (!match || root.path.length > match.path.length)) {
+      match = root
+    }
+  }
+  return match
+}
+
+function readPackageName(manifest: string, content: string): string | null {
+  if (manifest === 'package.json') {
+    try {
+      const name = JSON.parse(content).name
+      return typeof name === 'string' && name ? name : null
+    } catch {
+      return null
+    }
+  }
+  const packageSection = content.match(/^\[package\]\s*$([\s\S]*?)(?=^\[|(?![\s\S]))/m)?.[1] ?? ''
+  return packageSection.match(/^name\s*=\s*["']([^"']+)["']/m)?.[1] ?? null
+}
+
+/**
+ * Find the workspace packages at the newest analyzed commit. Configured roots
+ * win; otherwise pnpm, npm/yarn and Cargo workspaces are tried in that order.
+ */
+export async function detectPackages(context: AnalysisContext): Promise<{ source: PackageData['source']; roots: PackageRoot[] } | null> {
+  const { repoPath, commits, currentFiles, config } = context
+  const newest = commits[commits.length - 1]
+  if (!newest) return null
+
+  const reader = new BlobContentReader(repoPath)
+  try {
+    const read = async (path: string): Promise<string | null> => {
+      if (!currentFiles.has(path)) return null
+      const object = `${newest.sha}:${path}`
+      return (await reader.getContents([object])).get(object)?.toString('utf-8') ?? null
+    }
+
+    const sources: Array<() => Promise<PackageSource | null>> = [
+      async () => config.packages.roots.length > 0 ? { source: 'config', patterns: config.packages.roots, manifest: null } : null,
+      async () => {
+        if (!config.packages.detect) return null
+        const content = await read('pnpm-workspace.yaml')
+        return content ? { source: 'pnpm', patterns: parsePnpmWorkspace(content), manifest: 'package.json' } : null
+      },
+      async () => {
+        if (!config.packages.detect) return null
+        const content = await read('package.json')
+        if (!content) return null
+        let workspaces: unknown
+        try {
+          workspaces = JSON.parse(content).workspaces
+        } catch {
+          return null
+        }
+        // npm and yarn take an array; yarn classic also allows { packages: [...] }
+        const patterns = Array.isArray(workspaces) ? workspaces : (workspaces as { packages?: unknown } | undefined)?.packages
+        return Array.isArray(patterns) ? { source: 'npm', patterns: patterns.filter(pattern => typeof pattern === 'string'), manifest: 'package.json' } : null
+      },
+      async () => {
+        if (!config.packages.detect) return null
+        const content = await read('Cargo.toml')
+        return content ? { source: 'cargo', patterns: parseCargoWorkspace(content), manifest: 'Cargo.toml' } : null
+      }
+    ]
+
+    for (const detect of sources) {
+      const found = await detect()
+      if (!found || found.patterns.length === 0) continue
+
+      const directories = matchPackageDirectories(found.patterns, currentFiles, found.manifest)
+      if (directories.length === 0) continue
+
+      const roots: PackageRoot[] = []
+      for (const path of directories) {
+        const manifest = found.manifest ? await read(`${path}/${found.manifest}`) : null
+        roots.push({ name: (found.manifest && manifest ? readPackageName(found.manifest, manifest) : null) ?? path, path })
+      }
+      return { source: found.source, roots }
+    }
+    return null
+  } finally {
+    await reader.close()
+  }
+}
+
+interface PackageAccumulator {
+  shas: Set<string>
+  linesAdded: number
+  linesDeleted: number
+  netLines: number // includes ignored revisions
+  contributors: Map<string, ContributorStats>
+  fileTypes: Map<string, number>
+  files: Map<string, { churn: number; commits: number }>
+}
+
+/**
+ * Break every commit down by package. Files outside every package are
+ * reported as "(root)" when there are any. Ignored revisions only count
+ * towards lines of code.
+ */
+export function calculatePackageStats(context: AnalysisContext, source: PackageData['source'], roots: PackageRoot[]): PackageData {
+  const { commits, ignoredRevisions, currentFiles, config } = context
+  const rootPackage: PackageRoot = { name: ROOT_PACKAGE_NAME, path: '' }
+  const accumulators = new Map<PackageRoot, PackageAccumulator>()
+  const cumulative = new Map<string, number>()
+  const timeSeries: PackageSeriesPoint[] = []
+
+  for (const commit of commits) {
+    const isIgnored = ignoredRevisions?.has(commit.sha) ?? false
+    const touched = new Map<PackageRoot, { linesAdded: number; linesDeleted: number }>()
+    for (const fileChange of commit.filesChanged) {
+      const root = findPackage(fileChange.fileName, roots) ?? rootPackage
+      const accumulator = accumulators.get(root) ?? {
+        shas: new Set(),
+        linesAdded: 0,
+        linesDeleted: 0,
+        netLines: 0,
+        contributors: new Map(),
+        fileTypes: new Map(),
+        files: new Map()
+      }
+      accumulators.set(root, accumulator)
+
+      accumulator.netLines += fileChange.linesAdded - fileChange.linesDeleted
+      cumulative.set(root.path, (cumulative.get(root.path) ?? 0) + fileChange.linesAdded - fileChange.linesDeleted)
+
+      // Same rule as getFileTypeStats: lines added to files that still exist
+      if (currentFiles.has(fileChange.fileName)) {
+        accumulator.fileTypes.set(fileChange.fileType, (accumulator.fileTypes.get(fileChange.fileType) ?? 0) + fileChange.linesAdded)
+      }
+
+      if (isIgnored) continue
+
+      accumulator.shas.add(commit.sha)
+      accumulator.linesAdded += fileChange.linesAdded
+      accumulator.linesDeleted += fileChange.linesDeleted
+
+      const file = accumulator.files.get(fileChange.fileName) ?? { churn: 0, commits: 0 }
+      file.churn += fileChange.linesAdded + fileChange.linesDeleted
+      file.commits += 1
+      accumulator.files.set(fileChange.fileName, file)
+
+      const lines = touched.get(root) ?? { linesAdded: 0, linesDeleted: 0 }
+      lines.linesAdded += fileChange.linesAdded
+      lines.linesDeleted += fileChange.linesDeleted
+      touched.set(root, lines)
+    }
+
+    // Contributors are credited once per package a commit touches
+    for (const [root, lines] of touched) {
+      const contributors = accumulators.get(root)!.contributors
+      for (const { name, share } of getCommitCredits(commit, config)) {
+        const stats = contributors.get(name) ?? { name, commits: 0, linesAdded: 0, linesDeleted: 0 }
+        stats.commits += share
+        stats.linesAdded += lines.linesAdded * share
+        stats.linesDeleted += lines.linesDeleted * share
+        contributors.set(name, stats)
+      }
+    }
+
+    if (commit.filesChanged.length > 0) {
+      const date = new Date(commit.date).toISOString().split('T')[0]!
+      const point = { date, cumulativeLines: Object.fromEntries(Array.from(cumulative, ([path, lines]) => [path, Math.max(0, lines)])) }
+      if (timeSeries[timeSeries.length - 1]?.date === date) {
+        timeSeries[timeSeries.length - 1] = point
+      } else {
+        timeSeries.push(point)
+      }
+    }
+  }
+
+  const packages = Array.from(accumulators, ([root, accumulator]): PackageStats => {
+    const fileTypeTotal = Array.from(accumulator.fileTypes.values()).reduce((sum, lines) => sum + lines, 0)
+    const fileTypes: FileTypeStats[] = Array.from(accumulator.fileTypes, ([type, lines]) => ({
+      type,
+      lines,
+      percentage: fileTypeTotal > 0 ? (lines / fileTypeTotal) * 100 : 0
+    })).sort((a, b) => b.lines - a.lines)
+
+    return {
+      name: root.name,
+      path: root.path,
+      commits: accumulator.shas.size,
+      linesAdded: accumulator.linesAdded,
+      linesDeleted: accumulator.linesDeleted,
+      linesOfCode: Math.max(0, accumulator.netLines),
+      // Same rounding as getContributorStats for split co-author credit
+      contributors: Array.from(accumulator.contributors.values())
+        .map(stats => ({
+          ...stats,
+          commits: Math.round(stats.commits * 10) / 10,
+          linesAdded: Math.round(stats.linesAdded),
+          linesDeleted: Math.round(stats.linesDeleted)
+        }))
+        .sort((a, b) => b.commits - a.commits),
+      fileTypes,
+      topChurnFiles: Array.from(accumulator.files, ([fileName, file]) => ({ fileName, ...file }))
+        .sort((a, b) => b.churn - a.churn)
+        .slice(0, TOP_CHURN_FILES)
+    }
+  }).sort((a, b) => b.linesOfCode - a.linesOfCode)
+
+  return { source, packages, timeSeries }
+}
+
+export async function getPackageData(context: AnalysisContext): Promise<PackageData | undefined> {
+  const detected = await detectPackages(context)
+  if (!detected) return undefined
+  return calculatePackageStats(context, detected.source, detected.roots)
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { evaluateQualityGates, formatQualityGateTable } from './quality-gate-calculator.js'
+import { CommitDataBuilder, FileChangeBuilder } from '../test/builders.js'
+import { TEST_CONFIG } from '../test/test-config.js'
+import type { ProcessedData } from './unified-pipeline.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+
+const NO_GATES: SimplifiedConfig['qualityGates'] = {
+  minTestRatio: null,
+  maxFileComplexity: null,
+  maxCommitLinesAdded: null,
+  minBusFactor: null
+}
+
+function createPipelineData(overrides: Partial<ProcessedData> = {}): ProcessedData {
+  return {
+    commits: [
+      new CommitDataBuilder().withHash('aaaaaaa111').withFileChange(new FileChangeBuilder().withAdditions(120).build()).build(),
+      new CommitDataBuilder().withHash('bbbbbbb222').withFileChange(new FileChangeBuilder().withAdditions(40).build()).build()
+    ],
+    timeSeries: [{ cumulativeLines: { total: 130, application: 100, test: 30, build: 0, documentation: 0, other: 0 } }],
+    topFilesData: { largest: [], mostChurn: [], mostComplex: [{ fileName: 'src/big.ts', value: 42, percentage: 100 }] },
+    ownership: { busFactor: 1 },
+    ...overrides
+  } as unknown as ProcessedData
+}
+
+function createContext(gates: SimplifiedConfig['qualityGates'], ignoredRevisions?: Set<string>): AnalysisContext {
+  return {
+    repoPath: '/fake/repo',
+    repoName: 'test-repo',
+    isLizardInstalled: false,
+    currentFiles: new Set<string>(),
+    commits: [],
+    ...(ignoredRevisions && { ignoredRevisions }),
+    config: { ...TEST_CONFIG, qualityGates: gates }
+  }
+}
+
+describe('evaluateQualityGates', () => {
+  it('leaves out gates without a threshold', () => {
+    expect(evaluateQualityGates(createPipelineData(), createContext(NO_GATES))).toEqual([])
+  })
+
+  it('passes and fails each gate against its threshold', () => {
+    const results = evaluateQualityGates(createPipelineData(), createContext({
+      minTestRatio: 0.25,
+      maxFileComplexity: 40,
+      maxCommitLinesAdded: 200,
+      minBusFactor: 2
+    }))
+
+    expect(results).toEqual([
+      { gate: 'Test ratio', comparison: 'min', threshold: 0.25, actual: 0.3, status: 'pass' },
+      { gate: 'File complexity', comparison: 'max', threshold: 40, actual: 42, status: 'fail', detail: 'src/big.ts' },
+      { gate: 'Commit lines added', comparison: 'max', threshold: 200, actual: 120, status: 'pass', detail: 'aaaaaaa' },
+      { gate: 'Bus factor', comparison: 'min', threshold: 2, actual: 1, status: 'fail' }
+    ])
+  })
+
+  it('skips gates whose measurement is unavailable', () => {
+    const pipelineData = createPipelineData({
+      timeSeries: [],
+      topFilesData: { largest: [], mostChurn: [], mostComplex: [] }
+    })
+    delete pipelineData.ownership
+
+    const results = evaluateQualityGates(pipelineData, createContext({ ...NO_GATES, minTestRatio: 0.5, maxFileComplexity: 10, minBusFactor: 2 }))
+
+    expect(results.map(result => result.status)).toEqual(['skip', 'skip', 'skip'])
+  })
+
+  it('leaves merges and ignored revisions out of the commit size gate', () => {
+    const pipelineData = createPipelineData()
+    pipelineData.commits.push(
+      new CommitDataBuilder().withHash('ccccccc333').withMessage('Merge pull request #12 from team/feature').withFileChange(new FileChangeBuilder().withAdditions(5000).build()).build(),
+      new CommitDataBuilder().withHash('ddddddd444').withMessage('Reformat with prettier').withFileChange(new FileChangeBuilder().withAdditions(3000).build()).build()
+    )
+
+    const results = evaluateQualityGates(pipelineData, createContext({ ...NO_GATES, maxCommitLinesAdded: 200 }, new Set(['ddddddd444'])))
+
+    expect(results).toEqual([
+      { gate: 'Commit lines added', comparison: 'max', threshold: 200, actual: 120, status: 'pass', detail: 'aaaaaaa' }
+    ])
+  })
+})
+
+describe('formatQualityGateTable', () => {
+  it('aligns the columns', () => {
+    const table = formatQualityGateTable([
+      { gate: 'Test ratio', comparison: 'min', threshold: 0.25, actual: 0.3, status: 'pass' },
+      { gate: 'Bus factor', comparison: 'min', threshold: 2, actual: null, status: 'skip' }
+    ])
+
+    expect(table.split('\n')).toEqual([
+      'Gate        Threshold  Actual  Result  Detail',
+      'Test ratio  >= 0.25    0.30    PASS',
+      'Bus factor  >= 2       n/a     SKIP'
+    ])
+  })
+})
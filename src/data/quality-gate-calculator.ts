@@ -0,0 +1,66 @@
+import { isRealCommit } from '../utils/commit-filters.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type { ProcessedData } from './unified-pipeline.js'
+import type { QualityGateResult } from './types.js'
+
+/**
+ * Check the measured repository against the configured thresholds. Gates
+ * without a threshold are left out; gates whose measurement is unavailable
+ * (no application code, no complexity or ownership data) are skipped, not failed.
+ * Merges and ignored revisions are left out of the commit size gate, as they
+ * are from awards and commit sizes.
+ */
+export function evaluateQualityGates(pipelineData: ProcessedData, context: AnalysisContext): QualityGateResult[] {
+  const { commits, timeSeries, topFilesData, ownership } = pipelineData
+  const { config, ignoredRevisions } = context
+  const gates = config.qualityGates
+  const results: QualityGateResult[] = []
+
+  const check = (gate: string, comparison: 'min' | 'max', threshold: number | null, actual: number | null, detail?: string) => {
+    if (threshold === null) return
+    const passes = (value: number) => comparison === 'min' ? value >= threshold : value <= threshold
+    results.push({
+      gate,
+      comparison,
+      threshold,
+      actual,
+      status: actual === null ? 'skip' : passes(actual) ? 'pass' : 'fail',
+      ...(detail ? { detail } : {})
+    })
+  }
+
+  const lines = timeSeries[timeSeries.length - 1]?.cumulativeLines
+  check('Test ratio', 'min', gates.minTestRatio, lines && lines.application > 0 ? lines.test / lines.application : null)
+
+  const mostComplex = topFilesData?.mostComplex[0]
+  check('File complexity', 'max', gates.maxFileComplexity, mostComplex?.value ?? null, mostComplex?.fileName)
+
+  const largestCommit = commits
+    .filter(commit => isRealCommit(commit, config) && !ignoredRevisions?.has(commit.sha))
+    .sort((a, b) => b.linesAdded - a.linesAdded)[0]
+  check('Commit lines added', 'max', gates.maxCommitLinesAdded, largestCommit?.linesAdded ?? null, largestCommit?.sha.slice(0, 7))
+
+  check('Bus factor', 'min', gates.minBusFactor, ownership?.busFactor ?? null)
+
+  return results
+}
+
+/**
+ * Plain-text table for CI logs
+ */
+export function formatQualityGateTable(results: QualityGateResult[]): string {
+  const format = (value: number | null) => value === null ? 'n/a' : Number.isInteger(value) ? String(value) : value.toFixed(2)
+  const rows = [
+    ['Gate', 'Threshold', 'Actual', 'Result', 'Detail'],
+    ...results.map(result => [
+      result.gate,
+      `${result.comparison === 'min' ? '>=' : '<='} ${format(result.threshold)}`,
+      format(result.actual),
+      result.status.toUpperCase(),
+      result.detail ?? ''
+    ])
+  ]
+  const widths = rows[0]!.map((_, column) => Math.max(...rows.map(row => row[column]!.length)))
+
+  return rows.map(row => row.map((cell, column) => cell.padEnd(widths[column]!)).join('  ').trimEnd()).join('\n')
+}
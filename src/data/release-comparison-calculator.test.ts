@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { calculateReleaseComparison } from './release-comparison-calculator.js'
+import { createTestCommit, FileChangeBuilder } from '../test/builders.js'
+import { TEST_CONFIG } from '../test/test-config.js'
+import type { CommitData } from '../git/parser.js'
+import type { AnalysisContext } from '../report/generator.js'
+
+function createContext(commits: CommitData[]): AnalysisContext {
+  return {
+    repoPath: '/tmp/test-repo',
+    repoName: 'test-repo',
+    isLizardInstalled: false,
+    currentFiles: new Set(),
+    commits,
+    config: TEST_CONFIG
+  }
+}
+
+describe('calculateReleaseComparison', () => {
+  const commits = [
+    createTestCommit({
+      sha: 'a1',
+      authorName: 'Alice',
+      date: '2024-03-01T10:00:00Z',
+      filesChanged: [
+        new FileChangeBuilder().withPath('src/app.ts').withFileType('TypeScript').withAdditions(40).withDeletions(10).build(),
+        new FileChangeBuilder().withPath('src/app.test.ts').withFileType('TypeScript').withAdditions(25).build()
+      ]
+    }),
+    createTestCommit({
+      sha: 'b2',
+      authorName: 'Bob',
+      date: '2024-03-05T10:00:00Z',
+      filesChanged: [
+        new FileChangeBuilder().withPath('src/app.ts').withFileType('TypeScript').withAdditions(5).withDeletions(20).build(),
+        new FileChangeBuilder().withPath('README.md').withFileType('Markdown').withAdditions(3).withDeletions(1).build(),
+        new FileChangeBuilder().withPath('logo.png').withFileType('Binary').withAdditions(0, 2048).build()
+      ]
+    }),
+    createTestCommit({
+      sha: 'c3',
+      authorName: 'Alice',
+      date: '2024-03-09T10:00:00Z',
+      filesChanged: [
+        new FileChangeBuilder().withPath('src/app.test.ts').withFileType('TypeScript').withAdditions(2).withDeletions(2).build()
+      ]
+    })
+  ]
+
+  it('summarizes commits, files and lines per category', () => {
+    const result = calculateReleaseComparison(createContext(commits), 'v1.0', 'v1.1', new Set(['Alice']))
+
+    expect(result.from).toBe('v1.0')
+    expect(result.to).toBe('v1.1')
+    expect(result.commits).toBe(3)
+    expect(result.firstCommitDate).toBe('2024-03-01T10:00:00Z')
+    expect(result.lastCommitDate).toBe('2024-03-09T10:00:00Z')
+    expect(result.filesTouched).toBe(4)
+    expect(result.filesByCategory).toEqual({ total: 4, application: 1, test: 1, build: 0, documentation: 1, other: 1 })
+    expect(result.linesAdded).toEqual({ total: 75, application: 45, test: 27, build: 0, documentation: 3, other: 0 })
+    expect(result.linesDeleted).toEqual({ total: 33, application: 30, test: 2, build: 0, documentation: 1, other: 0 })
+    expect(result.netLines).toEqual({ total: 42, application: 15, test: 25, build: 0, documentation: 2, other: 0 })
+  })
+
+  it('separates new and returning contributors', () => {
+    const result = calculateReleaseComparison(createContext(commits), 'v1.0', 'v1.1', new Set(['Alice']))
+
+    expect(result.contributors.map(c => [c.name, c.commits, c.isNew])).toEqual([
+      ['Alice', 2, false],
+      ['Bob', 1, true]
+    ])
+    expect(result.newContributors).toBe(1)
+    expect(result.returningContributors).toBe(1)
+  })
+
+  it('ranks files and file types by churn', () => {
+    const result = calculateReleaseComparison(createContext(commits), 'v1.0', 'v1.1', new Set())
+
+    expect(result.topChurnFiles.map(f => [f.fileName, f.commits, f.linesAdded, f.linesDeleted])).toEqual([
+      ['src/app.ts', 2, 45, 30],
+      ['src/app.test.ts', 2, 27, 2],
+      ['README.md', 1, 3, 1],
+      ['logo.png', 1, 0, 0]
+    ])
+    expect(result.fileTypes.map(t => [t.fileType, t.files])).toEqual([
+      ['TypeScript', 2],
+      ['Markdown', 1],
+      ['Binary', 1]
+    ])
+  })
+
+  it('handles a range without commits', () => {
+    const result = calculateReleaseComparison(createContext([]), 'v1.0', 'v1.0', new Set())
+
+    expect(result.commits).toBe(0)
+    expect(result.contributors).toEqual([])
+    expect(result.firstCommitDate).toBeNull()
+    expect(result.netLines.total).toBe(0)
+  })
+})
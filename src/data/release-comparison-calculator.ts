@@ -0,0 +1,111 @@
+import { getContributorStats } from './contributor-calculator.js'
+import { getFileCategory, type FileCategory } from '../utils/file-categories.js'
+import type { AnalysisContext } from '../report/generator.js'
+import type {
+  CategoryBreakdown,
+  ReleaseComparisonData,
+  ReleaseContributor,
+  ReleaseFileChange,
+  ReleaseFileTypeChange
+} from './types.js'
+
+const MAX_CHURN_FILES = 20
+
+function createEmptyBreakdown(): CategoryBreakdown {
+  return {
+    total: 0,
+    application: 0,
+    test: 0,
+    build: 0,
+    documentation: 0,
+    other: 0
+  }
+}
+
+function addToBreakdown(breakdown: CategoryBreakdown, category: FileCategory, value: number): void {
+  breakdown.total += value
+  breakdown[category.toLowerCase() as keyof Omit<CategoryBreakdown, 'total'>] += value
+}
+
+/**
+ * Summarize the commits of a release range (`from..to`). Contributors with no
+ * commits before the range are counted as new.
+ */
+export function calculateReleaseComparison(
+  context: AnalysisContext,
+  from: string,
+  to: string,
+  previousContributors: Set<string>
+): ReleaseComparisonData {
+  const { commits, config } = context
+
+  const contributors: ReleaseContributor[] = commits.length > 0
+    ? getContributorStats(context).map(stats => ({ ...stats, isNew: !previousContributors.has(stats.name) }))
+    : []
+
+  const linesAdded = createEmptyBreakdown()
+  const linesDeleted = createEmptyBreakdown()
+  const filesByCategory = createEmptyBreakdown()
+  const files = new Map<string, ReleaseFileChange>()
+  const fileTypes = new Map<string, ReleaseFileTypeChange & { fileNames: Set<string> }>()
+
+  for (const commit of commits) {
+    for (const fileChange of commit.filesChanged) {
+      const category = getFileCategory(fileChange.fileName, config)
+
+      let file = files.get(fileChange.fileName)
+      if (!file) {
+        file = { fileName: fileChange.fileName, fileType: fileChange.fileType, commits: 0, linesAdded: 0, linesDeleted: 0 }
+        files.set(fileChange.fileName, file)
+        addToBreakdown(filesByCategory, category, 1)
+      }
+      file.commits++
+
+      const fileType = fileTypes.get(fileChange.fileType) ?? { fileType: fileChange.fileType, files: 0, linesAdded: 0, linesDeleted: 0, fileNames: new Set<string>() }
+      fileType.fileNames.add(fileChange.fileName)
+      fileTypes.set(fileChange.fileType, fileType)
+
+      // Binary files have no meaningful line counts
+      if (fileChange.fileType === 'Binary') continue
+
+      file.linesAdded += fileChange.linesAdded
+      file.linesDeleted += fileChange.linesDeleted
+      fileType.linesAdded += fileChange.linesAdded
+      fileType.linesDeleted += fileChange.linesDeleted
+      addToBreakdown(linesAdded, category, fileChange.linesAdded)
+      addToBreakdown(linesDeleted, category, fileChange.linesDeleted)
+    }
+  }
+
+  const netLines = createEmptyBreakdown()
+  for (const key of Object.keys(netLines) as Array<keyof CategoryBreakdown>) {
+    netLines[key] = linesAdded[key] - linesDeleted[key]
+  }
+
+  const byChurn = <T extends { linesAdded: number; linesDeleted: number }>(a: T, b: T) =>
+    (b.linesAdded + b.linesDeleted) - (a.linesAdded + a.linesDeleted)
+
+  const newContributors = contributors.filter(contributor => contributor.isNew).length
+
+  return {
+    from,
+    to,
+    commits: commits.length,
+    firstCommitDate: commits[0]?.date ?? null,
+    lastCommitDate: commits[commits.length - 1]?.date ?? null,
+    contributors,
+    newContributors,
+    returningContributors: contributors.length - newContributors,
+    filesTouched: files.size,
+    filesByCategory,
+    linesAdded,
+    linesDeleted,
+    netLines,
+    fileTypes: Array.from(fileTypes.values())
+      .map(({ fileNames, ...fileType }) => ({ ...fileType, files: fileNames.size }))
+      .sort((a, b) => byChurn(a, b) || b.files - a.files || a.fileType.localeCompare(b.fileType)),
+    topChurnFiles: Array.from(files.values())
+      .sort((a, b) => byChurn(a, b) || b.commits - a.commits || a.fileName.localeCompare(b.fileName))
+      .slice(0, MAX_CHURN_FILES)
+  }
+}
@@ -1,5 +1,5 @@
 import type { CommitData } from '../git/parser.js'
-import { analyzeRepositoryComplexity } from './lizard-complexity-analyzer.js'
+import { analyzeComplexity } from './complexity-analyzer.js'
 import type { AnalysisContext } from '../report/generator.js'
 import type { TopFileStats, TopFilesData } from './types.js'
 
@@ -69,25 +69,28 @@ export function getTopFilesByChurn(commits: CommitData[], currentFiles?: Set<str
   }))
 }
 
-export async function getTopFilesByComplexity(repoPath: string, currentFiles?: Set<string>): Promise<TopFileStats[]> {
-  if (!currentFiles || currentFiles.size === 0) {
-    return []
+/**
+ * Complexity of files that still exist. Measured once per run and shared by the
+ * top files and hotspot rankings.
+ */
+export async function getCurrentFileComplexity(context: AnalysisContext): Promise<Map<string, number>> {
+  const { repoPath, currentFiles, commits, config } = context
+  const newestCommit = commits[commits.length - 1]
+  if (!currentFiles || currentFiles.size === 0 || !newestCommit) {
+    return new Map()
   }
   
-  // Analyze entire repository with lizard
-  const complexityMap = await analyzeRepositoryComplexity(repoPath)
-  
-  if (complexityMap.size === 0) {
-    return []
-  }
+  // Analyze entire repository with lizard or the built-in analyzer
+  const complexityMap = await analyzeComplexity(repoPath, newestCommit.sha, currentFiles, config.complexity.analyzer)
   
   // Filter to only include files that currently exist
-  const existingFiles = Array.from(complexityMap.entries())
-    .filter(([fileName]) => currentFiles.has(fileName))
-    .map(([fileName, complexity]) => ({ fileName, complexity }))
-  
+  return new Map(Array.from(complexityMap.entries()).filter(([fileName]) => currentFiles.has(fileName)))
+}
+
+export function getTopFilesByComplexity(complexityMap: Map<string, number>): TopFileStats[] {
   // Sort by complexity descending and take top 20 (to ensure all file types are represented)
-  const topFiles = existingFiles
+  const topFiles = Array.from(complexityMap.entries())
+    .map(([fileName, complexity]) => ({ fileName, complexity }))
     .sort((a, b) => b.complexity - a.complexity)
     .slice(0, 20)
   
@@ -100,19 +103,14 @@ export async function getTopFilesByComplexity(repoPath: string, currentFiles?: S
   }))
 }
 
-export async function getTopFilesStats(context: AnalysisContext): Promise<TopFilesData> {
-  const { commits, repoPath, currentFiles, config } = context
-  // Config will be used for filtering/customization in future updates
-  void config
-  const [largest, mostChurn, mostComplex] = await Promise.all([
-    Promise.resolve(getTopFilesBySize(commits, currentFiles)),
-    Promise.resolve(getTopFilesByChurn(commits, currentFiles)),
-    getTopFilesByComplexity(repoPath, currentFiles)
-  ])
+export async function getTopFilesStats(context: AnalysisContext, complexityMap?: Map<string, number>): Promise<TopFilesData> {
+  const { commits, ignoredRevisions, currentFiles } = context
+  const currentComplexity = complexityMap ?? await getCurrentFileComplexity(context)
   
   return {
-    largest,
-    mostChurn,
-    mostComplex
+    largest: getTopFilesBySize(commits, currentFiles),
+    // Ignored revisions still change file sizes, but their churn is not counted
+    mostChurn: getTopFilesByChurn(commits.filter(commit => !ignoredRevisions?.has(commit.sha)), currentFiles),
+    mostComplex: getTopFilesByComplexity(currentComplexity)
   }
-}
\ No newline at end of file
+}
@@ -72,6 +72,7 @@ export interface LinearSeriesPoint {
 export interface CommitAward {
   sha: string
   authorName: string
+  coAuthorNames?: string[]
   date: string
   message: string
   value: number
@@ -88,4 +89,302 @@ export interface TopFilesData {
   largest: TopFileStats[]
   mostChurn: TopFileStats[]
   mostComplex: TopFileStats[]
-}
\ No newline at end of file
+}
+
+// Ownership types
+export interface OwnerShare {
+  name: string
+  lines: number
+  percentage: number
+}
+
+export interface FileOwnership {
+  fileName: string
+  totalLines: number
+  source: 'blame' | 'churn' // churn share is the fallback when blame is unavailable
+  owners: OwnerShare[]
+}
+
+export interface DirectoryOwnership {
+  directory: string
+  totalLines: number
+  busFactor: number
+  owners: OwnerShare[]
+}
+
+export interface OwnershipData {
+  busFactor: number
+  totalLines: number
+  owners: OwnerShare[]
+  blamedFiles: number // Files measured with git blame
+  estimatedFiles: number // Files estimated from churn share
+  directories: DirectoryOwnership[]
+  files: FileOwnership[]
+}
+
+// Change coupling types
+export interface FileCoupling {
+  fileA: string
+  fileB: string
+  sharedCommits: number
+  support: number // shared commits / analyzed commits
+  confidence: number // shared commits / commits touching the less frequently changed file
+  crossDirectory: boolean
+}
+
+export interface CouplingData {
+  analyzedCommits: number
+  skippedCommits: number // commits over coupling.maxFilesPerCommit
+  pairs: FileCoupling[]
+}
+
+// Hotspot types
+export interface HotspotStats {
+  fileName: string
+  churn: number // lines added + deleted within the window
+  commits: number // commits within the window
+  complexity: number | null // null when ranked by size
+  linesOfCode: number
+  score: number // 0-1, normalized churn x normalized complexity (or size)
+}
+
+export interface HotspotData {
+  basis: 'complexity' | 'size' // size is used when no complexity data is available
+  windowDays: number
+  files: HotspotStats[]
+}
+
+// Complexity trend types
+export interface ComplexityTrendPoint {
+  sha: string
+  date: string
+  label: string // tag name, or short SHA when sampling commits
+  files: number
+  functions: number
+  totalComplexity: number
+  averageComplexity: number // per function
+  maxComplexity: number
+}
+
+export interface ComplexityTrendData {
+  sampleBy: 'commits' | 'tags'
+  points: ComplexityTrendPoint[]
+}
+
+// Milestone types
+export interface Milestone {
+  name: string
+  date: string // date of the tagged commit, so annotations line up with the series
+  commitSha: string
+  commitIndex: number // position in the analyzed commits
+  type: 'release' | 'tag' // annotated tags are treated as releases
+  message?: string
+}
+
+// Release comparison types
+export interface ReleaseContributor extends ContributorStats {
+  isNew: boolean // no commits before the start of the range
+}
+
+export interface ReleaseFileTypeChange {
+  fileType: string
+  files: number
+  linesAdded: number
+  linesDeleted: number
+}
+
+export interface ReleaseFileChange {
+  fileName: string
+  fileType: string
+  commits: number
+  linesAdded: number
+  linesDeleted: number
+}
+
+export interface ReleaseComparisonData {
+  from: string
+  to: string
+  commits: number
+  firstCommitDate: string | null
+  lastCommitDate: string | null
+  contributors: ReleaseContributor[]
+  newContributors: number
+  returningContributors: number
+  filesTouched: number
+  filesByCategory: CategoryBreakdown // distinct files touched per category
+  linesAdded: CategoryBreakdown
+  linesDeleted: CategoryBreakdown
+  netLines: CategoryBreakdown
+  fileTypes: ReleaseFileTypeChange[]
+  topChurnFiles: ReleaseFileChange[]
+}
+
+// Quality gate types
+export interface QualityGateResult {
+  gate: string
+  comparison: 'min' | 'max' // min: actual must be at least the threshold; max: at most
+  threshold: number
+  actual: number | null // null when the measurement is unavailable
+  status: 'pass' | 'fail' | 'skip'
+  detail?: string // e.g. the file or commit responsible
+}
+
+// Snapshot history types
+export interface MetricsSnapshot {
+  sha: string // newest analyzed commit
+  commitDate: string
+  recordedAt: string // when the report was generated
+  commits: number
+  contributors: number
+  linesOfCode: CategoryBreakdown
+  averageComplexity: number | null // per function, when the complexity trend includes the newest commit
+  maxFileComplexity: number | null
+  busFactor: number | null
+  hotspots: Array<{ fileName: string; score: number }>
+}
+
+// Same shape as the trend of the v2 MetricData cards
+export interface MetricTrend {
+  value: number // percentage change, always positive
+  direction: 'up' | 'down'
+  label?: string
+}
+
+export interface HistoryData {
+  snapshots: MetricsSnapshot[] // oldest first, including this run
+  previous: MetricsSnapshot | null // the run before this one
+  trends: Partial<Record<'commits' | 'linesOfCode' | 'contributors' | 'averageComplexity' | 'busFactor', MetricTrend>>
+}
+
+// Multi-repository types
+export interface PortfolioRepository {
+  name: string
+  path: string
+  commits: number
+  contributors: number
+  linesOfCode: number // same headline metric as the single-repository report
+  firstCommitDate: string | null
+  lastCommitDate: string | null
+  growth: Array<{ date: string; lines: number }> // cumulative lines at the end of each active day
+}
+
+export interface PortfolioContributor extends ContributorStats {
+  repositories: string[] // names of the repositories they committed to
+}
+
+export interface PortfolioData {
+  name: string
+  repositories: PortfolioRepository[]
+  contributors: PortfolioContributor[] // identities merged across repositories
+  fileTypes: FileTypeStats[] // language mix across the whole portfolio
+  totalCommits: number
+  totalLinesOfCode: number
+}
+
+// Monorepo package types
+export interface PackageStats {
+  name: string // from package.json or Cargo.toml, otherwise the directory
+  path: string // directory relative to the repository root; '' for files outside every package
+  commits: number // commits touching the package
+  linesAdded: number
+  linesDeleted: number
+  linesOfCode: number // net lines, never negative
+  contributors: ContributorStats[]
+  fileTypes: FileTypeStats[]
+  topChurnFiles: Array<{ fileName: string; churn: number; commits: number }>
+}
+
+// The per-package counterpart of TimeSeriesPoint.cumulativeLines
+export interface PackageSeriesPoint {
+  date: string
+  cumulativeLines: Record<string, number> // keyed by package path
+}
+
+export interface PackageData {
+  source: 'pnpm' | 'npm' | 'cargo' | 'config'
+  packages: PackageStats[] // largest first
+  timeSeries: PackageSeriesPoint[]
+}
+
+// Commit size types
+export interface SizeBucket {
+  label: string
+  min: number
+  max: number // exclusive
+  count: number
+}
+
+export interface SizeDistribution {
+  buckets: SizeBucket[]
+  percentiles: { p50: number; p75: number; p90: number; p95: number; p99: number }
+  mean: number
+  max: number
+  outlierThreshold: number // sizes above this are outliers
+}
+
+export interface CommitSizeOutlier {
+  sha: string
+  authorName: string
+  date: string
+  message: string
+  lines: number // added + deleted
+  files: number
+  bytes: number | null // added + deleted, null without byte data
+  kind: 'vendored' | 'generated' | 'reformat' | 'large'
+  reason: string
+}
+
+export interface CommitSizeData {
+  analyzedCommits: number
+  lines: SizeDistribution
+  files: SizeDistribution
+  bytes: SizeDistribution | null // null when no commit has byte data
+  outliers: CommitSizeOutlier[] // largest first
+  ignoredShas: string[] // already in commitFilters.ignoreShas
+  ignoredRevs: string[] // already in commitFilters.ignoreRevs
+}
+
+// Commit type types
+export interface CommitTypeCount {
+  type: string
+  commits: number
+  percentage: number
+}
+
+export interface CommitTypePoint {
+  date: string // start of the day or month
+  counts: Record<string, number> // keyed by type
+}
+
+export interface ContributorCommitTypes {
+  name: string
+  commits: number
+  counts: Record<string, number> // keyed by type
+}
+
+export interface CommitTypeData {
+  conventionalPercentage: number // commits with a Conventional Commits header
+  breakingChanges: number
+  featFixRatio: number | null // null without fix commits
+  types: CommitTypeCount[] // most commits first
+  scopes: Array<{ scope: string; commits: number }>
+  granularity: 'day' | 'month'
+  timeSeries: CommitTypePoint[]
+  contributors: ContributorCommitTypes[] // most commits first
+}
+
+export interface IssueReference {
+  key: string // as written in the message, e.g. PROJ-123 or #456
+  commits: number
+  firstDate: string
+  lastDate: string
+  url: string | null
+}
+
+export interface IssueData {
+  commitsWithIssues: number
+  commitsWithoutIssues: number
+  percentageWithoutIssues: number
+  totalIssues: number // distinct keys
+  issues: IssueReference[] // most referenced first
+}
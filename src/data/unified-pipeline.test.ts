@@ -65,7 +65,11 @@ describe('DataPipeline', () => {
     expect(result).toHaveProperty('wordCloudData')
     expect(result).toHaveProperty('fileHeatData')
     expect(result).toHaveProperty('topFilesData')
+    expect(result).toHaveProperty('hotspots')
+    expect(result).toHaveProperty('complexityTrend')
     expect(result).toHaveProperty('awards')
+    expect(result).toHaveProperty('ownership')
+    expect(result).toHaveProperty('coupling')
     
     // Verify data integrity
     expect(result.commits).toEqual(commits)
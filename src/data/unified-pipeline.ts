@@ -6,7 +6,16 @@ import { getTimeSeriesData } from './time-series-transformer.js'
 import { getLinearSeriesData } from './linear-transformer.js'
 import { calculateBaselineCommitSize } from '../git/parser.js'
 import { processCommitMessages, type WordFrequency } from '../text/processor.js'
-import { getTopFilesStats } from './top-files-calculator.js'
+import { getTopFilesStats, getCurrentFileComplexity } from './top-files-calculator.js'
+import { getHotspotData } from './hotspot-calculator.js'
+import { getComplexityTrend } from './complexity-trend-calculator.js'
+import { getOwnershipData } from './ownership-calculator.js'
+import { getCouplingData } from './coupling-calculator.js'
+import { getMilestones } from './milestone-calculator.js'
+import { getPackageData } from './package-calculator.js'
+import { getCommitSizeData } from './commit-size-calculator.js'
+import { getCommitTypeData } from './commit-type-calculator.js'
+import { getIssueData } from './issue-calculator.js'
 import {
   getTopCommitsByFilesModified,
   getTopCommitsByBytesAdded,
@@ -21,7 +30,17 @@ import type {
   TimeSeriesPoint,
   LinearSeriesPoint,
   CommitAward,
-  TopFilesData
+  TopFilesData,
+  HotspotData,
+  ComplexityTrendData,
+  OwnershipData,
+  CouplingData,
+  Milestone,
+  PackageData,
+  CommitSizeData,
+  CommitTypeData,
+  IssueData,
+  HistoryData
 } from './types.js'
 
 export interface ProcessedData {
@@ -33,6 +52,16 @@ export interface ProcessedData {
   wordCloudData: WordFrequency[]
   fileHeatData: FileHeatData[]
   topFilesData?: TopFilesData
+  hotspots?: HotspotData
+  complexityTrend?: ComplexityTrendData
+  ownership?: OwnershipData
+  coupling?: CouplingData
+  milestones?: Milestone[]
+  packages?: PackageData // Only for monorepos with detected or configured packages
+  commitSizes?: CommitSizeData
+  commitTypes?: CommitTypeData
+  issues?: IssueData // Only when issue trackers are configured
+  history?: HistoryData // Only when history tracking is enabled, added after the pipeline runs
   awards?: {
     filesModified: CommitAward[]
     bytesAdded: CommitAward[]
@@ -59,6 +88,15 @@ export class DataPipeline {
    * - text/processor.ts
    * - award-calculator.ts
    * - top-files-calculator.ts
+   * - hotspot-calculator.ts
+   * - complexity-trend-calculator.ts
+   * - ownership-calculator.ts
+   * - coupling-calculator.ts
+   * - milestone-calculator.ts
+   * - package-calculator.ts
+   * - commit-size-calculator.ts
+   * - commit-type-calculator.ts
+   * - issue-calculator.ts
    */
   async processRepository(context: AnalysisContext): Promise<ProcessedData> {
     const { commits, progressReporter, config, repoPath } = context
@@ -94,7 +132,33 @@ export class DataPipeline {
     const fileHeatData = getFileHeatData(context)
     
     progressReporter?.report('Calculating top files and awards')
-    const topFilesData = await getTopFilesStats(context)
+    const complexityMap = await getCurrentFileComplexity(context)
+    const topFilesData = await getTopFilesStats(context, complexityMap)
+    const hotspots = getHotspotData(context, complexityMap)
+    
+    progressReporter?.report('Measuring complexity trend')
+    const complexityTrend = await getComplexityTrend(context)
+    
+    progressReporter?.report('Calculating code ownership and bus factor')
+    const ownership = await getOwnershipData(context)
+    
+    progressReporter?.report('Calculating change coupling')
+    const coupling = getCouplingData(context)
+    
+    progressReporter?.report('Reading release tags')
+    const milestones = await getMilestones(context)
+    
+    progressReporter?.report('Detecting workspace packages')
+    const packages = await getPackageData(context)
+    
+    progressReporter?.report('Measuring commit sizes')
+    const commitSizes = getCommitSizeData(context)
+    
+    progressReporter?.report('Breaking commits down by type')
+    const commitTypes = getCommitTypeData(context)
+    
+    progressReporter?.report('Collecting issue references')
+    const issues = getIssueData(context)
     
     // Awards calculation
     const awards = {
@@ -118,6 +182,15 @@ export class DataPipeline {
       wordCloudData,
       fileHeatData,
       topFilesData,
+      hotspots,
+      complexityTrend,
+      ownership,
+      coupling,
+      milestones,
+      ...(packages && { packages }),
+      ...(commitSizes && { commitSizes }),
+      ...(commitTypes && { commitTypes }),
+      ...(issues && { issues }),
       awards
     }
   }
@@ -0,0 +1,41 @@
+import { simpleGit } from 'simple-git'
+import { parseCoAuthors } from '../data/git-extractor.js'
+import { GitParseError, formatError } from '../utils/errors.js'
+import type { CommitData } from './parser.js'
+
+/**
+ * Authors and co-authors of every commit reachable from `revision`, without diff
+ * statistics. The commits carry no file changes; they only exist so identities can
+ * be resolved together with fully parsed commits.
+ */
+export async function getCommitAuthors(repoPath: string, revision: string): Promise<CommitData[]> {
+  let output: string
+  try {
+    output = await simpleGit(repoPath).raw(['log', '--format=%H%x00%an%x00%ae%x00%aI%x00%b%x1e', revision, '--'])
+  } catch (error) {
+    throw new GitParseError(`Failed to list authors of ${revision}: ${formatError(error)}`, error instanceof Error ? error : undefined)
+  }
+
+  const commits: CommitData[] = []
+  for (const record of output.split('\x1e')) {
+    const [sha = '', authorName = '', authorEmail = '', date = '', body = ''] = record.replace(/^\n/, '').split('\0')
+    if (!sha) continue
+
+    const coAuthors = parseCoAuthors(body)
+      .filter(coAuthor => coAuthor.email.toLowerCase() !== authorEmail.toLowerCase())
+
+    commits.push({
+      sha,
+      authorName,
+      authorEmail,
+      date,
+      message: '',
+      linesAdded: 0,
+      linesDeleted: 0,
+      filesChanged: [],
+      ...(coAuthors.length > 0 && { coAuthors })
+    })
+  }
+
+  return commits
+}
@@ -0,0 +1,65 @@
+import { simpleGit } from 'simple-git'
+import { GitParseError, formatError } from '../utils/errors.js'
+
+export interface BlameAuthor {
+  name: string
+  email: string
+}
+
+export interface BlameResult {
+  totalLines: number
+  linesByCommit: Map<string, number>
+  authorsByCommit: Map<string, BlameAuthor>
+}
+
+/**
+ * Parse `git blame --porcelain` output into surviving line counts per commit.
+ * Author details are only printed the first time a commit appears, so they are
+ * collected separately and keyed by commit SHA.
+ */
+export function parseBlamePorcelain(output: string): BlameResult {
+  const linesByCommit = new Map<string, number>()
+  const authorsByCommit = new Map<string, BlameAuthor>()
+  let totalLines = 0
+  let currentSha = ''
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('\t')) {
+      linesByCommit.set(currentSha, (linesByCommit.get(currentSha) ?? 0) + 1)
+      totalLines++
+      continue
+    }
+
+    const header = line.match(/^([0-9a-f]{40}) \d+ \d+/)
+    if (header?.[1]) {
+      currentSha = header[1]
+      continue
+    }
+
+    if (line.startsWith('author ')) {
+      const author = authorsByCommit.get(currentSha) ?? { name: '', email: '' }
+      author.name = line.slice('author '.length)
+      authorsByCommit.set(currentSha, author)
+    } else if (line.startsWith('author-mail ')) {
+      const author = authorsByCommit.get(currentSha) ?? { name: '', email: '' }
+      author.email = line.slice('author-mail '.length).replace(/^<|>$/g, '')
+      authorsByCommit.set(currentSha, author)
+    }
+  }
+
+  return { totalLines, linesByCommit, authorsByCommit }
+}
+
+/**
+ * Lines from `ignoreRevs` are attributed to the commit that last touched them before
+ */
+export async function blameFile(repoPath: string, ref: string, fileName: string, ignoreRevs: string[] = []): Promise<BlameResult> {
+  const git = simpleGit(repoPath)
+
+  try {
+    const output = await git.raw(['blame', '--porcelain', ...ignoreRevs.flatMap(sha => ['--ignore-rev', sha]), ref, '--', fileName])
+    return parseBlamePorcelain(output)
+  } catch (error) {
+    throw new GitParseError(`Failed to blame ${fileName}: ${formatError(error)}`, error instanceof Error ? error : undefined)
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { BlobContentReader } from './blob-content-reader.js'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+
+describe('BlobContentReader', () => {
+  let testRepoPath: string
+  let textBlob: string
+  let emptyBlob: string
+  let largeBlob: string
+  
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-blob-content-test-'))
+    execSync('git init', { cwd: testRepoPath })
+    execSync('git config user.name "Test User"', { cwd: testRepoPath })
+    execSync('git config user.email "test@example.com"', { cwd: testRepoPath })
+    
+    writeFileSync(join(testRepoPath, 'text.txt'), 'line one\nline two\n')
+    writeFileSync(join(testRepoPath, 'empty.txt'), '')
+    writeFileSync(join(testRepoPath, 'large.txt'), 'x'.repeat(200000))
+    execSync('git add .', { cwd: testRepoPath })
+    execSync('git commit -m "Add files"', { cwd: testRepoPath })
+    
+    textBlob = execSync('git rev-parse HEAD:text.txt', { cwd: testRepoPath }).toString().trim()
+    emptyBlob = execSync('git rev-parse HEAD:empty.txt', { cwd: testRepoPath }).toString().trim()
+    largeBlob = execSync('git rev-parse HEAD:large.txt', { cwd: testRepoPath }).toString().trim()
+  })
+  
+  afterAll(() => {
+    if (testRepoPath) {
+      rmSync(testRepoPath, { recursive: true, force: true })
+    }
+  })
+  
+  it('returns the content of each requested blob', async () => {
+    const reader = new BlobContentReader(testRepoPath)
+    try {
+      const contents = await reader.getContents([textBlob, emptyBlob, largeBlob])
+      
+      expect(contents.get(textBlob)?.toString()).toBe('line one\nline two\n')
+      expect(contents.get(emptyBlob)?.length).toBe(0)
+      expect(contents.get(largeBlob)?.length).toBe(200000)
+    } finally {
+      await reader.close()
+    }
+  })
+  
+  it('leaves out missing blobs and keeps later responses aligned', async () => {
+    const reader = new BlobContentReader(testRepoPath)
+    try {
+      const missing = '1'.repeat(40)
+      const contents = await reader.getContents([missing, textBlob])
+      
+      expect(contents.has(missing)).toBe(false)
+      expect(contents.get(textBlob)?.toString()).toBe('line one\nline two\n')
+      expect((await reader.getContents([largeBlob])).get(largeBlob)?.length).toBe(200000)
+    } finally {
+      await reader.close()
+    }
+  })
+})
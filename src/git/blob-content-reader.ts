@@ -0,0 +1,117 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process'
+import { GitParseError } from '../utils/errors.js'
+
+/**
+ * Reads blob contents straight from the object database through one long-lived
+ * `git cat-file --batch` process, so historical file versions can be inspected
+ * without checking anything out.
+ */
+export class BlobContentReader {
+  private process: ChildProcessWithoutNullStreams
+  private pending: Array<{ resolve: (content: Buffer | null) => void; reject: (error: Error) => void }> = []
+  private buffer = Buffer.alloc(0)
+  private failure: Error | null = null
+  private stderr = ''
+
+  constructor(repoPath: string) {
+    this.process = spawn('git', ['cat-file', '--batch'], { cwd: repoPath })
+
+    this.process.stdout.on('data', (chunk: Buffer) => {
+      this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk
+      this.drain()
+    })
+
+    this.process.stderr.on('data', chunk => {
+      this.stderr += chunk.toString()
+    })
+    this.process.on('error', error => {
+      this.fail(new GitParseError(`Failed to start git cat-file: ${error.message}`, error))
+    })
+    this.process.on('close', () => {
+      this.fail(new GitParseError(`git cat-file exited unexpectedly${this.stderr ? `: ${this.stderr.trim()}` : ''}`))
+    })
+  }
+
+  async getContents(blobs: string[]): Promise<Map<string, Buffer>> {
+    const contents = new Map<string, Buffer>()
+    const uniqueBlobs = [...new Set(blobs)]
+    if (uniqueBlobs.length === 0) {
+      return contents
+    }
+
+    if (this.failure) {
+      throw this.failure
+    }
+
+    // Queue every request before writing so responses are matched in order
+    const responses = uniqueBlobs.map(() => new Promise<Buffer | null>((resolve, reject) => {
+      this.pending.push({ resolve, reject })
+    }))
+    this.process.stdin.write(uniqueBlobs.map(blob => `${blob}\n`).join(''))
+
+    const results = await Promise.all(responses)
+    uniqueBlobs.forEach((blob, index) => {
+      // Missing blobs (e.g. in shallow clones) are left out
+      const content = results[index]
+      if (content) {
+        contents.set(blob, content)
+      }
+    })
+
+    return contents
+  }
+
+  async close(): Promise<void> {
+    if (this.process.exitCode !== null || this.failure) {
+      return
+    }
+
+    const closed = new Promise<void>(resolve => this.process.once('close', () => resolve()))
+    this.process.stdin.end()
+    await closed
+  }
+
+  /**
+   * Each response is `<sha> <type> <size>\n<content>\n`, or `<name> missing\n`
+   */
+  private drain(): void {
+    while (this.pending.length > 0) {
+      const headerEnd = this.buffer.indexOf(10)
+      if (headerEnd === -1) {
+        return
+      }
+
+      const header = this.buffer.subarray(0, headerEnd).toString()
+      if (header.endsWith(' missing')) {
+        this.buffer = this.buffer.subarray(headerEnd + 1)
+        this.pending.shift()?.resolve(null)
+        continue
+      }
+
+      const size = parseInt(header.split(' ')[2] ?? '', 10)
+      if (isNaN(size)) {
+        this.fail(new GitParseError(`Unexpected git cat-file output: ${header}`))
+        return
+      }
+
+      const contentEnd = headerEnd + 1 + size
+      if (this.buffer.length < contentEnd + 1) {
+        return
+      }
+
+      const content = Buffer.from(this.buffer.subarray(headerEnd + 1, contentEnd))
+      this.buffer = this.buffer.subarray(contentEnd + 1)
+      this.pending.shift()?.resolve(content)
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) {
+      return
+    }
+    this.failure = error
+    for (const request of this.pending.splice(0)) {
+      request.reject(error)
+    }
+  }
+}
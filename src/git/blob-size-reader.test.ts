@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { BlobSizeReader } from './blob-size-reader.js'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+
+describe('BlobSizeReader', () => {
+  let testRepoPath: string
+  let smallBlob: string
+  let largeBlob: string
+  
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-blob-test-'))
+    execSync('git init', { cwd: testRepoPath })
+    execSync('git config user.name "Test User"', { cwd: testRepoPath })
+    execSync('git config user.email "test@example.com"', { cwd: testRepoPath })
+    
+    writeFileSync(join(testRepoPath, 'small.txt'), 'hello\n')
+    writeFileSync(join(testRepoPath, 'large.txt'), 'x'.repeat(1234))
+    execSync('git add .', { cwd: testRepoPath })
+    execSync('git commit -m "Add files"', { cwd: testRepoPath })
+    
+    smallBlob = execSync('git rev-parse HEAD:small.txt', { cwd: testRepoPath }).toString().trim()
+    largeBlob = execSync('git rev-parse HEAD:large.txt', { cwd: testRepoPath }).toString().trim()
+  })
+  
+  afterAll(() => {
+    if (testRepoPath) {
+      rmSync(testRepoPath, { recursive: true, force: true })
+    }
+  })
+  
+  it('returns the size of each requested blob', async () => {
+    const reader = new BlobSizeReader(testRepoPath)
+    try {
+      const sizes = await reader.getSizes([smallBlob, largeBlob])
+      
+      expect(sizes.get(smallBlob)).toBe(6)
+      expect(sizes.get(largeBlob)).toBe(1234)
+    } finally {
+      await reader.close()
+    }
+  })
+  
+  it('reuses the same process across lookups', async () => {
+    const reader = new BlobSizeReader(testRepoPath)
+    try {
+      expect((await reader.getSizes([largeBlob])).get(largeBlob)).toBe(1234)
+      expect((await reader.getSizes([smallBlob, smallBlob])).get(smallBlob)).toBe(6)
+    } finally {
+      await reader.close()
+    }
+  })
+  
+  it('reports missing blobs as zero bytes', async () => {
+    const reader = new BlobSizeReader(testRepoPath)
+    try {
+      const missing = '1'.repeat(40)
+      const sizes = await reader.getSizes([missing, smallBlob])
+      
+      expect(sizes.get(missing)).toBe(0)
+      expect(sizes.get(smallBlob)).toBe(6)
+    } finally {
+      await reader.close()
+    }
+  })
+})
@@ -0,0 +1,80 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process'
+import { createInterface } from 'readline'
+import { GitParseError } from '../utils/errors.js'
+
+/**
+ * Looks up blob sizes through one long-lived `git cat-file --batch-check` process,
+ * instead of spawning `git cat-file -s` for every blob.
+ */
+export class BlobSizeReader {
+  private process: ChildProcessWithoutNullStreams
+  private pending: Array<{ resolve: (line: string) => void; reject: (error: Error) => void }> = []
+  private failure: Error | null = null
+  private stderr = ''
+
+  constructor(repoPath: string) {
+    this.process = spawn('git', ['cat-file', '--batch-check=%(objectsize)'], { cwd: repoPath })
+
+    const lines = createInterface({ input: this.process.stdout, crlfDelay: Infinity })
+    lines.on('line', line => {
+      this.pending.shift()?.resolve(line)
+    })
+
+    this.process.stderr.on('data', chunk => {
+      this.stderr += chunk.toString()
+    })
+    this.process.on('error', error => {
+      this.fail(new GitParseError(`Failed to start git cat-file: ${error.message}`, error))
+    })
+    this.process.on('close', () => {
+      this.fail(new GitParseError(`git cat-file exited unexpectedly${this.stderr ? `: ${this.stderr.trim()}` : ''}`))
+    })
+  }
+
+  async getSizes(blobs: string[]): Promise<Map<string, number>> {
+    const sizes = new Map<string, number>()
+    const uniqueBlobs = [...new Set(blobs)]
+    if (uniqueBlobs.length === 0) {
+      return sizes
+    }
+
+    if (this.failure) {
+      throw this.failure
+    }
+
+    // Queue every request before writing so responses are matched in order
+    const responses = uniqueBlobs.map(() => new Promise<string>((resolve, reject) => {
+      this.pending.push({ resolve, reject })
+    }))
+    this.process.stdin.write(uniqueBlobs.map(blob => `${blob}\n`).join(''))
+
+    const lines = await Promise.all(responses)
+    uniqueBlobs.forEach((blob, index) => {
+      // Missing blobs (e.g. in shallow clones) are reported as "<blob> missing"
+      const match = lines[index]?.match(/^(\d+)$/)
+      sizes.set(blob, match?.[1] ? parseInt(match[1], 10) : 0)
+    })
+
+    return sizes
+  }
+
+  async close(): Promise<void> {
+    if (this.process.exitCode !== null || this.failure) {
+      return
+    }
+
+    const closed = new Promise<void>(resolve => this.process.once('close', () => resolve()))
+    this.process.stdin.end()
+    await closed
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) {
+      return
+    }
+    this.failure = error
+    for (const request of this.pending.splice(0)) {
+      request.reject(error)
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { parseCommitHistory } from './parser.js'
+import { DEFAULT_CONFIG } from '../config/defaults.js'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+
+describe('Co-authored-by parsing', () => {
+  let testRepoPath: string
+  
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-test-'))
+    
+    execSync('git init', { cwd: testRepoPath })
+    execSync('git config user.name "Alice"', { cwd: testRepoPath })
+    execSync('git config user.email "alice@example.com"', { cwd: testRepoPath })
+    
+    writeFileSync(join(testRepoPath, 'solo.js'), 'const solo = 1\n')
+    execSync('git add solo.js', { cwd: testRepoPath })
+    execSync('git commit -m "Solo work"', { cwd: testRepoPath })
+    
+    // Body lines that look like raw and numstat output must not be mistaken for the diff
+    writeFileSync(join(testRepoPath, 'pair.js'), 'const a = 1\nconst b = 2\n')
+    writeFileSync(join(testRepoPath, 'message.txt'), [
+      'Pair on the feature',
+      '',
+      ':100644 100644 looks like raw output',
+      '10\t2\tlooks-like-numstat.js',
+      '',
+      'Co-authored-by: Bob <bob@example.com>',
+      'Co-authored-by: Carol <carol@example.com>'
+    ].join('\n'))
+    execSync('git add pair.js', { cwd: testRepoPath })
+    execSync('git commit -F message.txt', { cwd: testRepoPath })
+  })
+  
+  afterAll(() => {
+    if (testRepoPath) {
+      rmSync(testRepoPath, { recursive: true, force: true })
+    }
+  })
+  
+  it('should record co-authors from the commit body', async () => {
+    const commits = await parseCommitHistory(testRepoPath, undefined, undefined, { useCache: false }, DEFAULT_CONFIG)
+    
+    expect(commits).toHaveLength(2)
+    expect(commits[0]?.coAuthors).toBeUndefined()
+    expect(commits[1]?.message).toBe('Pair on the feature')
+    expect(commits[1]?.coAuthors).toEqual([
+      { name: 'Bob', email: 'bob@example.com' },
+      { name: 'Carol', email: 'carol@example.com' }
+    ])
+    expect(commits[1]?.filesChanged.map(f => f.fileName)).toEqual(['pair.js'])
+    expect(commits[1]?.linesAdded).toBe(2)
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { createTestCommit } from '../test/builders.js'
+import { parseCommitHistory } from './parser.js'
+import { createCommitClassifier, classifyCommits } from './commit-classifier.js'
+
+describe('createCommitClassifier', () => {
+  const classify = createCommitClassifier(TEST_CONFIG.commitTypes)
+
+  it('reads type and scope from a Conventional Commits header', () => {
+    expect(classify('feat(parser): support tags')).toEqual({ type: 'feat', scope: 'parser', breaking: false, source: 'conventional' })
+    expect(classify('Fix: handle empty files')).toEqual({ type: 'fix', scope: null, breaking: false, source: 'conventional' })
+  })
+
+  it('detects breaking changes from ! and the footer', () => {
+    expect(classify('refactor(api)!: drop v1 endpoints').breaking).toBe(true)
+    expect(classify('feat: new config format\n\nBREAKING CHANGE: old files are rejected').breaking).toBe(true)
+  })
+
+  it('falls back to the earliest keyword for other messages', () => {
+    expect(classify('Add tests for the bug in the parser')).toEqual({ type: 'feat', scope: null, breaking: false, source: 'keyword' })
+    expect(classify('Fixed crash when adding files').type).toBe('fix')
+    // Unknown conventional types are treated like any other message
+    expect(classify('wip: refactoring the loader').type).toBe('refactor')
+  })
+
+  it('matches keywords as whole words with their inflections', () => {
+    expect(classify('Resolved circular import').type).toBe('fix')
+    expect(classify('Update docker image').type).toBe('other')
+    expect(classify('Address review feedback').type).toBe('other')
+    expect(classify('Movement of the news ticker').type).toBe('other')
+    expect(classify('Created the export page').type).toBe('feat')
+    expect(classify('Simplified the loader').type).toBe('refactor')
+    expect(classify('Updating documentation').type).toBe('docs')
+  })
+
+  it('classifies unmatched messages as other', () => {
+    expect(classify('Initial commit')).toEqual({ type: 'other', scope: null, breaking: false, source: 'none' })
+  })
+
+  it('uses configured keywords', () => {
+    const custom = createCommitClassifier({ types: [], keywords: { fix: ['hotfix'] } })
+    expect(custom('HOTFIX login page').type).toBe('fix')
+    expect(custom('feat: something')).toMatchObject({ type: 'other', source: 'none' })
+  })
+})
+
+describe('classifyCommits', () => {
+  it('sets the classification on every commit', () => {
+    const [commit] = classifyCommits([createTestCommit({ message: 'docs: explain caching' })], TEST_CONFIG)
+    expect(commit!.classification?.type).toBe('docs')
+  })
+})
+
+describe('classifyCommits on parsed history', () => {
+  let testRepoPath: string
+
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-classify-'))
+    execSync('git init', { cwd: testRepoPath })
+    execSync('git config user.name "Alice"', { cwd: testRepoPath })
+    execSync('git config user.email "alice@example.com"', { cwd: testRepoPath })
+
+    writeFileSync(join(testRepoPath, 'config.js'), 'export const version = 1\n')
+    execSync('git add . && git commit -m "feat: config file"', { cwd: testRepoPath })
+    writeFileSync(join(testRepoPath, 'config.js'), 'export const version = 2\n')
+    writeFileSync(join(testRepoPath, 'message.txt'), 'feat: new format\n\nBREAKING CHANGE: old files rejected\n')
+    execSync('git add config.js && git commit -F message.txt', { cwd: testRepoPath })
+  })
+
+  afterAll(() => {
+    rmSync(testRepoPath, { recursive: true, force: true })
+  })
+
+  it('detects a BREAKING CHANGE footer in the commit body', async () => {
+    const commits = classifyCommits(await parseCommitHistory(testRepoPath, undefined, undefined, { useCache: false }, TEST_CONFIG), TEST_CONFIG)
+
+    expect(commits.map(commit => commit.message)).toEqual(['feat: config file', 'feat: new format'])
+    expect(commits.map(commit => commit.classification?.breaking)).toEqual([false, true])
+  })
+})
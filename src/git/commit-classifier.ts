@@ -0,0 +1,84 @@
+import type { CommitClassification, CommitData } from './parser.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+
+const OTHER_TYPE = 'other'
+
+// type(scope)!: description
+const CONVENTIONAL_HEADER = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*\S/
+const BREAKING_FOOTER = /^BREAKING[ -]CHANGE:/m
+
+/**
+ * Whether a commit body carries a `BREAKING CHANGE:` footer. Commit messages
+ * only keep the subject, so the parser records this while it has the body.
+ */
+export function hasBreakingChangeFooter(body: string): boolean {
+  return BREAKING_FOOTER.test(body)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Whole-word pattern for a keyword and its regular inflections, so "fix" also
+ * matches "fixes" and "fixed" but "ci" does not match "circular"
+ */
+function keywordPattern(word: string): RegExp {
+  const stem = escapeRegExp(word.slice(0, -1))
+  let forms = `${escapeRegExp(word)}(?:s|es|ed|ing)?`
+  if (/[^aeiou]y$/i.test(word)) {
+    // simplify, simplifies, simplified
+    forms += `|${stem}(?:ies|ied)`
+  } else if (/e$/i.test(word)) {
+    // create, created, creating
+    forms += `|${escapeRegExp(word)}d|${stem}ing`
+  }
+  return new RegExp(`\\b(?:${forms})\\b`, 'i')
+}
+
+/**
+ * Classify commit messages by their Conventional Commits header. Messages
+ * without a header of a known type fall back to the keyword that appears
+ * earliest in the subject.
+ */
+export function createCommitClassifier(settings: SimplifiedConfig['commitTypes']): (message: string, breakingChange?: boolean) => CommitClassification {
+  const keywords = Object.entries(settings.keywords).flatMap(([type, words]) =>
+    words.map(word => ({ type, pattern: keywordPattern(word) }))
+  )
+
+  return (message: string, breakingChange: boolean = false): CommitClassification => {
+    const subject = message.split('\n')[0]!.trim()
+    const breakingFooter = breakingChange || BREAKING_FOOTER.test(message)
+
+    const header = subject.match(CONVENTIONAL_HEADER)
+    const type = header?.[1]?.toLowerCase()
+    if (header && type && settings.types.includes(type)) {
+      return {
+        type,
+        scope: header[2]?.trim() || null,
+        breaking: header[3] === '!' || breakingFooter,
+        source: 'conventional'
+      }
+    }
+
+    let match: { type: string; index: number } | null = null
+    for (const keyword of keywords) {
+      const index = subject.search(keyword.pattern)
+      if (index !== -1 && (!match || index < match.index)) {
+        match = { type: keyword.type, index }
+      }
+    }
+
+    return {
+      type: match?.type ?? OTHER_TYPE,
+      scope: null,
+      breaking: breakingFooter,
+      source: match ? 'keyword' : 'none'
+    }
+  }
+}
+
+export function classifyCommits(commits: CommitData[], config: SimplifiedConfig): CommitData[] {
+  const classify = createCommitClassifier(config.commitTypes)
+  return commits.map(commit => ({ ...commit, classification: classify(commit.message, commit.breakingChange) }))
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest'
+import { parseMailmap, resolveIdentities } from './identity-resolver.js'
+import { CommitDataBuilder } from '../test/builders.js'
+import { DEFAULT_CONFIG } from '../config/defaults.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+
+function commitBy(name: string, email: string) {
+  return new CommitDataBuilder().withAuthor(name, email).build()
+}
+
+describe('parseMailmap', () => {
+  it('should parse all mailmap line forms', () => {
+    const entries = parseMailmap([
+      '# Comment line',
+      'Jane Doe <jane@old.example.com>',
+      '<jane@example.com> <jane@laptop.local>',
+      'Jane Doe <jane@example.com> <jdoe@work.example.com>',
+      'Jane Doe <jane@example.com> janedoe <jane@users.noreply.github.com>  # trailing comment',
+      ''
+    ].join('\n'))
+
+    expect(entries).toEqual([
+      { properName: 'Jane Doe', commitEmail: 'jane@old.example.com' },
+      { properEmail: 'jane@example.com', commitEmail: 'jane@laptop.local' },
+      { properName: 'Jane Doe', properEmail: 'jane@example.com', commitEmail: 'jdoe@work.example.com' },
+      { properName: 'Jane Doe', properEmail: 'jane@example.com', commitName: 'janedoe', commitEmail: 'jane@users.noreply.github.com' }
+    ])
+  })
+
+  it('should ignore malformed lines', () => {
+    expect(parseMailmap('not a mailmap line\nName Only')).toEqual([])
+  })
+})
+
+describe('resolveIdentities', () => {
+  it('should attach a canonical identity to every commit', () => {
+    const resolved = resolveIdentities([commitBy('Alice', 'alice@example.com')], [], DEFAULT_CONFIG)
+
+    expect(resolved[0]?.identity).toEqual({ name: 'Alice', emails: ['alice@example.com'] })
+  })
+
+  it('should merge emails used under the same name with linkByName', () => {
+    const config: SimplifiedConfig = { ...DEFAULT_CONFIG, identities: { ...DEFAULT_CONFIG.identities, linkByName: true } }
+    const resolved = resolveIdentities([
+      commitBy('Alice', 'alice@work.example.com'),
+      commitBy('Alice', 'alice@home.example.com'),
+      commitBy('Alice', 'alice@work.example.com')
+    ], [], config)
+
+    expect(new Set(resolved.map(c => c.authorEmail))).toEqual(new Set(['alice@work.example.com']))
+    expect(resolved[1]?.identity?.emails).toEqual(['alice@work.example.com', 'alice@home.example.com'])
+  })
+
+  it('should keep different people with the same name apart', () => {
+    const resolved = resolveIdentities([
+      commitBy('John Smith', 'john@acme.example.com'),
+      commitBy('John Smith', 'jsmith@other.example.org'),
+      commitBy('John Smith', 'john@acme.example.com'),
+      commitBy('John Smith', 'root@localhost')
+    ], [], DEFAULT_CONFIG)
+
+    expect(resolved.map(c => c.authorName)).toEqual([
+      'John Smith <john@acme.example.com>',
+      'John Smith <jsmith@other.example.org>',
+      'John Smith <john@acme.example.com>',
+      // A placeholder email cannot tell which of them committed
+      'John Smith <root@localhost>'
+    ])
+    expect(resolved[0]?.identity?.emails).toEqual(['john@acme.example.com'])
+    expect(resolved[1]?.identity?.emails).toEqual(['jsmith@other.example.org'])
+  })
+
+  it('should merge names used with the same email under the most common name', () => {
+    const resolved = resolveIdentities([
+      commitBy('alice', 'alice@example.com'),
+      commitBy('Alice Smith', 'alice@example.com'),
+      commitBy('Alice Smith', 'ALICE@example.com')
+    ], [], DEFAULT_CONFIG)
+
+    expect(resolved.map(c => c.authorName)).toEqual(['Alice Smith', 'Alice Smith', 'Alice Smith'])
+  })
+
+  it('should apply .mailmap entries', () => {
+    const mailmap = parseMailmap([
+      'Bob Jones <bob@example.com> <bob@laptop.local>',
+      'Bob Jones <bob@example.com> bobby <bob@shared.example.com>'
+    ].join('\n'))
+
+    const resolved = resolveIdentities([
+      commitBy('bob', 'bob@laptop.local'),
+      commitBy('bobby', 'bob@shared.example.com'),
+      commitBy('Carol', 'bob@shared.example.com')
+    ], mailmap, DEFAULT_CONFIG)
+
+    expect(resolved[0]?.authorName).toBe('Bob Jones')
+    expect(resolved[1]?.authorName).toBe('Bob Jones')
+    expect(resolved[1]?.authorEmail).toBe('bob@example.com')
+    // The name-specific entry does not apply to other authors of a shared email
+    expect(resolved[2]?.identity?.emails).toContain('bob@shared.example.com')
+  })
+
+  it('should skip .mailmap when disabled', () => {
+    const config: SimplifiedConfig = { ...DEFAULT_CONFIG, identities: { ...DEFAULT_CONFIG.identities, useMailmap: false, emailAliases: {} } }
+    const mailmap = parseMailmap('Bob Jones <bob@laptop.local>')
+
+    const resolved = resolveIdentities([commitBy('bob', 'bob@laptop.local')], mailmap, config)
+
+    expect(resolved[0]?.authorName).toBe('bob')
+  })
+
+  it('should apply email aliases and author mapping', () => {
+    const config: SimplifiedConfig = {
+      ...DEFAULT_CONFIG,
+      identities: { ...DEFAULT_CONFIG.identities, useMailmap: true, emailAliases: { 'dave@old.example.com': 'dave@example.com' } },
+      authorMapping: { 'dave-ci': 'Dave' }
+    }
+
+    const resolved = resolveIdentities([
+      commitBy('Dave', 'dave@example.com'),
+      commitBy('D. Smith', 'dave@old.example.com'),
+      commitBy('dave-ci', 'ci@example.com')
+    ], [], config)
+
+    expect(resolved.map(c => c.authorName)).toEqual(['Dave', 'Dave', 'Dave'])
+    expect(resolved[0]?.identity?.emails).toEqual(['dave@example.com', 'ci@example.com'])
+  })
+
+  it('should resolve co-authors to canonical identities', () => {
+    const commit = {
+      ...commitBy('Alice', 'alice@example.com'),
+      coAuthors: [
+        { name: 'bob', email: 'bob@laptop.local' },
+        { name: 'alice', email: 'ALICE@example.com' }
+      ]
+    }
+
+    const resolved = resolveIdentities([commit, commitBy('Bob', 'bob@example.com')], parseMailmap('<bob@example.com> <bob@laptop.local>'), DEFAULT_CONFIG)
+
+    // The primary author listed again under another email is not a co-author
+    expect(resolved[0]?.coAuthors).toEqual([{ name: 'Bob', email: 'bob@example.com' }])
+  })
+
+  it('should keep co-authors when co-author credit is disabled', () => {
+    const config: SimplifiedConfig = { ...DEFAULT_CONFIG, coAuthors: { credit: 'none', primaryAuthorShare: null } }
+    const commit = { ...commitBy('Alice', 'alice@example.com'), coAuthors: [{ name: 'Bob', email: 'bob@example.com' }] }
+
+    const resolved = resolveIdentities([commit], [], config)
+
+    expect(resolved[0]?.coAuthors).toEqual([{ name: 'Bob', email: 'bob@example.com' }])
+  })
+
+  it('should keep different people apart', () => {
+    const resolved = resolveIdentities([
+      commitBy('Alice', 'alice@example.com'),
+      commitBy('Bob', 'bob@example.com')
+    ], [], DEFAULT_CONFIG)
+
+    expect(resolved.map(c => c.authorName)).toEqual(['Alice', 'Bob'])
+  })
+
+  it('should not merge different names through a shared placeholder email', () => {
+    const resolved = resolveIdentities([
+      commitBy('Alice', 'alice@example.com'),
+      commitBy('Alice', 'root@localhost'),
+      commitBy('Bob', 'root@localhost'),
+      commitBy('Bob', 'bob@example.com')
+    ], [], DEFAULT_CONFIG)
+
+    expect(resolved.map(c => c.authorName)).toEqual(['Alice', 'Alice', 'Bob', 'Bob'])
+    expect(resolved[0]?.identity?.emails).toEqual(['alice@example.com', 'root@localhost'])
+  })
+
+  it('should not merge co-authors through a configured shared email', () => {
+    const config: SimplifiedConfig = { ...DEFAULT_CONFIG, identities: { ...DEFAULT_CONFIG.identities, sharedEmails: ['ci@example.com'] } }
+    const commit = { ...commitBy('Alice', 'alice@example.com'), coAuthors: [{ name: 'Build Bot', email: 'ci@example.com' }] }
+
+    const resolved = resolveIdentities([commit, commitBy('Carol', 'ci@example.com')], [], config)
+
+    expect(resolved.map(c => c.authorName)).toEqual(['Alice', 'Carol'])
+    expect(resolved[0]?.coAuthors).toEqual([{ name: 'Build Bot', email: 'ci@example.com' }])
+  })
+})
@@ -0,0 +1,236 @@
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+import { Minimatch } from 'minimatch'
+import type { AuthorIdentity, CoAuthor, CommitData } from './parser.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+import { RepoStatError } from '../utils/errors.js'
+
+export interface MailmapEntry {
+  properName?: string
+  properEmail?: string
+  commitName?: string
+  commitEmail: string
+}
+
+/**
+ * Parse .mailmap content. Supported line forms (see gitmailmap(5)):
+ *   Proper Name <commit@email>
+ *   <proper@email> <commit@email>
+ *   Proper Name <proper@email> <commit@email>
+ *   Proper Name <proper@email> Commit Name <commit@email>
+ */
+export function parseMailmap(content: string): MailmapEntry[] {
+  const entries: MailmapEntry[] = []
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    if (!line) continue
+
+    const match = line.match(/^([^<]*)<([^>]*)>\s*(?:([^<]*)<([^>]*)>)?$/)
+    if (!match) continue
+
+    const [, firstName = '', firstEmail = '', secondName = '', secondEmail] = match
+    const properName = firstName.trim()
+
+    if (secondEmail === undefined) {
+      // Only the name is replaced for this email
+      if (properName) {
+        entries.push({ properName, commitEmail: firstEmail.trim() })
+      }
+      continue
+    }
+
+    const commitName = secondName.trim()
+    entries.push({
+      ...(properName && { properName }),
+      ...(firstEmail.trim() && { properEmail: firstEmail.trim() }),
+      ...(commitName && { commitName }),
+      commitEmail: secondEmail.trim()
+    })
+  }
+
+  return entries
+}
+
+export async function loadMailmap(repoPath: string): Promise<MailmapEntry[]> {
+  try {
+    const content = await readFile(join(repoPath, '.mailmap'), 'utf-8')
+    return parseMailmap(content)
+  } catch {
+    // No .mailmap in this repository
+    return []
+  }
+}
+
+function applyMailmap(name: string, email: string, mailmap: MailmapEntry[]): { name: string; email: string } {
+  const lowerEmail = email.toLowerCase()
+  const lowerName = name.toLowerCase()
+
+  // Entries that also match the commit name are more specific and win
+  const match = mailmap.find(entry => entry.commitEmail.toLowerCase() === lowerEmail && entry.commitName?.toLowerCase() === lowerName)
+    ?? mailmap.find(entry => entry.commitEmail.toLowerCase() === lowerEmail && entry.commitName === undefined)
+
+  return {
+    name: match?.properName ?? name,
+    email: match?.properEmail ?? email
+  }
+}
+
+function mostFrequent(counts: Map<string, number>): string[] {
+  // Map iteration order keeps first-seen values ahead on ties
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([value]) => value)
+}
+
+/**
+ * Resolve every commit author to a canonical identity.
+ *
+ * Names and emails are first normalized through .mailmap, `authorMapping` and
+ * `identities.emailAliases`. Names committed with the same email are then treated
+ * as one person. A name links its emails only when .mailmap or `authorMapping`
+ * renamed an author to it, or for every name with `identities.linkByName`, since
+ * unrelated people share common names. Emails matching `identities.sharedEmails`
+ * (placeholders such as root@localhost, CI and bot accounts) never link names;
+ * authors using one join the only identity known by their name, if there is one.
+ * The canonical name is the one used most often, followed by the main email when
+ * several identities end up with the same name, and `authorName`/`authorEmail` are
+ * rewritten to the canonical values.
+ */
+export function resolveIdentities(commits: CommitData[], mailmap: MailmapEntry[], config: SimplifiedConfig): CommitData[] {
+  const emailAliases = new Map(
+    Object.entries(config.identities.emailAliases).map(([alias, canonical]) => [alias.toLowerCase(), canonical.toLowerCase()])
+  )
+
+  const normalize = (rawName: string, rawEmail: string): { name: string; email: string; renamed: boolean } => {
+    const mapped = config.identities.useMailmap
+      ? applyMailmap(rawName, rawEmail, mailmap)
+      : { name: rawName, email: rawEmail }
+    const name = config.authorMapping?.[mapped.name] || mapped.name
+    const lowerEmail = mapped.email.toLowerCase()
+    return { name, email: emailAliases.get(lowerEmail) ?? lowerEmail, renamed: name !== rawName }
+  }
+
+  const sharedEmails = config.identities.sharedEmails.map(pattern => new Minimatch(pattern.toLowerCase(), { nocase: true }))
+  const isShared = (email: string) => sharedEmails.some(pattern => pattern.match(email))
+  const isOwnEmail = (email: string) => email !== '' && !isShared(email)
+
+  const normalized = commits.map(commit => normalize(commit.authorName, commit.authorEmail))
+  const normalizedCoAuthors = commits.map(commit => (commit.coAuthors ?? []).map(coAuthor => normalize(coAuthor.name, coAuthor.email)))
+  const everyone = [...normalized, ...normalizedCoAuthors.flat()]
+
+  // Union-find over emails, and names that link them: anything connected is one identity
+  const parent = new Map<string, string>()
+  const find = (key: string): string => {
+    const next = parent.get(key)
+    if (next === undefined || next === key) return key
+    const root = find(next)
+    parent.set(key, root)
+    return root
+  }
+  const union = (a: string, b: string) => {
+    const rootA = find(a)
+    const rootB = find(b)
+    if (rootA !== rootB) parent.set(rootB, rootA)
+  }
+
+  const linkedNames = new Set(everyone.filter(author => config.identities.linkByName || author.renamed).map(author => author.name))
+  for (const { name, email } of everyone) {
+    if (isOwnEmail(email) && linkedNames.has(name)) union(`name:${name}`, `email:${email}`)
+  }
+
+  // Commits resolved before, such as each repository's in a portfolio, keep the emails linked there
+  commits.forEach((commit, index) => {
+    const { email } = normalized[index]!
+    for (const linked of commit.identity?.emails ?? []) {
+      if (isOwnEmail(email) && isOwnEmail(linked)) union(`email:${email}`, `email:${linked}`)
+    }
+  })
+
+  const rootsByName = new Map<string, Set<string>>()
+  for (const { name, email } of everyone) {
+    if (!isOwnEmail(email)) continue
+    const roots = rootsByName.get(name) ?? new Set<string>()
+    roots.add(find(`email:${email}`))
+    rootsByName.set(name, roots)
+  }
+  const rootOf = (name: string, email: string): string => {
+    if (isOwnEmail(email)) return find(`email:${email}`)
+    const [only, ...others] = rootsByName.get(name) ?? []
+    return only !== undefined && others.length === 0 ? only : `name:${name}`
+  }
+
+  const groups = new Map<string, { names: Map<string, number>; emails: Map<string, number> }>()
+  for (const { name, email } of everyone) {
+    const root = rootOf(name, email)
+    const group = groups.get(root) ?? { names: new Map(), emails: new Map() }
+    group.names.set(name, (group.names.get(name) ?? 0) + 1)
+    if (email) {
+      group.emails.set(email, (group.emails.get(email) ?? 0) + 1)
+    }
+    groups.set(root, group)
+  }
+
+  commits.forEach((commit, index) => {
+    const { name, email } = normalized[index]!
+    const group = groups.get(rootOf(name, email))
+    for (const linked of commit.identity?.emails ?? []) {
+      if (group && !group.emails.has(linked)) group.emails.set(linked, 0)
+    }
+  })
+
+  const identities = new Map<string, AuthorIdentity>()
+  for (const [root, group] of groups) {
+    identities.set(root, {
+      name: mostFrequent(group.names)[0] ?? '',
+      emails: mostFrequent(group.emails)
+    })
+  }
+
+  // Calculators group by name, so different people sharing one are told apart by email
+  const identitiesByName = new Map<string, number>()
+  for (const { name } of identities.values()) {
+    identitiesByName.set(name, (identitiesByName.get(name) ?? 0) + 1)
+  }
+  for (const identity of identities.values()) {
+    const email = identity.emails[0]
+    if (email && (identitiesByName.get(identity.name) ?? 0) > 1) {
+      identity.name = `${identity.name} <${email}>`
+    }
+  }
+
+  const identityOf = (name: string, email: string): AuthorIdentity => {
+    const identity = identities.get(rootOf(name, email))
+    if (!identity) {
+      throw new RepoStatError(`No identity was resolved for ${name} <${email}>`, 'IDENTITY_NOT_RESOLVED')
+    }
+    return identity
+  }
+
+  return commits.map((commit, index) => {
+    const { name, email } = normalized[index]!
+    const identity = identityOf(name, email)
+    const resolved: CommitData = {
+      ...commit,
+      authorName: identity.name,
+      authorEmail: identity.emails[0] ?? commit.authorEmail,
+      identity
+    }
+
+    // Co-authors resolve the same way; drop the primary author and duplicates.
+    // They are kept whatever the credit mode, which only applies to contributor credit
+    const coAuthors: CoAuthor[] = []
+    for (const { name, email } of normalizedCoAuthors[index] ?? []) {
+      const coIdentity = identityOf(name, email)
+      if (coIdentity === identity || coAuthors.some(coAuthor => coAuthor.name === coIdentity.name)) continue
+      coAuthors.push({ name: coIdentity.name, email: coIdentity.emails[0] ?? email })
+    }
+    if (coAuthors.length > 0) {
+      resolved.coAuthors = coAuthors
+    } else {
+      delete resolved.coAuthors
+    }
+
+    return resolved
+  })
+}
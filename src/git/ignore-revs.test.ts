@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { createTestCommit } from '../test/builders.js'
+import { parseIgnoreRevs, loadIgnoreRevs, resolveIgnoredRevisions } from './ignore-revs.js'
+
+const FORMAT_SHA = '3f2a9c1d8e7b6a5f4e3d2c1b0a9f8e7d6c5b4a39'
+
+describe('parseIgnoreRevs', () => {
+  it('reads one revision per line, skipping comments and blank lines', () => {
+    const content = [
+      '# Migrate to prettier',
+      FORMAT_SHA,
+      '',
+      'abc1234 # Reformat tests',
+      'not-a-sha'
+    ].join('\n')
+
+    expect(parseIgnoreRevs(content)).toEqual([FORMAT_SHA, 'abc1234'])
+  })
+})
+
+describe('loadIgnoreRevs', () => {
+  let repoPath: string
+
+  beforeAll(() => {
+    repoPath = mkdtempSync(join(tmpdir(), 'repo-statter-ignore-revs-'))
+    writeFileSync(join(repoPath, '.git-blame-ignore-revs'), `${FORMAT_SHA}\n`)
+  })
+
+  afterAll(() => {
+    rmSync(repoPath, { recursive: true, force: true })
+  })
+
+  it('combines configured revisions with the ignore revisions file', async () => {
+    const config = { ...TEST_CONFIG, commitFilters: { ...TEST_CONFIG.commitFilters, ignoreRevs: ['abc1234'] } }
+
+    expect(await loadIgnoreRevs(repoPath, config)).toEqual(['abc1234', FORMAT_SHA])
+  })
+
+  it('skips the file when it is turned off or missing', async () => {
+    const withoutFile = { ...TEST_CONFIG, commitFilters: { ...TEST_CONFIG.commitFilters, ignoreRevsFile: null } }
+    const missingFile = { ...TEST_CONFIG, commitFilters: { ...TEST_CONFIG.commitFilters, ignoreRevsFile: 'missing-revs' } }
+
+    expect(await loadIgnoreRevs(repoPath, withoutFile)).toEqual([])
+    expect(await loadIgnoreRevs(repoPath, missingFile)).toEqual([])
+  })
+})
+
+describe('resolveIgnoredRevisions', () => {
+  it('expands abbreviated revisions to the analyzed commits they match', () => {
+    const commits = [createTestCommit({ sha: FORMAT_SHA }), createTestCommit({ sha: 'b'.repeat(40) })]
+
+    expect(resolveIgnoredRevisions(commits, ['3F2A9C1', 'deadbee'])).toEqual(new Set([FORMAT_SHA]))
+  })
+})
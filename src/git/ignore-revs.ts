@@ -0,0 +1,41 @@
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+import type { CommitData } from './parser.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+
+/**
+ * Revisions listed in a `.git-blame-ignore-revs` style file: one SHA per
+ * line, with `#` comments and blank lines
+ */
+export function parseIgnoreRevs(content: string): string[] {
+  return content
+    .split('\n')
+    .map(line => line.replace(/#.*$/, '').trim())
+    .filter(line => /^[0-9a-f]{7,40}$/i.test(line))
+}
+
+/**
+ * The configured ignore revisions together with those in `commitFilters.ignoreRevsFile`
+ */
+export async function loadIgnoreRevs(repoPath: string, config: SimplifiedConfig): Promise<string[]> {
+  const { ignoreRevs, ignoreRevsFile } = config.commitFilters
+  if (!ignoreRevsFile) return ignoreRevs
+
+  try {
+    const content = await readFile(join(repoPath, ignoreRevsFile), 'utf-8')
+    return [...ignoreRevs, ...parseIgnoreRevs(content)]
+  } catch {
+    // No ignore revisions file in this repository
+    return ignoreRevs
+  }
+}
+
+/**
+ * Full SHAs of the analyzed commits matching the (possibly abbreviated) revisions
+ */
+export function resolveIgnoredRevisions(commits: CommitData[], revisions: string[]): Set<string> {
+  const prefixes = revisions.map(revision => revision.toLowerCase())
+  return new Set(commits
+    .filter(commit => prefixes.some(prefix => commit.sha.toLowerCase().startsWith(prefix)))
+    .map(commit => commit.sha))
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync, renameSync, unlinkSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+import { simpleGit } from 'simple-git'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { isFileExcluded } from '../utils/exclusions.js'
+import { parseCommitDiff, type ByteChanges } from '../data/git-extractor.js'
+import { parseCommitHistory } from './parser.js'
+
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904'
+
+/**
+ * The per-commit path parseCommitHistory used before streaming: one
+ * `git diff --summary` and one `git show --raw` per commit, then `cat-file -s`
+ * for every blob.
+ */
+async function parsePerCommit(repoPath: string, sha: string) {
+  const git = simpleGit(repoPath)
+  const isRoot = (await git.raw(['rev-list', '--parents', '-n', '1', sha])).trim().split(' ').length === 1
+  const diffSummary = await git.diffSummary(isRoot ? [`${EMPTY_TREE}..${sha}`] : [`${sha}^!`])
+
+  const byteChanges: ByteChanges = { totalBytesAdded: 0, totalBytesDeleted: 0, fileChanges: {} }
+  const rawDiff = await git.show([sha, '--raw', '--format=', '--no-abbrev'])
+  for (const line of rawDiff.trim().split('\n')) {
+    const match = line.match(/^:\d+\s+\d+\s+([0-9a-f]+)\s+([0-9a-f]+)\s+[AMDRC]\d*\s+(.+)$/)
+    if (!match || isFileExcluded(match[3]!, TEST_CONFIG.exclusions.patterns)) continue
+
+    const size = async (blob: string) => /^0+$/.test(blob) ? 0 : parseInt(await git.raw(['cat-file', '-s', blob]), 10)
+    const oldSize = await size(match[1]!)
+    const newSize = await size(match[2]!)
+    byteChanges.fileChanges[match[3]!] = { bytesAdded: Math.max(0, newSize - oldSize), bytesDeleted: Math.max(0, oldSize - newSize) }
+  }
+
+  return { sha, ...parseCommitDiff(diffSummary, byteChanges, TEST_CONFIG) }
+}
+
+describe('parseCommitHistory parity with the per-commit path', () => {
+  let testRepoPath: string
+
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-parity-'))
+    const git = (command: string) => execSync(`git ${command}`, { cwd: testRepoPath, stdio: 'pipe' })
+    const commit = (message: string) => {
+      git('add -A')
+      git(`commit -q -m "${message}"`)
+    }
+
+    git('init -q -b main')
+    git('config user.name "Alice"')
+    git('config user.email "alice@example.com"')
+
+    mkdirSync(join(testRepoPath, 'src'))
+    writeFileSync(join(testRepoPath, 'src/app.ts'), 'export const a = 1\nexport const b = 2\nexport const c = 3\n')
+    writeFileSync(join(testRepoPath, 'README.md'), '# Parity\n\nFixture repository\n')
+    writeFileSync(join(testRepoPath, 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01, 0x02, 0x00, 0xff]))
+    commit('Initial import')
+
+    writeFileSync(join(testRepoPath, 'src/app.ts'), 'export const a = 1\nexport const c = 4\nexport const d = 5\nexport const e = 6\n')
+    unlinkSync(join(testRepoPath, 'README.md'))
+    commit('Change app and drop readme')
+
+    mkdirSync(join(testRepoPath, 'lib'))
+    renameSync(join(testRepoPath, 'src/app.ts'), join(testRepoPath, 'lib/app.ts'))
+    commit('Move app to lib')
+
+    writeFileSync(join(testRepoPath, 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x03, 0x04, 0x05, 0x06, 0x00, 0xff]))
+    commit('Update logo')
+
+    git('checkout -q -b feature')
+    writeFileSync(join(testRepoPath, 'lib/feature.ts'), 'export const feature = true\n')
+    commit('Add feature')
+    git('checkout -q main')
+    writeFileSync(join(testRepoPath, 'lib/app.ts'), 'export const a = 10\nexport const c = 4\nexport const d = 5\nexport const e = 6\n')
+    commit('Tweak app')
+    git('merge -q --no-ff feature -m "Merge feature"')
+  })
+
+  afterAll(() => {
+    if (testRepoPath) {
+      rmSync(testRepoPath, { recursive: true, force: true })
+    }
+  })
+
+  it('reports the same lines, bytes and files for every commit', async () => {
+    const commits = await parseCommitHistory(testRepoPath, undefined, undefined, { useCache: false }, TEST_CONFIG)
+    const streamed = commits.map(({ sha, linesAdded, linesDeleted, bytesAdded, bytesDeleted, filesChanged }) => ({ sha, linesAdded, linesDeleted, bytesAdded, bytesDeleted, filesChanged }))
+
+    const perCommit = []
+    for (const { sha } of commits) {
+      perCommit.push(await parsePerCommit(testRepoPath, sha))
+    }
+
+    expect(commits.map(commit => commit.message)).toEqual([
+      'Initial import',
+      'Change app and drop readme',
+      'Move app to lib',
+      'Update logo',
+      'Add feature',
+      'Tweak app',
+      'Merge feature'
+    ])
+    expect(streamed).toEqual(perCommit)
+  })
+})
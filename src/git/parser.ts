@@ -1,12 +1,26 @@
 import { simpleGit } from 'simple-git'
 import { validateGitRepository } from '../utils/git-validation.js'
-import { parseCommitDiff as parseCommitDiffData } from '../data/git-extractor.js'
+import {
+  parseCommitDiff as parseCommitDiffData,
+  parseNumstatLines,
+  parseRawDiffLines,
+  calculateByteChanges,
+  isNullBlob,
+  parseCoAuthors,
+  type ParsedCommitDiff
+} from '../data/git-extractor.js'
 import type { ProgressReporter } from '../utils/progress-reporter.js'
 import { GitParseError, formatError } from '../utils/errors.js'
 import { generateRepositoryHash, loadCache, saveCache, clearCache } from '../cache/git-cache.js'
 import type { SimplifiedConfig } from '../config/simplified-schema.js'
 import { isFileExcluded } from '../utils/exclusions.js'
 import { applyCumulativeExclusions } from './cumulative-exclusion.js'
+import { BlobSizeReader } from './blob-size-reader.js'
+import { hasBreakingChangeFooter } from './commit-classifier.js'
+import { createIssueExtractor } from '../data/issue-calculator.js'
+import { createHash } from 'crypto'
+import { spawn } from 'child_process'
+import { createInterface } from 'readline'
 import * as path from 'path'
 
 // Assert utilities for fail-fast error handling
@@ -16,11 +30,11 @@ function assert(condition: boolean, message: string): asserts condition {
   }
 }
 
-// Helper function to get total commit count in repository
-async function getTotalCommitCount(repoPath: string): Promise<number> {
+// Helper function to get total commit count in the selected history
+async function getTotalCommitCount(repoPath: string, selectionArgs: string[]): Promise<number> {
   try {
     const git = simpleGit(repoPath)
-    const result = await git.raw(['rev-list', '--count', 'HEAD'])
+    const result = await git.raw(['rev-list', '--count', ...selectionArgs])
     const count = parseInt(result.trim(), 10)
     return isNaN(count) ? 0 : count
   } catch (error) {
@@ -38,10 +52,32 @@ export interface FileChange {
   bytesDeleted?: number
 }
 
+export interface AuthorIdentity {
+  name: string
+  emails: string[] // Most used first
+}
+
+export interface CoAuthor {
+  name: string
+  email: string
+}
+
+export interface CommitClassification {
+  type: string // 'other' when neither the header nor a keyword matches
+  scope: string | null
+  breaking: boolean
+  source: 'conventional' | 'keyword' | 'none'
+}
+
 export interface CommitData {
   sha: string
   authorName: string
   authorEmail: string
+  identity?: AuthorIdentity // Set by identity resolution after parsing
+  coAuthors?: CoAuthor[] // From Co-authored-by trailers
+  classification?: CommitClassification // Set by commit classification after parsing
+  breakingChange?: boolean // BREAKING CHANGE footer in the body, which is not kept
+  issueKeys?: string[] // Issue keys referenced in the body, such as `Closes #12` or `Refs: PROJ-3` trailers
   date: string
   message: string
   linesAdded: number
@@ -56,6 +92,41 @@ export interface CacheOptions {
   clearCache?: boolean
 }
 
+export interface RevisionSelection {
+  revisions: string[] // Empty when analyzing HEAD
+  filters: string[]
+}
+
+/**
+ * Translate the configured branch, range and date window into git log arguments
+ */
+export function getRevisionSelection(analysis: SimplifiedConfig['analysis']): RevisionSelection {
+  const revisions: string[] = []
+  if (analysis.range) {
+    revisions.push(analysis.range)
+  } else if (analysis.branch) {
+    revisions.push(analysis.branch)
+  }
+  
+  const filters: string[] = []
+  if (analysis.since) {
+    filters.push(`--since=${analysis.since}`)
+  }
+  if (analysis.until) {
+    filters.push(`--until=${analysis.until}`)
+  }
+  
+  return { revisions, filters }
+}
+
+/**
+ * Cached commits carry body issue keys, which depend on the configured trackers
+ */
+function getCommitCacheVersion(config: SimplifiedConfig): string {
+  const trackersHash = createHash('sha256').update(JSON.stringify(config.issues.trackers)).digest('hex').substring(0, 8)
+  return `${config.performance.cacheVersion}-${trackersHash}`
+}
+
 export async function parseCommitHistory(repoPath: string, progressReporter: ProgressReporter | undefined, maxCommits: number | undefined, cacheOptions: CacheOptions, config: SimplifiedConfig): Promise<CommitData[]> {
   // Validate input
   assert(repoPath.length > 0, 'Repository path cannot be empty')
@@ -72,8 +143,27 @@ export async function parseCommitHistory(repoPath: string, progressReporter: Pro
     throw new GitParseError(`Cannot access git repository: ${formatError(error)}`, error instanceof Error ? error : undefined)
   }
   
-  // Generate repository hash for caching
-  const repoHash = await generateRepositoryHash(repoPath)
+  const selection = getRevisionSelection(config.analysis)
+  const tips = selection.revisions.length > 0 ? selection.revisions : ['HEAD']
+  
+  if (selection.revisions.length > 0) {
+    try {
+      await git.raw(['rev-parse', ...selection.revisions, '--'])
+    } catch (error) {
+      throw new GitParseError(`Unknown branch or range: ${selection.revisions.join(' ')}`, error instanceof Error ? error : undefined)
+    }
+  }
+  
+  // Git reads dates against the current time, even a calendar date takes the time of day, so
+  // resolve the window once for every git call below and never cache it: a later run with the
+  // same --since text selects different commits
+  const filters = selection.filters.length > 0
+    ? (await git.raw(['rev-parse', ...selection.filters])).split('\n').filter(arg => arg.length > 0)
+    : []
+  const useCache = cacheOptions.useCache !== false && filters.length === 0
+  
+  // Generate repository hash for caching, keyed on the selected branch or range
+  const repoHash = await generateRepositoryHash(repoPath, selection.revisions)
   
   // Clear cache if requested
   if (cacheOptions.clearCache) {
@@ -85,9 +175,9 @@ export async function parseCommitHistory(repoPath: string, progressReporter: Pro
   let cachedCommits: CommitData[] = []
   let lastCachedSha: string | null = null
   
-  if (cacheOptions.useCache !== false && !cacheOptions.clearCache) {
+  if (useCache && !cacheOptions.clearCache) {
     progressReporter?.report('Checking for cached data')
-    const cache = await loadCache(repoHash, config.performance.cacheVersion, config.performance.cacheDirName, maxCommits)
+    const cache = await loadCache(repoHash, getCommitCacheVersion(config), config.performance.cacheDirName, maxCommits)
     if (cache && cache.commits.length > 0) {
       // Only use cache if it's a full cache or has enough commits for the request
       if (!cache.isPartialCache || (cache.maxCommitsUsed && maxCommits && cache.maxCommitsUsed >= maxCommits)) {
@@ -100,28 +190,22 @@ export async function parseCommitHistory(repoPath: string, progressReporter: Pro
   
   progressReporter?.report('Fetching commit history')
   
-  let log: any
+  // Revisions to walk in the single git log pass; null means there is nothing to fetch
+  let revisionArgs: string[] | null = [...tips, ...filters]
   
   // Two-phase commit reading when maxCommits is specified without cache
   if (maxCommits && !lastCachedSha) {
     // Phase 1: Get the SHAs of the most recent N commits (newest first)
-    const recentCommitsLog = await git.log({
-      maxCount: maxCommits,
-      format: { hash: '%H' },
-      // No --reverse, so we get newest first
-    })
+    const recentCommits = (await git.raw(['rev-list', `--max-count=${maxCommits}`, ...filters, ...tips, '--']))
+      .split('\n')
+      .filter(sha => sha.length > 0)
     
-    if (recentCommitsLog.all.length > 0) {
-      // Phase 2: Get full commit data in chronological order
-      const oldestCommit = recentCommitsLog.all[recentCommitsLog.all.length - 1]
-      const newestCommit = recentCommitsLog.all[0]
-      
-      // These commits should always exist if length > 0, but TypeScript needs assurance
-      assert(oldestCommit !== undefined, 'Oldest commit not found')
-      assert(newestCommit !== undefined, 'Newest commit not found')
+    if (recentCommits.length > 0) {
+      // Phase 2: Walk the range covering those commits in chronological order
+      const oldestSha = recentCommits[recentCommits.length - 1]
       
-      const oldestSha = oldestCommit.hash
-      const newestSha = newestCommit.hash
+      // This commit should always exist if length > 0, but TypeScript needs assurance
+      assert(oldestSha !== undefined, 'Oldest commit not found')
       
       // Get the parent of the oldest commit to include it in the range
       let fromCommit: string
@@ -133,67 +217,24 @@ export async function parseCommitHistory(repoPath: string, progressReporter: Pro
         fromCommit = ''
       }
       
-      const logOptions: any = {
-        format: {
-          hash: '%H',
-          author_name: '%an',
-          author_email: '%ae',
-          date: '%ai',
-          message: '%s'
-        },
-        strictDate: true,
-        '--reverse': null  // Process in chronological order
-      }
-      
-      // If we have a parent commit, use range syntax
-      if (fromCommit) {
-        logOptions.from = fromCommit
-        logOptions.to = newestSha
-      } else {
-        // If no parent (includes first commit), use a different approach
-        // Get all commits up to and including the newest SHA
-        logOptions[`${newestSha}`] = null
-      }
-      
-      log = await git.log(logOptions)
+      // If we have a parent commit, stop there, otherwise get all commits in the selection
+      revisionArgs = fromCommit ? [...tips, `^${fromCommit}`, ...filters] : [...tips, ...filters]
       progressReporter?.report(`Fetching ${maxCommits} most recent commits`)
     } else {
       // Empty repository or no commits
-      log = { all: [] }
+      revisionArgs = null
     }
-  } else {
-    // Standard log fetching (full history or with cache)
-    const logOptions: any = {
-      format: {
-        hash: '%H',
-        author_name: '%an',
-        author_email: '%ae',
-        date: '%ai',
-        message: '%s'
-      },
-      strictDate: true,
-      '--reverse': null
-    }
-    
+  } else if (lastCachedSha) {
     // If we have cached data, only fetch commits after the last cached commit
-    if (lastCachedSha) {
-      logOptions.from = lastCachedSha
-      progressReporter?.report('Fetching new commits since last cache')
-    }
-    
-    log = await git.log(logOptions)
+    revisionArgs = [...tips, `^${lastCachedSha}`, ...filters]
+    progressReporter?.report('Fetching new commits since last cache')
   }
   
-  // Filter out the lastCachedSha commit if it's included (git log includes the 'from' commit)
-  const newCommits = lastCachedSha 
-    ? log.all.filter((commit: any) => commit.hash !== lastCachedSha)
-    : log.all
-  
   // Start with cached commits
   const commits: CommitData[] = [...cachedCommits]
   let cumulativeBytes = 0
   let processedCommits = 0
-  const totalNewCommits = newCommits.length
+  const totalNewCommits = revisionArgs ? await countCommits(repoPath, revisionArgs) : 0
   
   if (totalNewCommits === 0 && cachedCommits.length > 0) {
     progressReporter?.report(`Using cached data: ${cachedCommits.length} commits`)
@@ -205,7 +246,7 @@ export async function parseCommitHistory(repoPath: string, progressReporter: Pro
   let startingPosition = 0
   if (maxCommits && totalNewCommits > 0) {
     try {
-      totalCommitsInRepo = await getTotalCommitCount(repoPath)
+      totalCommitsInRepo = await getTotalCommitCount(repoPath, [...tips, ...filters])
       // Calculate where we're starting in the overall repository history
       // For newest-first processing, we start at (total - commits_to_process)
       startingPosition = Math.max(0, totalCommitsInRepo - totalNewCommits - cachedCommits.length)
@@ -217,53 +258,65 @@ export async function parseCommitHistory(repoPath: string, progressReporter: Pro
   
   progressReporter?.report(`Processing ${totalNewCommits} new commits${cachedCommits.length > 0 ? ` (${cachedCommits.length} cached)` : ''}`)
   
-  for (const commit of newCommits) {
-    const diffStats = await parseCommitDiff(repoPath, commit.hash, config)
-    const bytesAdded = diffStats.bytesAdded ?? 0
-    const bytesDeleted = diffStats.bytesDeleted ?? 0
-    cumulativeBytes += (bytesAdded - bytesDeleted)
-    
-    // Convert git date format "YYYY-MM-DD HH:MM:SS +TZTZ" to ISO 8601
-    // First replace the space between date and time with 'T'
-    // Then remove the space before the timezone
-    const isoDate = commit.date.replace(' ', 'T').replace(' +', '+').replace(' -', '-')
+  if (revisionArgs && totalNewCommits > 0) {
+    const blobSizeReader = new BlobSizeReader(repoPath)
+    const extractBodyIssueKeys = createIssueExtractor(config.issues.trackers)
     
-    // Apply author mapping if configured
-    let authorName = commit.author_name
-    if (config.authorMapping && config.authorMapping[authorName]) {
-      authorName = config.authorMapping[authorName]
-    }
-    
-    const commitData = {
-      sha: commit.hash,
-      authorName,
-      authorEmail: commit.author_email,
-      date: isoDate,
-      message: commit.message,
-      linesAdded: diffStats.linesAdded,
-      linesDeleted: diffStats.linesDeleted,
-      bytesAdded,
-      bytesDeleted,
-      filesChanged: diffStats.filesChanged
-    }
-    
-    commits.push(commitData)
-    
-    processedCommits++
-    
-    // Report progress every 100 commits or at the end
-    if (processedCommits % 100 === 0 || processedCommits === totalNewCommits) {
-      const shortHash = commitData.sha.substring(0, 7)
-      const progressMessage = `Processing commit: ${shortHash} by ${commitData.authorName} at ${commitData.date}`
+    try {
+      for await (const commit of streamCommitLog(repoPath, revisionArgs)) {
+        const diffStats = await parseCommitDiff(commit, blobSizeReader, config)
+        const bytesAdded = diffStats.bytesAdded ?? 0
+        const bytesDeleted = diffStats.bytesDeleted ?? 0
+        cumulativeBytes += (bytesAdded - bytesDeleted)
+      
+        // Convert git date format "YYYY-MM-DD HH:MM:SS +TZTZ" to ISO 8601
+        // First replace the space between date and time with 'T'
+        // Then remove the space before the timezone
+        const isoDate = commit.date.replace(' ', 'T').replace(' +', '+').replace(' -', '-')
+      
+        // Credit pair-programming partners listed in Co-authored-by trailers
+        const coAuthors = parseCoAuthors(commit.body)
+          .filter(coAuthor => coAuthor.email.toLowerCase() !== commit.authorEmail.toLowerCase())
+        const breakingChange = hasBreakingChangeFooter(commit.body)
+        const issueKeys = extractBodyIssueKeys(commit.body).map(({ key }) => key)
       
-      // Use total repository context if available (when maxCommits is specified)
-      if (totalCommitsInRepo > 0) {
-        const currentPosition = startingPosition + processedCommits + cachedCommits.length
-        progressReporter?.report(progressMessage, currentPosition, totalCommitsInRepo)
-      } else {
-        // Fall back to normal progress reporting
-        progressReporter?.report(progressMessage, processedCommits, totalNewCommits)
+        const commitData = {
+          sha: commit.hash,
+          authorName: commit.authorName,
+          authorEmail: commit.authorEmail,
+          date: isoDate,
+          message: commit.message,
+          linesAdded: diffStats.linesAdded,
+          linesDeleted: diffStats.linesDeleted,
+          bytesAdded,
+          bytesDeleted,
+          filesChanged: diffStats.filesChanged,
+          ...(coAuthors.length > 0 && { coAuthors }),
+          ...(breakingChange && { breakingChange }),
+          ...(issueKeys.length > 0 && { issueKeys })
+        }
+      
+        commits.push(commitData)
+      
+        processedCommits++
+      
+        // Report progress every 100 commits or at the end
+        if (processedCommits % 100 === 0 || processedCommits === totalNewCommits) {
+          const shortHash = commitData.sha.substring(0, 7)
+          const progressMessage = `Processing commit: ${shortHash} by ${commitData.authorName} at ${commitData.date}`
+        
+          // Use total repository context if available (when maxCommits is specified)
+          if (totalCommitsInRepo > 0) {
+            const currentPosition = startingPosition + processedCommits + cachedCommits.length
+            progressReporter?.report(progressMessage, currentPosition, totalCommitsInRepo)
+          } else {
+            // Fall back to normal progress reporting
+            progressReporter?.report(progressMessage, processedCommits, totalNewCommits)
+          }
+        }
       }
+    } finally {
+      await blobSizeReader.close()
     }
   }
   
@@ -272,9 +325,9 @@ export async function parseCommitHistory(repoPath: string, progressReporter: Pro
   const adjustedCommits = await applyCumulativeExclusions(repoPath, commits, config)
   
   // Save to cache if caching is enabled and we processed new commits
-  if (cacheOptions.useCache !== false && (totalNewCommits > 0 || cachedCommits.length === 0)) {
+  if (useCache && (totalNewCommits > 0 || cachedCommits.length === 0)) {
     try {
-      await saveCache(repoHash, adjustedCommits, config.performance.cacheVersion, config.performance.cacheDirName, maxCommits)
+      await saveCache(repoHash, adjustedCommits, getCommitCacheVersion(config), config.performance.cacheDirName, maxCommits)
       progressReporter?.report(`Cached ${adjustedCommits.length} commits for future runs`)
     } catch (error) {
       // Don't fail the entire operation if caching fails
@@ -285,12 +338,12 @@ export async function parseCommitHistory(repoPath: string, progressReporter: Pro
   return adjustedCommits
 }
 
-export async function getCurrentFiles(repoPath: string): Promise<Set<string>> {
+export async function getCurrentFiles(repoPath: string, ref: string = 'HEAD'): Promise<Set<string>> {
   assert(repoPath.length > 0, 'Repository path cannot be empty')
   
   try {
     const git = simpleGit(repoPath)
-    const stdout = await git.raw(['ls-tree', '-r', 'HEAD', '--name-only'])
+    const stdout = await git.raw(['ls-tree', '-r', ref, '--name-only'])
     
     const files = stdout.trim().split('\n').filter(line => line.trim())
     return new Set(files)
@@ -299,19 +352,6 @@ export async function getCurrentFiles(repoPath: string): Promise<Set<string>> {
   }
 }
 
-export async function getGitHubUrl(repoPath: string): Promise<string | null> {
-  const git = simpleGit(repoPath)
-  const remotes = await git.getRemotes(true)
-  const origin = remotes.find(r => r.name === 'origin')
-  if (origin && origin.refs.fetch) {
-    const match = origin.refs.fetch.match(/github\.com[:/](.+?)(?:\.git)?$/)
-    if (match) {
-      return `https://github.com/${match[1]}`
-    }
-  }
-  return null
-}
-
 export async function getRepositoryName(repoPath: string): Promise<string | null> {
   const git = simpleGit(repoPath)
   const remotes = await git.getRemotes(true)
@@ -398,108 +438,130 @@ function isBinaryFile(filePath: string): boolean {
   return binaryExtensions.includes(ext)
 }
 
-async function parseCommitDiff(repoPath: string, commitHash: string, config: SimplifiedConfig): Promise<{ linesAdded: number; linesDeleted: number; bytesAdded: number; bytesDeleted: number; filesChanged: FileChange[] }> {
-  const git = simpleGit(repoPath)
-  
-  // Check if this is the first commit
-  let isFirstCommit = false
-  try {
-    await git.revparse([`${commitHash}^`])
-  } catch {
-    isFirstCommit = true
-  }
-  
-  // For first commit, use proper syntax
-  // 4b825dc642cb6eb9a060e54bf8d69288fbee4904 is Git's empty tree hash - represents an empty repository
-  // This allows us to diff the first commit against "nothing" to see all changes introduced
-  const diffArgs = isFirstCommit 
-    ? [`4b825dc642cb6eb9a060e54bf8d69288fbee4904..${commitHash}`]
-    : [commitHash + '^!']
-  
-  const diffSummary = await git.diffSummary(diffArgs)
-  
-  // Get byte changes using git diff --stat
-  const byteChanges = await getByteChanges(repoPath, commitHash, config)
-  
-  // Use the extracted pure function
-  return parseCommitDiffData(diffSummary, byteChanges, config)
+interface CommitLogRecord {
+  hash: string
+  parents: string[]
+  authorName: string
+  authorEmail: string
+  date: string
+  message: string
+  body: string
+  rawLines: string[]
+  numstatLines: string[]
 }
 
+// Control characters that cannot appear in commit headers, used to split the log stream
+const COMMIT_MARKER = '\x1e'
+const FIELD_SEPARATOR = '\x1f'
+const BODY_END = '\x1d'
 
-
-
-async function getByteChanges(repoPath: string, commitHash: string, config: SimplifiedConfig): Promise<{ 
-  totalBytesAdded: number; 
-  totalBytesDeleted: number; 
-  fileChanges: Record<string, { bytesAdded: number; bytesDeleted: number }> 
-}> {
+async function countCommits(repoPath: string, revisionArgs: string[]): Promise<number> {
   const git = simpleGit(repoPath)
+  const result = await git.raw(['rev-list', '--count', ...revisionArgs, '--'])
+  const count = parseInt(result.trim(), 10)
+  return isNaN(count) ? 0 : count
+}
+
+/**
+ * Stream commits in chronological order from a single `git log --numstat --raw` process.
+ * Merge commits are diffed against their first parent, matching `git diff <sha>^!`.
+ */
+async function* streamCommitLog(repoPath: string, revisionArgs: string[]): AsyncGenerator<CommitLogRecord> {
+  const format = [`${COMMIT_MARKER}%H`, '%P', '%an', '%ae', '%ai', '%s', `%b${BODY_END}`].join(FIELD_SEPARATOR)
+  const child = spawn('git', [
+    'log',
+    `--format=${format}`,
+    '--reverse',
+    '--root',
+    '--raw',
+    '--numstat',
+    '--no-abbrev',
+    '--no-color',
+    '--diff-merges=first-parent',
+    ...revisionArgs,
+    '--'
+  ], { cwd: repoPath })
+  
+  let stderr = ''
+  let spawnError: Error | null = null
+  child.stderr.on('data', chunk => {
+    stderr += chunk.toString()
+  })
+  const exited = new Promise<number | null>(resolve => {
+    child.on('error', error => {
+      spawnError = error
+      resolve(null)
+    })
+    child.on('close', resolve)
+  })
   
-  // Get the raw diff output with blob hashes
-  const rawDiff = await git.show([commitHash, '--raw', '--format='])
-  const lines = rawDiff.trim().split('\n').filter(l => l.trim())
-  
-  const fileChanges: Record<string, { bytesAdded: number; bytesDeleted: number }> = {}
-  let totalBytesAdded = 0
-  let totalBytesDeleted = 0
-  
-  // Collect all blob hashes we need to check
-  const blobsToCheck: string[] = []
-  const fileInfo: Array<{ fileName: string; oldBlob: string; newBlob: string }> = []
+  let current: CommitLogRecord | null = null
+  // The header spans several lines when the commit has a body, so collect it up to BODY_END
+  let header: string | null = null
   
-  for (const line of lines) {
-    // Parse raw diff format: :100644 100644 oldblob newblob M filename
-    const match = line.match(/^:(\d+)\s+(\d+)\s+([0-9a-f]+)\s+([0-9a-f]+)\s+([AMDRC])\s+(.+)$/)
-    if (!match) continue
-    
-    const [, , , oldBlob, newBlob, , fileName] = match
-    
-    if (!oldBlob || !newBlob || !fileName) continue
-    
-    // Skip excluded files, but allow renames through so cumulative-exclusion can handle them
-    if (fileName.includes(' => ')) {
-      // This is a rename, let it through for cumulative exclusion processing
-    } else if (isFileExcluded(fileName, config.exclusions.patterns)) {
-      continue
+  try {
+    for await (const line of createInterface({ input: child.stdout, crlfDelay: Infinity })) {
+      if (line.startsWith(COMMIT_MARKER)) {
+        if (current) {
+          yield current
+        }
+        current = null
+        header = line.slice(1)
+      } else if (header !== null) {
+        header += `\n${line}`
+      }
+      
+      if (header !== null) {
+        if (header.endsWith(BODY_END)) {
+          const [hash = '', parents = '', authorName = '', authorEmail = '', date = '', message = '', body = ''] = header.slice(0, -1).split(FIELD_SEPARATOR)
+          current = {
+            hash,
+            parents: parents.split(' ').filter(parent => parent.length > 0),
+            authorName,
+            authorEmail,
+            date,
+            message,
+            body,
+            rawLines: [],
+            numstatLines: []
+          }
+          header = null
+        }
+      } else if (current && line.startsWith(':')) {
+        current.rawLines.push(line)
+      } else if (current && line.length > 0) {
+        current.numstatLines.push(line)
+      }
     }
     
-    // For deletions, oldBlob exists but newBlob is 0000000
-    // For additions, oldBlob is 0000000 but newBlob exists
-    // For modifications, both exist
-    if (oldBlob !== '0000000' && !oldBlob.startsWith('0000000')) {
-      blobsToCheck.push(oldBlob)
+    if (current) {
+      yield current
     }
-    if (newBlob !== '0000000' && !newBlob.startsWith('0000000')) {
-      blobsToCheck.push(newBlob)
+  } finally {
+    if (child.exitCode === null) {
+      child.kill()
     }
-    
-    fileInfo.push({ fileName, oldBlob, newBlob })
   }
   
-  // Get sizes for all blobs
-  const blobSizes: Record<string, number> = {}
-  for (const blob of blobsToCheck) {
-    try {
-      const size = await git.raw(['cat-file', '-s', blob])
-      blobSizes[blob] = parseInt(size.trim()) || 0
-    } catch {
-      // Blob might not exist (e.g., in shallow clones)
-      blobSizes[blob] = 0
-    }
+  const exitCode = await exited
+  if (spawnError) {
+    throw new GitParseError(`Failed to run git log: ${formatError(spawnError)}`, spawnError)
   }
-  
-  // Calculate byte changes for each file
-  for (const { fileName, oldBlob, newBlob } of fileInfo) {
-    const oldSize = (oldBlob === '0000000' || oldBlob.startsWith('0000000')) ? 0 : (blobSizes[oldBlob] || 0)
-    const newSize = (newBlob === '0000000' || newBlob.startsWith('0000000')) ? 0 : (blobSizes[newBlob] || 0)
-    
-    const bytesAdded = Math.max(0, newSize - oldSize)
-    const bytesDeleted = Math.max(0, oldSize - newSize)
-    
-    fileChanges[fileName] = { bytesAdded, bytesDeleted }
-    totalBytesAdded += bytesAdded
-    totalBytesDeleted += bytesDeleted
+  if (exitCode !== 0) {
+    throw new GitParseError(`git log failed: ${stderr.trim()}`)
   }
+}
+
+async function parseCommitDiff(commit: CommitLogRecord, blobSizeReader: BlobSizeReader, config: SimplifiedConfig): Promise<ParsedCommitDiff> {
+  const diffSummary = parseNumstatLines(commit.numstatLines)
   
-  return { totalBytesAdded, totalBytesDeleted, fileChanges }
-}
\ No newline at end of file
+  // Merge commits carry no byte changes; their content is counted on the merged branch commits
+  const rawEntries = commit.parents.length > 1 ? [] : parseRawDiffLines(commit.rawLines, config)
+  
+  const blobs = rawEntries
+    .flatMap(entry => [entry.oldBlob, entry.newBlob])
+    .filter(blob => !isNullBlob(blob))
+  const blobSizes = await blobSizeReader.getSizes(blobs)
+  
+  return parseCommitDiffData(diffSummary, calculateByteChanges(rawEntries, blobSizes), config)
+}
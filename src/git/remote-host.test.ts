@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { parseRemoteUrl, resolveRemoteHost } from './remote-host.js'
+
+describe('parseRemoteUrl', () => {
+  it('reads scp-style, SSH and HTTPS remotes', () => {
+    expect(parseRemoteUrl('git@github.com:owner/repo.git')).toEqual({ scheme: 'https', host: 'github.com', path: 'owner/repo' })
+    expect(parseRemoteUrl('ssh://git@git.example.com:2222/group/sub/app.git')).toEqual({ scheme: 'https', host: 'git.example.com', path: 'group/sub/app' })
+    expect(parseRemoteUrl('https://user@git.example.com:8443/group/app/')).toEqual({ scheme: 'https', host: 'git.example.com:8443', path: 'group/app' })
+    expect(parseRemoteUrl('http://git.internal/group/app.git')).toEqual({ scheme: 'http', host: 'git.internal', path: 'group/app' })
+  })
+
+  it('ignores local paths', () => {
+    expect(parseRemoteUrl('/srv/git/app.git')).toBeNull()
+    expect(parseRemoteUrl('C:\\repos\\app')).toBeNull()
+    expect(parseRemoteUrl('file:///srv/git/app.git')).toBeNull()
+  })
+})
+
+describe('resolveRemoteHost', () => {
+  it('builds GitHub links', () => {
+    expect(resolveRemoteHost('https://github.com/owner/repo.git')).toEqual({
+      forge: 'github',
+      name: 'GitHub',
+      url: 'https://github.com/owner/repo',
+      commitUrl: 'https://github.com/owner/repo/commit/{sha}',
+      fileUrl: 'https://github.com/owner/repo/blob/{ref}/{path}',
+      compareUrl: 'https://github.com/owner/repo/compare/{from}...{to}',
+      issueUrl: 'https://github.com/owner/repo/issues/{number}'
+    })
+  })
+
+  it('builds GitLab links for nested groups', () => {
+    const host = resolveRemoteHost('git@gitlab.com:group/subgroup/app.git')!
+
+    expect(host.url).toBe('https://gitlab.com/group/subgroup/app')
+    expect(host.commitUrl).toBe('https://gitlab.com/group/subgroup/app/-/commit/{sha}')
+    expect(host.fileUrl).toBe('https://gitlab.com/group/subgroup/app/-/blob/{ref}/{path}')
+    expect(host.issueUrl).toBe('https://gitlab.com/group/subgroup/app/-/issues/{number}')
+  })
+
+  it('builds Bitbucket Cloud and Gitea links', () => {
+    expect(resolveRemoteHost('git@bitbucket.org:team/app.git')!.commitUrl).toBe('https://bitbucket.org/team/app/commits/{sha}')
+    expect(resolveRemoteHost('https://codeberg.org/owner/app.git')).toMatchObject({ forge: 'gitea', fileUrl: 'https://codeberg.org/owner/app/src/commit/{ref}/{path}' })
+  })
+
+  it('builds Azure DevOps links from SSH and HTTPS remotes', () => {
+    const url = 'https://dev.azure.com/org/project/_git/app'
+
+    expect(resolveRemoteHost('git@ssh.dev.azure.com:v3/org/project/app')!.url).toBe(url)
+    expect(resolveRemoteHost('https://org@dev.azure.com/org/project/_git/app')).toMatchObject({ forge: 'azure', url, commitUrl: `${url}/commit/{sha}`, issueUrl: 'https://dev.azure.com/org/project/_workitems/edit/{number}' })
+    expect(resolveRemoteHost('org@vs-ssh.visualstudio.com:v3/org/project/app')!.url).toBe('https://org.visualstudio.com/project/_git/app')
+  })
+
+  it('maps self-hosted domains through config', () => {
+    const host = resolveRemoteHost('git@git.example.com:team/app.git', { 'git.example.com': 'gitlab' })!
+
+    expect(host).toMatchObject({ forge: 'gitlab', name: 'GitLab', url: 'https://git.example.com/team/app' })
+    expect(resolveRemoteHost('git@git.example.com:team/app.git')).toBeNull()
+  })
+
+  it('recognizes self-hosted instances named after their forge', () => {
+    expect(resolveRemoteHost('git@gitlab.example.com:team/app.git')!.forge).toBe('gitlab')
+    expect(resolveRemoteHost('https://forgejo.example.com/team/app.git')!.forge).toBe('gitea')
+  })
+
+  it('uses Bitbucket Server paths for self-hosted Bitbucket', () => {
+    const host = resolveRemoteHost('https://bitbucket.example.com/scm/proj/app.git')!
+
+    expect(host.url).toBe('https://bitbucket.example.com/projects/PROJ/repos/app')
+    expect(host.fileUrl).toBe('https://bitbucket.example.com/projects/PROJ/repos/app/browse/{path}?at={ref}')
+    expect(host.issueUrl).toBeNull()
+  })
+})
@@ -0,0 +1,173 @@
+import { simpleGit } from 'simple-git'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+
+export type ForgeType = SimplifiedConfig['links']['hosts'][string]
+
+/**
+ * Web links for a repository on a code host. The URL templates have the
+ * repository filled in; `{sha}`, `{ref}`, `{path}`, `{from}`, `{to}` and
+ * `{number}` are left for `fillLinkTemplate`.
+ */
+export interface RemoteHost {
+  forge: ForgeType
+  name: string // display name of the forge, e.g. GitLab
+  url: string // web page of the repository
+  commitUrl: string // {sha}
+  fileUrl: string // {ref} and {path}
+  compareUrl: string // {from} and {to}
+  issueUrl: string | null // {number}; null when issues live in a separate tracker
+}
+
+interface RemoteLocation {
+  scheme: 'https' | 'http'
+  host: string // with the port for web remotes
+  path: string // without leading slash or .git suffix
+}
+
+const FORGE_NAMES: Record<ForgeType, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+  gitea: 'Gitea',
+  azure: 'Azure DevOps'
+}
+
+const KNOWN_HOSTS: Record<string, ForgeType> = {
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'bitbucket.org': 'bitbucket',
+  'codeberg.org': 'gitea',
+  'gitea.com': 'gitea',
+  'dev.azure.com': 'azure',
+  'ssh.dev.azure.com': 'azure',
+  'vs-ssh.visualstudio.com': 'azure'
+}
+
+/**
+ * Host and repository path of an SSH, scp-style or HTTP(S) remote URL, or
+ * null for local paths
+ */
+export function parseRemoteUrl(remote: string): RemoteLocation | null {
+  const trimmed = remote.trim()
+  const clean = (path: string) => path.replace(/^\/+/, '').replace(/\/+$/, '').replace(/\.git$/, '')
+
+  if (trimmed.includes('://')) {
+    let url: URL
+    try {
+      url = new URL(trimmed)
+    } catch {
+      return null
+    }
+    if (!['https:', 'http:', 'ssh:', 'git:', 'git+ssh:'].includes(url.protocol) || !url.hostname) return null
+    const web = url.protocol === 'https:' || url.protocol === 'http:'
+    return {
+      scheme: url.protocol === 'http:' ? 'http' : 'https',
+      // SSH ports say nothing about where the web interface lives
+      host: (web ? url.host : url.hostname).toLowerCase(),
+      path: clean(decodeURIComponent(url.pathname))
+    }
+  }
+
+  // scp-like syntax: [user@]host:path
+  const scp = trimmed.match(/^(?:[^@/\s]+@)?([^:/\s]+):(.+)$/)
+  if (!scp || scp[1]!.length === 1) return null // C:\repo is a Windows path
+  return { scheme: 'https', host: scp[1]!.toLowerCase(), path: clean(scp[2]!) }
+}
+
+function detectForge(host: string, hosts: Record<string, ForgeType>): ForgeType | null {
+  const hostname = host.replace(/:\d+$/, '')
+  const configured = Object.entries(hosts).find(([domain]) => [host, hostname].includes(domain.toLowerCase()))
+  if (configured) return configured[1]
+  if (KNOWN_HOSTS[hostname]) return KNOWN_HOSTS[hostname]!
+  if (hostname.endsWith('.visualstudio.com')) return 'azure'
+
+  // Self-hosted instances are often named after their forge, e.g. gitlab.example.com
+  const labels = hostname.split('.')
+  const named = (['github', 'gitlab', 'gitea', 'forgejo', 'bitbucket'] as const).find(forge => labels.some(label => label.includes(forge)))
+  if (named) return named === 'forgejo' ? 'gitea' : named
+  return null
+}
+
+function createAzureHost(location: RemoteLocation): RemoteHost | null {
+  const segments = location.path.split('/')
+  let url: string
+  if (segments[0] === 'v3' && segments.length === 4) {
+    // SSH remotes: v3/organization/project/repository
+    const [, organization, project, repository] = segments
+    url = location.host === 'vs-ssh.visualstudio.com'
+      ? `https://${organization}.visualstudio.com/${project}/_git/${repository}`
+      : `https://dev.azure.com/${organization}/${project}/_git/${repository}`
+  } else if (segments.includes('_git')) {
+    url = `${location.scheme}://${location.host}/${location.path}`
+  } else {
+    return null
+  }
+
+  return {
+    forge: 'azure',
+    name: FORGE_NAMES.azure,
+    url,
+    commitUrl: `${url}/commit/{sha}`,
+    fileUrl: `${url}?path=/{path}&version=GC{ref}`,
+    compareUrl: `${url}/branchCompare?baseVersion=GC{from}&targetVersion=GC{to}`,
+    // #123 refers to a work item of the project
+    issueUrl: `${url.slice(0, url.lastIndexOf('/_git/'))}/_workitems/edit/{number}`
+  }
+}
+
+function createBitbucketServerHost(location: RemoteLocation): RemoteHost | null {
+  // Clone URLs are /scm/project/repo over HTTP(S) and /project/repo over SSH
+  const match = location.path.replace(/^scm\//, '').match(/^([^/]+)\/([^/]+)$/)
+  if (!match) return null
+
+  const url = `${location.scheme}://${location.host}/projects/${match[1]!.toUpperCase()}/repos/${match[2]}`
+  return {
+    forge: 'bitbucket',
+    name: FORGE_NAMES.bitbucket,
+    url,
+    commitUrl: `${url}/commits/{sha}`,
+    fileUrl: `${url}/browse/{path}?at={ref}`,
+    compareUrl: `${url}/compare/diff?sourceBranch={to}&targetBranch={from}`,
+    // Bitbucket Server has no issue tracker of its own
+    issueUrl: null
+  }
+}
+
+/**
+ * Resolve a remote URL to the web pages of its forge. `hosts` maps self-hosted
+ * domains to a forge and takes precedence over detection by domain name.
+ */
+export function resolveRemoteHost(remote: string, hosts: Record<string, ForgeType> = {}): RemoteHost | null {
+  const location = parseRemoteUrl(remote)
+  if (!location || !location.path.includes('/')) return null
+
+  const forge = detectForge(location.host, hosts)
+  if (!forge) return null
+  if (forge === 'azure') return createAzureHost(location)
+  if (forge === 'bitbucket' && location.host !== 'bitbucket.org') return createBitbucketServerHost(location)
+
+  const url = `${location.scheme}://${location.host}/${location.path}`
+  const base = { forge, name: FORGE_NAMES[forge], url }
+  switch (forge) {
+    case 'github':
+      return { ...base, commitUrl: `${url}/commit/{sha}`, fileUrl: `${url}/blob/{ref}/{path}`, compareUrl: `${url}/compare/{from}...{to}`, issueUrl: `${url}/issues/{number}` }
+    case 'gitlab':
+      return { ...base, commitUrl: `${url}/-/commit/{sha}`, fileUrl: `${url}/-/blob/{ref}/{path}`, compareUrl: `${url}/-/compare/{from}...{to}`, issueUrl: `${url}/-/issues/{number}` }
+    case 'bitbucket':
+      return { ...base, commitUrl: `${url}/commits/{sha}`, fileUrl: `${url}/src/{ref}/{path}`, compareUrl: `${url}/branches/compare/{to}%0D{from}`, issueUrl: `${url}/issues/{number}` }
+    case 'gitea':
+      return { ...base, commitUrl: `${url}/commit/{sha}`, fileUrl: `${url}/src/commit/{ref}/{path}`, compareUrl: `${url}/compare/{from}...{to}`, issueUrl: `${url}/issues/{number}` }
+  }
+}
+
+/**
+ * Web links for the repository's origin remote, or null when it has none or
+ * the host is not recognized
+ */
+export async function getRemoteHost(repoPath: string, config: SimplifiedConfig): Promise<RemoteHost | null> {
+  const git = simpleGit(repoPath)
+  const remotes = await git.getRemotes(true)
+  const origin = remotes.find(r => r.name === 'origin')
+  if (!origin?.refs.fetch) return null
+  return resolveRemoteHost(origin.refs.fetch, config.links.hosts)
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { parseCommitHistory, getRevisionSelection } from './parser.js'
+import { DEFAULT_CONFIG } from '../config/defaults.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+
+function withAnalysis(analysis: Partial<SimplifiedConfig['analysis']>): SimplifiedConfig {
+  return {
+    ...DEFAULT_CONFIG,
+    analysis: { ...DEFAULT_CONFIG.analysis, ...analysis }
+  }
+}
+
+describe('Revision Selection', () => {
+  const TEST_CACHE_DIR = 'repo-statter-cache-selection-test'
+  let testRepoPath: string
+  
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-test-'))
+    
+    execSync('git init', { cwd: testRepoPath })
+    execSync('git config user.name "Test User"', { cwd: testRepoPath })
+    execSync('git config user.email "test@example.com"', { cwd: testRepoPath })
+    
+    const commit = (file: string, message: string, date: string) => {
+      writeFileSync(join(testRepoPath, file), `// ${message}\n`)
+      execSync(`git add ${file}`, { cwd: testRepoPath })
+      execSync(`git commit -m "${message}"`, {
+        cwd: testRepoPath,
+        env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date }
+      })
+    }
+    
+    commit('a.js', 'January work', '2024-01-15T12:00:00Z')
+    commit('b.js', 'February work', '2024-02-15T12:00:00Z')
+    execSync('git tag v1.0', { cwd: testRepoPath })
+    commit('c.js', 'March work', '2024-03-15T12:00:00Z')
+    execSync('git tag v2.0', { cwd: testRepoPath })
+    
+    execSync('git checkout -q -b release v1.0', { cwd: testRepoPath })
+    commit('hotfix.js', 'Release hotfix', '2024-04-15T12:00:00Z')
+    execSync('git checkout -q -', { cwd: testRepoPath })
+  })
+  
+  afterAll(() => {
+    if (testRepoPath) {
+      rmSync(testRepoPath, { recursive: true, force: true })
+    }
+    rmSync(join(tmpdir(), TEST_CACHE_DIR), { recursive: true, force: true })
+  })
+  
+  it('should build git arguments from the analysis config', () => {
+    expect(getRevisionSelection(DEFAULT_CONFIG.analysis)).toEqual({ revisions: [], filters: [] })
+    expect(getRevisionSelection(withAnalysis({ branch: 'release', since: '2024-01-01', until: '2024-02-01' }).analysis)).toEqual({
+      revisions: ['release'],
+      filters: ['--since=2024-01-01', '--until=2024-02-01']
+    })
+  })
+  
+  it('should analyze a branch other than HEAD', async () => {
+    const commits = await parseCommitHistory(testRepoPath, undefined, undefined, { useCache: false }, withAnalysis({ branch: 'release' }))
+    
+    expect(commits.map(c => c.message)).toEqual(['January work', 'February work', 'Release hotfix'])
+  })
+  
+  it('should analyze only the commits in a range', async () => {
+    const commits = await parseCommitHistory(testRepoPath, undefined, undefined, { useCache: false }, withAnalysis({ range: 'v1.0..v2.0' }))
+    
+    expect(commits.map(c => c.message)).toEqual(['March work'])
+  })
+  
+  it('should analyze only the commits in a date window', async () => {
+    const commits = await parseCommitHistory(testRepoPath, undefined, undefined, { useCache: false }, withAnalysis({ since: '2024-02-01', until: '2024-02-28' }))
+    
+    expect(commits.map(c => c.message)).toEqual(['February work'])
+  })
+  
+  it('should combine a date window with max commits', async () => {
+    const commits = await parseCommitHistory(testRepoPath, undefined, 1, { useCache: false }, withAnalysis({ until: '2024-02-28' }))
+    
+    expect(commits.map(c => c.message)).toEqual(['February work'])
+  })
+  
+  it('should not reuse cached commits from a different selection', async () => {
+    const cacheConfig = withAnalysis({ branch: 'release' })
+    cacheConfig.performance = { ...DEFAULT_CONFIG.performance, cacheDirName: TEST_CACHE_DIR }
+    
+    await parseCommitHistory(testRepoPath, undefined, undefined, { useCache: true, clearCache: true }, cacheConfig)
+    const releaseCommits = await parseCommitHistory(testRepoPath, undefined, undefined, { useCache: true }, cacheConfig)
+    const headCommits = await parseCommitHistory(testRepoPath, undefined, undefined, { useCache: true }, { ...cacheConfig, analysis: DEFAULT_CONFIG.analysis })
+    
+    expect(releaseCommits.map(c => c.message)).toContain('Release hotfix')
+    expect(headCommits.map(c => c.message)).not.toContain('Release hotfix')
+    expect(headCommits.map(c => c.message)).toContain('March work')
+  })
+  
+  it('should not read or write the cache for a date window', async () => {
+    const cacheConfig = withAnalysis({ since: '2024-03-01' })
+    cacheConfig.performance = { ...DEFAULT_CONFIG.performance, cacheDirName: TEST_CACHE_DIR }
+    const headConfig = { ...cacheConfig, analysis: DEFAULT_CONFIG.analysis }
+    
+    await parseCommitHistory(testRepoPath, undefined, undefined, { useCache: true, clearCache: true }, headConfig)
+    const windowCommits = await parseCommitHistory(testRepoPath, undefined, undefined, { useCache: true }, cacheConfig)
+    const headCommits = await parseCommitHistory(testRepoPath, undefined, undefined, { useCache: true }, headConfig)
+    
+    expect(windowCommits.map(c => c.message)).toEqual(['March work'])
+    expect(headCommits.map(c => c.message)).toEqual(['January work', 'February work', 'March work'])
+  })
+  
+  it('should fail clearly for an unknown branch', async () => {
+    await expect(
+      parseCommitHistory(testRepoPath, undefined, undefined, { useCache: false }, withAnalysis({ branch: 'does-not-exist' }))
+    ).rejects.toThrow('Unknown branch or range: does-not-exist')
+  })
+})
@@ -0,0 +1,57 @@
+import { simpleGit } from 'simple-git'
+import { Minimatch } from 'minimatch'
+import { GitParseError, formatError } from '../utils/errors.js'
+
+export interface GitTag {
+  name: string
+  sha: string // commit the tag points at, peeled for annotated tags
+  date: string
+  annotated: boolean
+  message?: string // subject line of annotated tags
+}
+
+/**
+ * List tags in creation order. Annotated tags are peeled to their commit, and
+ * tags that point at trees or blobs are skipped.
+ */
+export async function getTags(repoPath: string): Promise<GitTag[]> {
+  const git = simpleGit(repoPath)
+
+  let output: string
+  try {
+    output = await git.raw([
+      'for-each-ref',
+      '--sort=creatordate',
+      '--format=%(refname:short)%00%(objecttype)%00%(objectname)%00%(*objecttype)%00%(*objectname)%00%(creatordate:iso-strict)%00%(contents:subject)',
+      'refs/tags'
+    ])
+  } catch (error) {
+    throw new GitParseError(`Failed to list tags: ${formatError(error)}`, error instanceof Error ? error : undefined)
+  }
+
+  const tags: GitTag[] = []
+  for (const line of output.split('\n')) {
+    if (!line) continue
+
+    const [name = '', type, sha = '', peeledType, peeledSha = '', date = '', subject = ''] = line.split('\0')
+    if (type === 'commit') {
+      tags.push({ name, sha, date, annotated: false })
+    } else if (type === 'tag' && peeledType === 'commit') {
+      tags.push({ name, sha: peeledSha, date, annotated: true, ...(subject ? { message: subject } : {}) })
+    }
+  }
+
+  return tags
+}
+
+/**
+ * Keep tags whose name matches any of the glob patterns; no patterns keeps every tag
+ */
+export function filterTags(tags: GitTag[], patterns: string[]): GitTag[] {
+  if (patterns.length === 0) {
+    return tags
+  }
+
+  const matchers = patterns.map(pattern => new Minimatch(pattern))
+  return tags.filter(tag => matchers.some(matcher => matcher.match(tag.name)))
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { calculateBadgeMetrics, formatCount, getBadges, renderBadge, generateBadges } from './badges.js'
+import { CommitDataBuilder, FileChangeBuilder } from '../test/builders.js'
+import type { ProcessedData } from '../data/unified-pipeline.js'
+import type { CategoryBreakdown } from '../data/types.js'
+
+function breakdown(application: number, test: number): CategoryBreakdown {
+  return { total: application + test, application, test, build: 0, documentation: 0, other: 0 }
+}
+
+describe('calculateBadgeMetrics', () => {
+  const now = new Date('2024-06-30T12:00:00Z')
+  const pipelineData = {
+    commits: [
+      new CommitDataBuilder().withDate('2024-01-01T00:00:00Z').withFileChange(new FileChangeBuilder().withAdditions(300).withDeletions(0).build()).build(),
+      new CommitDataBuilder().withDate('2024-06-10T00:00:00Z').withFileChange(new FileChangeBuilder().withAdditions(50).withDeletions(20).build()).build(),
+      new CommitDataBuilder().withDate('2024-06-29T00:00:00Z').withFileChange(new FileChangeBuilder().withAdditions(10).withDeletions(40).build()).build()
+    ],
+    contributors: [{ name: 'A', commits: 2, linesAdded: 0, linesDeleted: 0 }, { name: 'B', commits: 1, linesAdded: 0, linesDeleted: 0 }],
+    timeSeries: [{ cumulativeLines: breakdown(200, 100) }],
+    ownership: { busFactor: 2 }
+  } as unknown as ProcessedData
+
+  it('counts lines, contributors, recent commits, test ratio and bus factor', () => {
+    expect(calculateBadgeMetrics(pipelineData, now)).toEqual({
+      linesOfCode: 300,
+      contributors: 2,
+      recentCommits: 2,
+      testRatio: 0.5,
+      busFactor: 2
+    })
+  })
+
+  it('reports missing test ratio and bus factor as null', () => {
+    const metrics = calculateBadgeMetrics({ ...pipelineData, timeSeries: [{ cumulativeLines: breakdown(0, 10) }], ownership: undefined } as unknown as ProcessedData, now)
+
+    expect(metrics.testRatio).toBeNull()
+    expect(metrics.busFactor).toBeNull()
+    expect(getBadges(metrics).filter(badge => badge.value === 'n/a').map(badge => badge.file)).toEqual(['test-ratio.svg', 'bus-factor.svg'])
+  })
+})
+
+describe('formatCount', () => {
+  it('abbreviates like shields.io', () => {
+    expect(formatCount(950)).toBe('950')
+    expect(formatCount(1000)).toBe('1k')
+    expect(formatCount(1234)).toBe('1.2k')
+    expect(formatCount(56789)).toBe('57k')
+    expect(formatCount(4_500_000)).toBe('4.5M')
+  })
+})
+
+describe('renderBadge', () => {
+  it('renders label and value with an accessible title', () => {
+    const svg = renderBadge('bus factor', '<3', '#4c1')
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/)
+    expect(svg).toContain('aria-label="bus factor: &lt;3"')
+    expect(svg).toContain('fill="#4c1"')
+    expect(svg).toContain('>&lt;3</text>')
+  })
+})
+
+describe('generateBadges', () => {
+  let testRepoPath: string
+  let outputDir: string
+
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-badges-'))
+    outputDir = mkdtempSync(join(tmpdir(), 'repo-statter-badges-out-'))
+    execSync('git init', { cwd: testRepoPath })
+    execSync('git config user.name "Test User"', { cwd: testRepoPath })
+    execSync('git config user.email "test@example.com"', { cwd: testRepoPath })
+
+    writeFileSync(join(testRepoPath, 'app.ts'), 'export const a = 1\nexport const b = 2\n')
+    writeFileSync(join(testRepoPath, 'app.test.ts'), 'import { a } from "./app"\n')
+    execSync('git add . && git commit -m "Add app"', { cwd: testRepoPath })
+  })
+
+  afterAll(() => {
+    rmSync(testRepoPath, { recursive: true, force: true })
+    rmSync(outputDir, { recursive: true, force: true })
+  })
+
+  it('writes every badge into the output directory', async () => {
+    const paths = await generateBadges(testRepoPath, outputDir, undefined, undefined, { useCache: false }, TEST_CONFIG)
+
+    expect(paths).toEqual(['loc.svg', 'contributors.svg', 'commits-30d.svg', 'test-ratio.svg', 'bus-factor.svg'].map(file => join(outputDir, file)))
+    expect(readFileSync(join(outputDir, 'loc.svg'), 'utf-8')).toContain('aria-label="lines of code: 3"')
+    expect(readFileSync(join(outputDir, 'test-ratio.svg'), 'utf-8')).toContain('aria-label="test ratio: 0.50"')
+    expect(readFileSync(join(outputDir, 'commits-30d.svg'), 'utf-8')).toContain('aria-label="commits (30d): 1"')
+  })
+})
@@ -0,0 +1,156 @@
+import { join, resolve } from 'path'
+import { writeFile, mkdir } from 'fs/promises'
+import { buildAnalysisContext } from './generator.js'
+import { DataPipeline, type ProcessedData } from '../data/unified-pipeline.js'
+import type { CacheOptions } from '../git/parser.js'
+import type { ProgressReporter } from '../utils/progress-reporter.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+
+const RECENT_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const COLORS = {
+  green: '#4c1',
+  yellow: '#dfb317',
+  orange: '#fe7d37',
+  red: '#e05d44',
+  blue: '#007ec6',
+  grey: '#9f9f9f'
+}
+
+export interface BadgeMetrics {
+  linesOfCode: number
+  contributors: number
+  recentCommits: number // Commits in the last 30 days
+  testRatio: number | null // Test lines per application line, null without application code
+  busFactor: number | null // null when ownership could not be calculated
+}
+
+export interface Badge {
+  file: string
+  label: string
+  value: string
+  color: string
+}
+
+/**
+ * `now` is only there for tests; recent commits are counted back from the current time
+ */
+export function calculateBadgeMetrics(pipelineData: ProcessedData, now: Date = new Date()): BadgeMetrics {
+  const { commits, contributors, timeSeries, ownership } = pipelineData
+  const since = now.getTime() - RECENT_DAYS * DAY_MS
+
+  const linesAdded = commits.reduce((sum, commit) => sum + commit.linesAdded, 0)
+  const linesDeleted = commits.reduce((sum, commit) => sum + commit.linesDeleted, 0)
+  const currentLines = timeSeries[timeSeries.length - 1]?.cumulativeLines
+
+  return {
+    // Same hero metric as the HTML report
+    linesOfCode: Math.max(0, linesAdded - linesDeleted),
+    contributors: contributors.length,
+    recentCommits: commits.filter(commit => new Date(commit.date).getTime() >= since).length,
+    testRatio: currentLines && currentLines.application > 0 ? currentLines.test / currentLines.application : null,
+    busFactor: ownership ? ownership.busFactor : null
+  }
+}
+
+/**
+ * Shields-style abbreviation: 950, 12.3k, 4.5M
+ */
+export function formatCount(value: number): string {
+  if (value < 1000) return String(value)
+  if (value < 1_000_000) return `${(value / 1000).toFixed(value < 10_000 ? 1 : 0).replace(/\.0$/, '')}k`
+  return `${(value / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`
+}
+
+export function getBadges(metrics: BadgeMetrics): Badge[] {
+  const { linesOfCode, contributors, recentCommits, testRatio, busFactor } = metrics
+
+  return [
+    { file: 'loc.svg', label: 'lines of code', value: formatCount(linesOfCode), color: COLORS.blue },
+    { file: 'contributors.svg', label: 'contributors', value: formatCount(contributors), color: COLORS.blue },
+    {
+      file: 'commits-30d.svg',
+      label: 'commits (30d)',
+      value: formatCount(recentCommits),
+      color: recentCommits === 0 ? COLORS.grey : COLORS.green
+    },
+    {
+      file: 'test-ratio.svg',
+      label: 'test ratio',
+      value: testRatio === null ? 'n/a' : testRatio.toFixed(2),
+      color: testRatio === null ? COLORS.grey : testRatio >= 0.5 ? COLORS.green : testRatio >= 0.2 ? COLORS.yellow : COLORS.red
+    },
+    {
+      file: 'bus-factor.svg',
+      label: 'bus factor',
+      value: busFactor === null ? 'n/a' : String(busFactor),
+      color: busFactor === null ? COLORS.grey : busFactor >= 3 ? COLORS.green : busFactor === 2 ? COLORS.yellow : COLORS.orange
+    }
+  ]
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * Approximate width of Verdana 11px, the badge font, so no font metrics are needed offline
+ */
+function textWidth(text: string): number {
+  let width = 0
+  for (const char of text) {
+    if ('iljtfI.,:;!|\'()[] '.includes(char)) width += 4
+    else if ('mwMW@%'.includes(char)) width += 10
+    else if (char >= 'A' && char <= 'Z') width += 7.5
+    else width += 7
+  }
+  return Math.ceil(width)
+}
+
+/**
+ * Render a flat, shields.io-style badge
+ */
+export function renderBadge(label: string, value: string, color: string): string {
+  const labelWidth = textWidth(label) + 10
+  const valueWidth = textWidth(value) + 10
+  const width = labelWidth + valueWidth
+  const title = escapeXml(`${label}: ${value}`)
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${title}">` +
+    `<title>${title}</title>` +
+    '<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>' +
+    `<clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>` +
+    '<g clip-path="url(#r)">' +
+    `<rect width="${labelWidth}" height="20" fill="#555"/>` +
+    `<rect x="${labelWidth}" width="${valueWidth}" height="20" fill="${color}"/>` +
+    `<rect width="${width}" height="20" fill="url(#s)"/>` +
+    '</g>' +
+    '<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">' +
+    `<text x="${labelWidth / 2}" y="15" fill="#010101" fill-opacity=".3">${escapeXml(label)}</text>` +
+    `<text x="${labelWidth / 2}" y="14">${escapeXml(label)}</text>` +
+    `<text x="${labelWidth + valueWidth / 2}" y="15" fill="#010101" fill-opacity=".3">${escapeXml(value)}</text>` +
+    `<text x="${labelWidth + valueWidth / 2}" y="14">${escapeXml(value)}</text>` +
+    '</g></svg>\n'
+}
+
+/**
+ * Analyze the repository and write one SVG per badge into `outputDir`
+ */
+export async function generateBadges(repoPath: string, outputDir: string = 'dist', progressReporter?: ProgressReporter, maxCommits?: number, cacheOptions?: CacheOptions, config?: SimplifiedConfig): Promise<string[]> {
+  const context = await buildAnalysisContext(repoPath, progressReporter, maxCommits, cacheOptions, config)
+
+  progressReporter?.report('Processing repository data')
+  const pipelineData = await new DataPipeline().processRepository(context)
+
+  await mkdir(outputDir, { recursive: true })
+
+  progressReporter?.report('Writing badges')
+  const paths: string[] = []
+  for (const badge of getBadges(calculateBadgeMetrics(pipelineData))) {
+    const badgePath = join(outputDir, badge.file)
+    await writeFile(badgePath, renderBadge(badge.label, badge.value, badge.color))
+    paths.push(resolve(badgePath))
+  }
+  return paths
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { analyzeReleaseRange, renderComparison } from './comparison.js'
+
+describe('analyzeReleaseRange', () => {
+  let testRepoPath: string
+
+  const commitFile = (file: string, content: string, author: string) => {
+    writeFileSync(join(testRepoPath, file), content)
+    execSync('git add .', { cwd: testRepoPath })
+    execSync(`git commit -m "Update ${file}" --author="${author}"`, { cwd: testRepoPath })
+  }
+
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-compare-'))
+    execSync('git init', { cwd: testRepoPath })
+    execSync('git config user.name "Test User"', { cwd: testRepoPath })
+    execSync('git config user.email "test@example.com"', { cwd: testRepoPath })
+
+    commitFile('app.ts', 'export const a = 1\n', 'Alice <alice@example.com>')
+    execSync('git tag v1.0', { cwd: testRepoPath })
+    commitFile('app.ts', 'export const a = 2\nexport const b = 3\n', 'Alice <alice@work.example.com>')
+    commitFile('util.ts', 'export const c = 4\n', 'Bob <bob@example.com>')
+    execSync('git tag v1.1', { cwd: testRepoPath })
+    commitFile('util.ts', 'export const c = 5\n', 'Carol <carol@example.com>')
+    writeFileSync(join(testRepoPath, '.mailmap'), 'Alice <alice@example.com> <alice@work.example.com>\n')
+  })
+
+  afterAll(() => {
+    rmSync(testRepoPath, { recursive: true, force: true })
+  })
+
+  it('only includes commits in the range and recognizes returning contributors', async () => {
+    const { comparison } = await analyzeReleaseRange(testRepoPath, 'v1.0', 'v1.1', undefined, { useCache: false }, TEST_CONFIG)
+
+    expect(comparison.commits).toBe(2)
+    expect(comparison.contributors.map(c => [c.name, c.isNew])).toEqual([
+      ['Alice', false],
+      ['Bob', true]
+    ])
+    expect(comparison.topChurnFiles.map(f => f.fileName)).toEqual(['app.ts', 'util.ts'])
+    expect(comparison.netLines.total).toBe(2)
+  })
+
+  it('rejects an empty range', async () => {
+    await expect(analyzeReleaseRange(testRepoPath, 'v1.1', 'v1.1', undefined, { useCache: false }, TEST_CONFIG))
+      .rejects.toThrow('No commits found between v1.1 and v1.1')
+  })
+
+  it('renders HTML-safe template values', async () => {
+    const { comparison } = await analyzeReleaseRange(testRepoPath, 'v1.0', 'v1.1', undefined, { useCache: false }, TEST_CONFIG)
+    const values = renderComparison({ ...comparison, to: '<v1.1>' })
+
+    expect(values['toRef']).toBe('&lt;v1.1&gt;')
+    expect(values['totalContributors']).toBe('2')
+    expect(values['contributorRows']).toContain('<span class="badge bg-success">New</span>')
+    expect(values['netLines']).toBe('<span class="net-positive">+2</span>')
+  })
+})
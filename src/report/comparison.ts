@@ -0,0 +1,176 @@
+import { basename, resolve, dirname, join } from 'path'
+import { readFile, writeFile, mkdir } from 'fs/promises'
+import { existsSync } from 'fs'
+import { fileURLToPath } from 'url'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+import { parseCommitHistory, getCurrentFiles, getRepositoryName, type CacheOptions } from '../git/parser.js'
+import { getCommitAuthors } from '../git/authors.js'
+import { resolveIdentities, loadMailmap } from '../git/identity-resolver.js'
+import { getRemoteHost } from '../git/remote-host.js'
+import { getCommitCredits } from '../data/contributor-calculator.js'
+import { calculateReleaseComparison } from '../data/release-comparison-calculator.js'
+import { replaceTemplateVariables, escapeHtml } from '../utils/template-engine.js'
+import { fillLinkTemplate } from '../utils/links.js'
+import { RepoStatError } from '../utils/errors.js'
+import { filterExcludedFiles, type AnalysisContext } from './generator.js'
+import type { ProgressReporter } from '../utils/progress-reporter.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+import type { CategoryBreakdown, ReleaseComparisonData } from '../data/types.js'
+import { DEFAULT_CONFIG } from '../config/defaults.js'
+
+const CATEGORY_NAMES: Array<[keyof Omit<CategoryBreakdown, 'total'>, string]> = [
+  ['application', 'Application'],
+  ['test', 'Test'],
+  ['build', 'Build'],
+  ['documentation', 'Documentation'],
+  ['other', 'Other']
+]
+
+/**
+ * Analyze only the commits in `from..to` and summarize them as a release.
+ * Authors of commits reachable from `from` count as returning contributors.
+ */
+export async function analyzeReleaseRange(repoPath: string, from: string, to: string, progressReporter?: ProgressReporter, cacheOptions?: CacheOptions, config?: SimplifiedConfig): Promise<{ context: AnalysisContext; comparison: ReleaseComparisonData }> {
+  const finalConfig = config || DEFAULT_CONFIG
+  const rangeConfig: SimplifiedConfig = {
+    ...finalConfig,
+    analysis: { ...finalConfig.analysis, maxCommits: null, branch: null, range: `${from}..${to}`, since: null, until: null }
+  }
+
+  const parsedCommits = await parseCommitHistory(repoPath, progressReporter, undefined, cacheOptions || {}, rangeConfig)
+  if (parsedCommits.length === 0) {
+    throw new RepoStatError(`No commits found between ${from} and ${to}`, 'EMPTY_RANGE')
+  }
+
+  // Resolve identities across earlier history too, so a returning contributor
+  // using a new email is still recognized
+  progressReporter?.report(`Reading contributors before ${from}`)
+  const previousCommits = await getCommitAuthors(repoPath, from)
+  progressReporter?.report('Resolving contributor identities')
+  const resolved = resolveIdentities([...previousCommits, ...parsedCommits], await loadMailmap(repoPath), rangeConfig)
+
+  const previousContributors = new Set(
+    resolved.slice(0, previousCommits.length).flatMap(commit => getCommitCredits(commit, rangeConfig).map(credit => credit.name))
+  )
+  const rawCommits = resolved.slice(previousCommits.length)
+  const commits = filterExcludedFiles(rawCommits, rangeConfig.exclusions.patterns)
+
+  let repoName = await getRepositoryName(repoPath)
+  if (!repoName) {
+    repoName = repoPath === '.' ? basename(process.cwd()) : basename(repoPath) || 'repo'
+  }
+
+  const context: AnalysisContext = {
+    repoPath,
+    repoName,
+    isLizardInstalled: false,
+    currentFiles: await getCurrentFiles(repoPath, rawCommits[rawCommits.length - 1]?.sha),
+    commits,
+    ...(progressReporter && { progressReporter }),
+    config: rangeConfig
+  }
+
+  progressReporter?.report('Calculating release statistics')
+  return { context, comparison: calculateReleaseComparison(context, from, to, previousContributors) }
+}
+
+export async function generateComparisonReport(repoPath: string, from: string, to: string, outputDir: string = 'dist', progressReporter?: ProgressReporter, customFilename?: string, cacheOptions?: CacheOptions, config?: SimplifiedConfig): Promise<string> {
+  const { context, comparison } = await analyzeReleaseRange(repoPath, from, to, progressReporter, cacheOptions, config)
+
+  const safeRef = (ref: string) => ref.replace(/[^A-Za-z0-9._-]+/g, '_')
+  const filename = customFilename
+    ? (customFilename.endsWith('.html') ? customFilename : `${customFilename}.html`)
+    : `${context.repoName}-${safeRef(from)}-${safeRef(to)}.html`
+  const reportPath = join(outputDir, filename)
+
+  if (!existsSync(outputDir)) {
+    await mkdir(outputDir, { recursive: true })
+  }
+
+  progressReporter?.report('Loading comparison template')
+  // In npm package: dist/report/comparison.js -> src/report/comparison-template.html
+  const template = await readFile(join(__dirname, '../../src/report/comparison-template.html'), 'utf-8')
+  const logoSvg = await readFile(join(__dirname, '../../src/images/logo.svg'), 'utf-8')
+  const remoteHost = await getRemoteHost(repoPath, context.config)
+  const compareUrl = remoteHost && fillLinkTemplate(remoteHost.compareUrl, { from, to })
+
+  progressReporter?.report('Generating HTML report')
+  const html = replaceTemplateVariables(template, {
+    ...renderComparison(comparison),
+    repositoryName: escapeHtml(context.repoName),
+    generationDate: new Date().toLocaleString(),
+    repositoryLink: remoteHost
+      ? ` • <a href="${escapeHtml(remoteHost.url)}" target="_blank" class="text-decoration-none">${remoteHost.name}</a>` +
+        (compareUrl ? ` • <a href="${escapeHtml(compareUrl)}" target="_blank" class="text-decoration-none">Compare ${escapeHtml(from)}...${escapeHtml(to)}</a>` : '')
+      : '',
+    logoSvg
+  })
+
+  progressReporter?.report('Writing report file')
+  await writeFile(reportPath, html)
+
+  return resolve(reportPath)
+}
+
+function formatNet(value: number): string {
+  const text = `${value > 0 ? '+' : ''}${value.toLocaleString()}`
+  if (value === 0) return text
+  return `<span class="${value > 0 ? 'net-positive' : 'net-negative'}">${text}</span>`
+}
+
+function emptyRow(columns: number, message: string): string {
+  return `<tr><td colspan="${columns}" class="text-center text-muted">${message}</td></tr>`
+}
+
+/**
+ * Template values for the comparison report; every value is HTML-safe
+ */
+export function renderComparison(comparison: ReleaseComparisonData): Record<string, string> {
+  const categoryRows = CATEGORY_NAMES
+    .filter(([key]) => comparison.filesByCategory[key] > 0)
+    .map(([key, name]) => `<tr><td>${name}</td>` +
+      `<td class="text-end">${comparison.filesByCategory[key].toLocaleString()}</td>` +
+      `<td class="text-end">+${comparison.linesAdded[key].toLocaleString()}</td>` +
+      `<td class="text-end">-${comparison.linesDeleted[key].toLocaleString()}</td>` +
+      `<td class="text-end">${formatNet(comparison.netLines[key])}</td></tr>`)
+
+  const contributorRows = comparison.contributors.map(contributor => `<tr><td>${escapeHtml(contributor.name)}</td>` +
+    `<td>${contributor.isNew ? '<span class="badge bg-success">New</span>' : '<span class="badge bg-secondary">Returning</span>'}</td>` +
+    `<td class="text-end">${contributor.commits.toLocaleString()}</td>` +
+    `<td class="text-end">+${contributor.linesAdded.toLocaleString()}</td>` +
+    `<td class="text-end">-${contributor.linesDeleted.toLocaleString()}</td></tr>`)
+
+  const churnRows = comparison.topChurnFiles.map(file => `<tr><td class="file-name">${escapeHtml(file.fileName)}</td>` +
+    `<td>${escapeHtml(file.fileType)}</td>` +
+    `<td class="text-end">${file.commits.toLocaleString()}</td>` +
+    `<td class="text-end">+${file.linesAdded.toLocaleString()}</td>` +
+    `<td class="text-end">-${file.linesDeleted.toLocaleString()}</td></tr>`)
+
+  const fileTypeRows = comparison.fileTypes.map(fileType => `<tr><td>${escapeHtml(fileType.fileType)}</td>` +
+    `<td class="text-end">${fileType.files.toLocaleString()}</td>` +
+    `<td class="text-end">+${fileType.linesAdded.toLocaleString()}</td>` +
+    `<td class="text-end">-${fileType.linesDeleted.toLocaleString()}</td></tr>`)
+
+  const formatDate = (date: string | null) => date ? new Date(date).toLocaleDateString() : '-'
+
+  return {
+    fromRef: escapeHtml(comparison.from),
+    toRef: escapeHtml(comparison.to),
+    firstCommitDate: formatDate(comparison.firstCommitDate),
+    lastCommitDate: formatDate(comparison.lastCommitDate),
+    totalCommits: comparison.commits.toLocaleString(),
+    totalContributors: comparison.contributors.length.toLocaleString(),
+    newContributors: comparison.newContributors.toLocaleString(),
+    returningContributors: comparison.returningContributors.toLocaleString(),
+    filesTouched: comparison.filesTouched.toLocaleString(),
+    netLines: formatNet(comparison.netLines.total),
+    linesAdded: comparison.linesAdded.total.toLocaleString(),
+    linesDeleted: comparison.linesDeleted.total.toLocaleString(),
+    categoryRows: categoryRows.length > 0 ? categoryRows.join('\n') : emptyRow(5, 'No line changes'),
+    contributorRows: contributorRows.length > 0 ? contributorRows.join('\n') : emptyRow(5, 'No contributors'),
+    churnRows: churnRows.length > 0 ? churnRows.join('\n') : emptyRow(5, 'No files changed'),
+    fileTypeRows: fileTypeRows.length > 0 ? fileTypeRows.join('\n') : emptyRow(4, 'No files changed')
+  }
+}
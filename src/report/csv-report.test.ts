@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync, readFileSync, readdirSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { generateReport } from './generator.js'
+import { toCsv, CSV_COLUMNS } from './csv-report.js'
+
+describe('toCsv', () => {
+  it('quotes only fields that need it', () => {
+    const csv = toCsv(['a', 'b', 'c'], [['plain', 'has, comma', 'say "hi"'], [1, null, 'two\nlines']])
+
+    expect(csv).toBe('a,b,c\r\nplain,"has, comma","say ""hi"""\r\n1,,"two\nlines"\r\n')
+  })
+})
+
+describe('CSV report', () => {
+  let testRepoPath: string
+  let outputDir: string
+
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-csv-'))
+    outputDir = mkdtempSync(join(tmpdir(), 'repo-statter-csv-out-'))
+    execSync('git init', { cwd: testRepoPath })
+    execSync('git config user.name "Test User"', { cwd: testRepoPath })
+    execSync('git config user.email "test@example.com"', { cwd: testRepoPath })
+
+    writeFileSync(join(testRepoPath, 'app.ts'), 'export const a = 1\nexport const b = 2\n')
+    execSync('git add . && git commit -m "Add app, first version"', { cwd: testRepoPath })
+    writeFileSync(join(testRepoPath, 'app.test.ts'), 'import { a } from "./app"\n')
+    writeFileSync(join(testRepoPath, 'build.sh'), 'echo build\n')
+    execSync('git add . && git commit -m "Add test and build script"', { cwd: testRepoPath })
+  })
+
+  afterAll(() => {
+    rmSync(testRepoPath, { recursive: true, force: true })
+    rmSync(outputDir, { recursive: true, force: true })
+  })
+
+  it('writes one CSV per table from the pipeline data', async () => {
+    const csvDir = await generateReport(testRepoPath, outputDir, undefined, undefined, 'stats', { useCache: false }, TEST_CONFIG, 'csv')
+
+    expect(csvDir).toBe(join(outputDir, 'stats'))
+    expect(readdirSync(csvDir).sort()).toEqual(Object.keys(CSV_COLUMNS).map(table => `${table}.csv`).sort())
+
+    const read = (table: string) => readFileSync(join(csvDir, `${table}.csv`), 'utf-8').trimEnd().split('\r\n')
+
+    const commits = read('commits')
+    expect(commits[0]).toBe(CSV_COLUMNS.commits.join(','))
+    expect(commits).toHaveLength(3)
+    expect(commits[1]).toContain(',"Add app, first version",1,2,0,')
+
+    const fileChanges = read('file_changes').slice(1).map(row => row.split(','))
+    expect(fileChanges.map(row => `${row[3]}:${row[5]}`).sort()).toEqual(['app.test.ts:test', 'app.ts:application', 'build.sh:build'])
+
+    const contributors = read('contributors')
+    expect(contributors).toEqual(['name,commits,lines_added,lines_deleted', 'Test User,2,4,0'])
+
+    // Every date appears once per category
+    const timeSeries = read('time_series').slice(1)
+    expect(timeSeries.length % 5).toBe(0)
+    expect(new Set(timeSeries.map(row => row.split(',')[1]))).toEqual(new Set(['application', 'test', 'build', 'documentation', 'other']))
+
+    expect(read('file_heat')[0]).toBe(CSV_COLUMNS.file_heat.join(','))
+    expect(read('top_files').slice(1).some(row => row.startsWith('largest,1,'))).toBe(true)
+  })
+})
@@ -0,0 +1,119 @@
+import { join, resolve } from 'path'
+import { writeFile, mkdir } from 'fs/promises'
+import type { ProcessedData } from '../data/unified-pipeline.js'
+import type { CategoryBreakdown } from '../data/types.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+import { getFileCategory } from '../utils/file-categories.js'
+
+type CsvValue = string | number | null | undefined
+type Category = keyof Omit<CategoryBreakdown, 'total'>
+
+const CATEGORIES: Category[] = ['application', 'test', 'build', 'documentation', 'other']
+
+/**
+ * Column names are part of the export's contract; add new columns at the end
+ * rather than renaming or reordering existing ones
+ */
+export const CSV_COLUMNS = {
+  commits: ['sha', 'date', 'author_name', 'author_email', 'co_authors', 'message', 'files_changed', 'lines_added', 'lines_deleted', 'bytes_added', 'bytes_deleted'],
+  file_changes: ['sha', 'date', 'author_name', 'file_name', 'file_type', 'category', 'lines_added', 'lines_deleted', 'bytes_added', 'bytes_deleted'],
+  contributors: ['name', 'commits', 'lines_added', 'lines_deleted'],
+  time_series: ['date', 'category', 'lines_added', 'lines_deleted', 'cumulative_lines', 'bytes_added', 'bytes_deleted', 'cumulative_bytes'],
+  file_heat: ['file_name', 'file_type', 'heat_score', 'commit_count', 'last_modified', 'total_lines'],
+  top_files: ['list', 'rank', 'file_name', 'value', 'percentage']
+} as const
+
+export type CsvTable = keyof typeof CSV_COLUMNS
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * RFC 4180 CSV: header row first, CRLF line endings, fields quoted only when needed
+ */
+export function toCsv(columns: readonly string[], rows: CsvValue[][]): string {
+  return [columns, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Flatten the pipeline data into one row set per table. Nothing is
+ * recalculated; each row is a direct projection of ProcessedData.
+ */
+export function buildCsvTables(pipelineData: ProcessedData, config: SimplifiedConfig): Record<CsvTable, CsvValue[][]> {
+  const { commits, contributors, timeSeries, fileHeatData, topFilesData } = pipelineData
+
+  return {
+    commits: commits.map(commit => [
+      commit.sha,
+      commit.date,
+      commit.authorName,
+      commit.authorEmail,
+      (commit.coAuthors ?? []).map(coAuthor => coAuthor.name).join('; '),
+      commit.message,
+      commit.filesChanged.length,
+      commit.linesAdded,
+      commit.linesDeleted,
+      commit.bytesAdded,
+      commit.bytesDeleted
+    ]),
+    file_changes: commits.flatMap(commit => commit.filesChanged.map(file => [
+      commit.sha,
+      commit.date,
+      commit.authorName,
+      file.fileName,
+      file.fileType,
+      getFileCategory(file.fileName, config).toLowerCase(),
+      file.linesAdded,
+      file.linesDeleted,
+      file.bytesAdded,
+      file.bytesDeleted
+    ])),
+    contributors: contributors.map(contributor => [
+      contributor.name,
+      contributor.commits,
+      contributor.linesAdded,
+      contributor.linesDeleted
+    ]),
+    // One row per date and category so the totals can be pivoted by either
+    time_series: timeSeries.flatMap(point => CATEGORIES.map(category => [
+      point.date,
+      category,
+      point.linesAdded[category],
+      point.linesDeleted[category],
+      point.cumulativeLines[category],
+      point.bytesAdded[category],
+      point.bytesDeleted[category],
+      point.cumulativeBytes[category]
+    ])),
+    file_heat: fileHeatData.map(file => [
+      file.fileName,
+      file.fileType,
+      file.heatScore,
+      file.commitCount,
+      file.lastModified,
+      file.totalLines
+    ]),
+    top_files: topFilesData
+      ? ([['largest', topFilesData.largest], ['most_churn', topFilesData.mostChurn], ['most_complex', topFilesData.mostComplex]] as const)
+        .flatMap(([list, files]) => files.map((file, index) => [list, index + 1, file.fileName, file.value, file.percentage]))
+      : []
+  }
+}
+
+/**
+ * Write one `<table>.csv` per table into `<outputDir>/<name>/`
+ */
+export async function writeCsvReport(outputDir: string, name: string, pipelineData: ProcessedData, config: SimplifiedConfig): Promise<string> {
+  const csvDir = join(outputDir, name.replace(/\.csv$/, ''))
+  await mkdir(csvDir, { recursive: true })
+
+  const tables = buildCsvTables(pipelineData, config)
+  for (const table of Object.keys(CSV_COLUMNS) as CsvTable[]) {
+    await writeFile(join(csvDir, `${table}.csv`), toCsv(CSV_COLUMNS[table], tables[table]))
+  }
+
+  return resolve(csvDir)
+}
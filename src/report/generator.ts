@@ -5,16 +5,31 @@ import { fileURLToPath } from 'url'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
-import { parseCommitHistory, getGitHubUrl, getCurrentFiles, getRepositoryName, type CacheOptions } from '../git/parser.js'
+import { parseCommitHistory, getCurrentFiles, getRepositoryName, type CacheOptions } from '../git/parser.js'
+import { resolveIdentities, loadMailmap } from '../git/identity-resolver.js'
+import { loadIgnoreRevs, resolveIgnoredRevisions } from '../git/ignore-revs.js'
+import { classifyCommits } from '../git/commit-classifier.js'
+import { getRemoteHost, type RemoteHost } from '../git/remote-host.js'
 import { DataPipeline, type ProcessedData } from '../data/unified-pipeline.js'
 import { checkLizardInstalled } from '../data/lizard-complexity-analyzer.js'
-import { replaceTemplateVariables, injectIntoBody } from '../utils/template-engine.js'
+import { replaceTemplateVariables, injectIntoBody, escapeHtml } from '../utils/template-engine.js'
 import { bundleCharts } from '../build/bundle-charts.js'
 import type { CommitData } from '../git/parser.js'
+import type { MetricTrend } from '../data/types.js'
 import type { ProgressReporter } from '../utils/progress-reporter.js'
 import type { SimplifiedConfig } from '../config/simplified-schema.js'
 import { DEFAULT_CONFIG } from '../config/defaults.js'
 import { isFileExcluded } from '../utils/exclusions.js'
+import { isIgnoredCommit } from '../utils/commit-filters.js'
+import { getCommitUrlTemplate, getFileUrlTemplate } from '../utils/links.js'
+import { buildJsonReport, writeJsonReport } from './json-report.js'
+import { writeCsvReport } from './csv-report.js'
+import { writeSqliteReport, assertSqliteInstalled } from './sqlite-report.js'
+import { renderMarkdownReport, writeMarkdownReport } from './markdown-report.js'
+import { recordSnapshot } from '../data/history-calculator.js'
+
+export const REPORT_FORMATS = ['html', 'json', 'csv', 'sqlite', 'markdown'] as const
+export type ReportFormat = typeof REPORT_FORMATS[number]
 
 export interface AnalysisContext {
   repoPath: string
@@ -22,6 +37,8 @@ export interface AnalysisContext {
   isLizardInstalled: boolean
   currentFiles: Set<string>
   commits: CommitData[]
+  remoteHost?: RemoteHost // Web links for the origin remote, when its forge is known
+  ignoredRevisions?: Set<string> // Full SHAs left out of contributor, churn, heat and award statistics
   progressReporter?: ProgressReporter
   config: SimplifiedConfig
 }
@@ -29,7 +46,7 @@ export interface AnalysisContext {
 /**
  * Filter excluded files from commits based on exclusion patterns
  */
-function filterExcludedFiles(commits: CommitData[], patterns: string[]): CommitData[] {
+export function filterExcludedFiles(commits: CommitData[], patterns: string[]): CommitData[] {
   return commits.map(commit => {
     const filteredFiles = commit.filesChanged.filter(file => !isFileExcluded(file.fileName, patterns));
     
@@ -53,14 +70,29 @@ function filterExcludedFiles(commits: CommitData[], patterns: string[]): CommitD
   .filter(commit => commit.filesChanged.length > 0);
 }
 
-export async function generateReport(repoPath: string, outputMode: 'dist' | 'analysis' = 'dist', progressReporter?: ProgressReporter, maxCommits?: number, customFilename?: string, cacheOptions?: CacheOptions, config?: SimplifiedConfig): Promise<string> {
+/**
+ * Parse, resolve and filter the history into the context every calculator works from
+ */
+export async function buildAnalysisContext(repoPath: string, progressReporter?: ProgressReporter, maxCommits?: number, cacheOptions?: CacheOptions, config?: SimplifiedConfig): Promise<AnalysisContext> {
   // Use provided config or fall back to defaults
   const finalConfig = config || DEFAULT_CONFIG
-  const rawCommits = await parseCommitHistory(repoPath, progressReporter, maxCommits, cacheOptions || {}, finalConfig)
+  const parsedCommits = await parseCommitHistory(repoPath, progressReporter, maxCommits, cacheOptions || {}, finalConfig)
+  
+  // Resolve authors to canonical identities before any calculator groups by them
+  progressReporter?.report('Resolving contributor identities')
+  const resolvedCommits = resolveIdentities(parsedCommits, await loadMailmap(repoPath), finalConfig)
+  
+  progressReporter?.report('Classifying commits by type')
+  const rawCommits = classifyCommits(resolvedCommits, finalConfig)
   
   // Apply exclusion filters at runtime
   progressReporter?.report('Applying exclusion filters')
-  const commits = filterExcludedFiles(rawCommits, finalConfig.exclusions.patterns)
+  const keptCommits = rawCommits.filter(commit => !isIgnoredCommit(commit, finalConfig))
+  const commits = filterExcludedFiles(keptCommits, finalConfig.exclusions.patterns)
+  const ignoredRevisions = resolveIgnoredRevisions(commits, await loadIgnoreRevs(repoPath, finalConfig))
+  if (ignoredRevisions.size > 0) {
+    progressReporter?.report(`Ignoring ${ignoredRevisions.size} revisions in contributor, churn and award statistics`)
+  }
   
   // Try to get repository name from git remote, fallback to directory name
   let repoName = await getRepositoryName(repoPath)
@@ -68,25 +100,45 @@ export async function generateReport(repoPath: string, outputMode: 'dist' | 'ana
     repoName = repoPath === '.' ? basename(process.cwd()) : basename(repoPath) || 'repo'
   }
   
+  const remoteHost = await getRemoteHost(repoPath, finalConfig)
+  
   // Check if Lizard is installed early
   const isLizardInstalled = await checkLizardInstalled()
-  if (!isLizardInstalled) {
+  if (!isLizardInstalled && finalConfig.complexity.analyzer === 'lizard') {
     console.warn('⚠️  Lizard not found. Code complexity analysis will be skipped. Install with: pip install lizard')
+  } else if (!isLizardInstalled && finalConfig.complexity.analyzer === 'auto') {
+    progressReporter?.report('Lizard not found, using the built-in complexity analyzer')
   }
   
   progressReporter?.report('Getting current files')
-  const currentFiles = await getCurrentFiles(repoPath)
+  // Use the newest analyzed commit so branch and date-window reports see the files as they were then
+  const newestCommit = rawCommits[rawCommits.length - 1]
+  const currentFiles = await getCurrentFiles(repoPath, newestCommit?.sha)
   
-  // Create the analysis context
-  const context: AnalysisContext = {
+  return {
     repoPath,
     repoName,
     isLizardInstalled,
     currentFiles,
     commits,
+    ...(remoteHost && { remoteHost }),
+    ...(ignoredRevisions.size > 0 && { ignoredRevisions }),
     ...(progressReporter && { progressReporter }),
     config: finalConfig
   }
+}
+
+/**
+ * `outputMode` is the output directory, except that 'analysis' writes to
+ * `analysis/<repo>/` together with a repo-stats.json summary
+ */
+export async function generateReport(repoPath: string, outputMode: string = 'dist', progressReporter?: ProgressReporter, maxCommits?: number, customFilename?: string, cacheOptions?: CacheOptions, config?: SimplifiedConfig, format: ReportFormat = 'html'): Promise<string> {
+  if (format === 'sqlite') {
+    await assertSqliteInstalled()
+  }
+  
+  const context = await buildAnalysisContext(repoPath, progressReporter, maxCommits, cacheOptions, config)
+  const { repoName, commits, config: finalConfig } = context
   
   let outputDir: string
   let reportPath: string
@@ -109,27 +161,19 @@ export async function generateReport(repoPath: string, outputMode: 'dist' | 'ana
     await mkdir(outputDir, { recursive: true })
   }
   
-  progressReporter?.report('Loading report template')
-  // In npm package: dist/report/generator.js -> src/report/template.html
-  const templatePath = join(__dirname, '../../src/report/template.html')
-  const template = await readFile(templatePath, 'utf-8')
-
-  progressReporter?.report('Calculating statistics')
-  const chartData = await transformCommitData(context)
-  
   // Calculate all statistics using unified pipeline
   progressReporter?.report('Processing repository data')
   
   // Create unified pipeline instance and process all data
   const pipeline = new DataPipeline()
   const pipelineData = await pipeline.processRepository(context)
+
+  if (finalConfig.history.enabled) {
+    const history = await recordSnapshot(context, pipelineData, outputDir)
+    if (history) pipelineData.history = history
+  }
   
-  progressReporter?.report('Generating HTML report')
-  const html = await injectDataIntoTemplate(template, chartData, pipelineData, context)
-  
-  progressReporter?.report('Writing report file')
-  await writeFile(reportPath, html)
-  
+  // Analysis mode keeps a statistics summary next to the report in every format
   if (statsPath) {
     progressReporter?.report('Writing statistics file')
     const stats = {
@@ -145,6 +189,49 @@ export async function generateReport(repoPath: string, outputMode: 'dist' | 'ana
     await writeFile(statsPath, JSON.stringify(stats, null, 2))
   }
   
+  // Non-HTML formats are written straight from the pipeline data
+  if (format === 'json') {
+    progressReporter?.report('Writing JSON report')
+    const jsonPath = await writeJsonReport(outputDir, customFilename ?? repoName, buildJsonReport(context, pipelineData))
+    progressReporter?.report(`Report saved to: ${jsonPath}`)
+    return jsonPath
+  }
+
+  if (format === 'csv') {
+    progressReporter?.report('Writing CSV files')
+    const csvDir = await writeCsvReport(outputDir, customFilename ?? `${repoName}-csv`, pipelineData, finalConfig)
+    progressReporter?.report(`Report saved to: ${csvDir}`)
+    return csvDir
+  }
+
+  if (format === 'sqlite') {
+    progressReporter?.report('Writing SQLite database')
+    const dbPath = await writeSqliteReport(outputDir, customFilename ?? repoName, context, pipelineData)
+    progressReporter?.report(`Report saved to: ${dbPath}`)
+    return dbPath
+  }
+
+  if (format === 'markdown') {
+    progressReporter?.report('Writing Markdown report')
+    const markdownPath = await writeMarkdownReport(outputDir, customFilename ?? repoName, renderMarkdownReport(context, pipelineData))
+    progressReporter?.report(`Report saved to: ${markdownPath}`)
+    return markdownPath
+  }
+  
+  progressReporter?.report('Loading report template')
+  // In npm package: dist/report/generator.js -> src/report/template.html
+  const templatePath = join(__dirname, '../../src/report/template.html')
+  const template = await readFile(templatePath, 'utf-8')
+
+  progressReporter?.report('Calculating statistics')
+  const chartData = await transformCommitData(context)
+  
+  progressReporter?.report('Generating HTML report')
+  const html = await injectDataIntoTemplate(template, chartData, pipelineData, context)
+  
+  progressReporter?.report('Writing report file')
+  await writeFile(reportPath, html)
+  
   progressReporter?.report('Report generation complete')
   progressReporter?.report(`Report saved to: ${reportPath}`)
   
@@ -169,7 +256,7 @@ interface ReportTemplateData {
   totalContributors: number
   activeDays: number
   generationDate: string
-  githubLink: string
+  repositoryLink: string
   logoSvg: string
   trophySvgs: TrophySvgs
   isLizardInstalled: boolean
@@ -188,7 +275,7 @@ function formatFullDate(date: Date): string {
 }
 
 async function transformCommitData(context: AnalysisContext): Promise<ReportTemplateData> {
-  const { commits, repoName, repoPath, progressReporter, isLizardInstalled, currentFiles } = context
+  const { commits, repoName, remoteHost, progressReporter, isLizardInstalled, currentFiles } = context
   
   // Calculate cumulative lines of code using the same method as the time series chart
   // This ensures consistency between the hero metric and the growth chart
@@ -223,7 +310,7 @@ async function transformCommitData(context: AnalysisContext): Promise<ReportTemp
   }
   
   // Calculate unique contributors
-  const uniqueContributors = new Set(commits.map(c => c.authorEmail)).size
+  const uniqueContributors = new Set(commits.map(c => c.authorName)).size
   
   // Calculate active days (unique dates with commits)
   const uniqueDates = new Set(commits.map(c => c.date.split('T')[0]))
@@ -243,8 +330,6 @@ async function transformCommitData(context: AnalysisContext): Promise<ReportTemp
     averageHigh: await readFile(join(imagesDir, 'trophy-average-high.svg'), 'utf-8')
   }
   
-  const githubUrl = await getGitHubUrl(repoPath)
-  
   return {
     repositoryName: repoName,
     totalCommits: commits.length,
@@ -252,20 +337,28 @@ async function transformCommitData(context: AnalysisContext): Promise<ReportTemp
     totalContributors: uniqueContributors,
     activeDays,
     generationDate: formatFullDate(new Date()),
-    githubLink: githubUrl ? ` • <a href="${githubUrl}" target="_blank" class="text-decoration-none">GitHub</a>` : '',
+    repositoryLink: remoteHost ? ` • <a href="${escapeHtml(remoteHost.url)}" target="_blank" class="text-decoration-none">${remoteHost.name}</a>` : '',
     logoSvg,
     trophySvgs,
     isLizardInstalled
   }
 }
 
+/**
+ * Small "since last run" line under a hero metric; empty without a previous run
+ */
+function renderMetricTrend(trend: MetricTrend | undefined): string {
+  if (!trend?.label) return ''
+  return `<div class="metric-trend">${trend.direction === 'up' ? '▲' : '▼'} ${escapeHtml(trend.label)}</div>`
+}
+
 async function injectDataIntoTemplate(template: string, chartData: ReportTemplateData, pipelineData: ProcessedData, context: AnalysisContext): Promise<string> {
-  const { commits, repoPath, progressReporter, config } = context
+  const { commits, remoteHost, progressReporter, config } = context
   
   progressReporter?.report('Using unified pipeline data for template injection')
   
   // All data processing is now handled by the unified pipeline
-  const { contributors, fileTypes, timeSeries, linearSeries, wordCloudData, fileHeatData, topFilesData, awards } = pipelineData
+  const { contributors, fileTypes, timeSeries, linearSeries, wordCloudData, fileHeatData, topFilesData, hotspots, complexityTrend, ownership, coupling, milestones, history, packages, commitSizes, commitTypes, issues, awards } = pipelineData
   
   // Bundle the simplified charts script
   const bundledScript = await bundleCharts()
@@ -280,9 +373,20 @@ async function injectDataIntoTemplate(template: string, chartData: ReportTemplat
     wordCloudData,
     fileHeatData,
     topFilesData,
+    hotspots,
+    complexityTrend,
+    ownership,
+    coupling,
+    milestones,
+    history,
+    packages,
+    commitSizes,
+    commitTypes,
+    issues,
     awards,
     trophySvgs: chartData.trophySvgs,
-    githubUrl: await getGitHubUrl(repoPath),
+    commitUrlTemplate: getCommitUrlTemplate(config, remoteHost ?? null),
+    fileUrlTemplate: getFileUrlTemplate(remoteHost ?? null, commits[commits.length - 1]?.sha),
     isLizardInstalled: chartData.isLizardInstalled,
     chartsConfig: config.charts,
     fileTypesConfig: config.fileTypes
@@ -329,8 +433,11 @@ async function injectDataIntoTemplate(template: string, chartData: ReportTemplat
     totalCommits: chartData.totalCommits.toString(),
     totalLinesOfCode: chartData.totalLinesOfCode.toString(),
     totalContributors: chartData.totalContributors.toString(),
+    commitsTrend: renderMetricTrend(history?.trends.commits),
+    linesOfCodeTrend: renderMetricTrend(history?.trends.linesOfCode),
+    contributorsTrend: renderMetricTrend(history?.trends.contributors),
     activeDays: chartData.activeDays.toString(),
-    githubLink: chartData.githubLink,
+    repositoryLink: chartData.repositoryLink,
     logoSvg: chartData.logoSvg,
     latestCommitHash: latestCommit ? latestCommit.sha.substring(0, 7) : 'N/A',
     latestCommitAuthor: latestCommit ? latestCommit.authorName : 'N/A',
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync, readFileSync, existsSync } from 'fs'
+import { tmpdir } from 'os'
+import { join, dirname } from 'path'
+import { execSync } from 'child_process'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { generateReport } from './generator.js'
+import { JSON_REPORT_SCHEMA_VERSION, JSON_REPORT_SCHEMA_FILE, JSON_REPORT_SCHEMA_PATH } from './json-report.js'
+
+type Schema = Record<string, any>
+
+/**
+ * Enough of JSON Schema to check the report: type, const, enum, required,
+ * properties, items and local $refs. Returns the paths that do not match.
+ */
+function validate(value: unknown, schema: Schema, root: Schema, path = '$'): string[] {
+  if (schema['$ref']) {
+    const definition = root['$defs'][schema['$ref'].replace('#/$defs/', '')]
+    return definition ? validate(value, definition, root, path) : [`${path}: unknown $ref ${schema['$ref']}`]
+  }
+  if ('const' in schema && value !== schema['const']) return [`${path}: expected ${schema['const']}`]
+  if (schema['enum'] && !schema['enum'].includes(value)) return [`${path}: ${String(value)} not in enum`]
+
+  if (schema['type']) {
+    const types: string[] = Array.isArray(schema['type']) ? schema['type'] : [schema['type']]
+    const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value
+    const matches = types.some(type => type === actual || (type === 'integer' && Number.isInteger(value)) || (type === 'number' && actual === 'number'))
+    if (!matches) return [`${path}: expected ${types.join('|')}, got ${actual}`]
+  }
+
+  const errors: string[] = []
+  if (Array.isArray(value) && schema['items']) {
+    value.forEach((item, index) => errors.push(...validate(item, schema['items'], root, `${path}[${index}]`)))
+  } else if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    for (const key of schema['required'] ?? []) {
+      if (!(key in record)) errors.push(`${path}.${key}: missing`)
+    }
+    for (const [key, propertySchema] of Object.entries<Schema>(schema['properties'] ?? {})) {
+      if (key in record) errors.push(...validate(record[key], propertySchema, root, `${path}.${key}`))
+    }
+  }
+  return errors
+}
+
+describe('JSON report', () => {
+  let testRepoPath: string
+  let outputDir: string
+  const schema: Schema = JSON.parse(readFileSync(JSON_REPORT_SCHEMA_PATH, 'utf-8'))
+
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-json-'))
+    outputDir = mkdtempSync(join(tmpdir(), 'repo-statter-json-out-'))
+    execSync('git init', { cwd: testRepoPath })
+    execSync('git config user.name "Test User"', { cwd: testRepoPath })
+    execSync('git config user.email "test@example.com"', { cwd: testRepoPath })
+
+    writeFileSync(join(testRepoPath, 'app.ts'), 'export function a(x: number) {\n  if (x) { return 1 }\n  return 0\n}\n')
+    execSync('git add . && git commit -m "Add app"', { cwd: testRepoPath })
+    execSync('git tag v1.0', { cwd: testRepoPath })
+    writeFileSync(join(testRepoPath, 'app.test.ts'), 'import { a } from "./app"\nconsole.log(a(1))\n')
+    execSync('git add . && git commit -m "Add test"', { cwd: testRepoPath })
+  })
+
+  afterAll(() => {
+    rmSync(testRepoPath, { recursive: true, force: true })
+    rmSync(outputDir, { recursive: true, force: true })
+  })
+
+  it('declares the current schema version', () => {
+    expect(schema['properties']['schemaVersion']['const']).toBe(JSON_REPORT_SCHEMA_VERSION)
+  })
+
+  it('writes a report that matches the published schema', async () => {
+    const reportPath = await generateReport(testRepoPath, outputDir, undefined, undefined, 'stats', { useCache: false }, TEST_CONFIG, 'json')
+
+    expect(reportPath).toBe(join(outputDir, 'stats.json'))
+    expect(existsSync(join(outputDir, JSON_REPORT_SCHEMA_FILE))).toBe(true)
+
+    const report = JSON.parse(readFileSync(reportPath, 'utf-8'))
+    expect(validate(report, schema, schema)).toEqual([])
+    expect(validate({ ...report, summary: { ...report.summary, totalCommits: 'two' } }, schema, schema))
+      .toEqual(['$.summary.totalCommits: expected integer, got string'])
+    expect(report.$schema).toBe(`./${JSON_REPORT_SCHEMA_FILE}`)
+    expect(report.summary.totalCommits).toBe(2)
+    expect(report.milestones.map((m: { name: string }) => m.name)).toEqual(['v1.0'])
+
+    // Every section of the report is documented
+    const undocumented = Object.keys(report).filter(key => !(key in schema['properties']))
+    expect(undocumented).toEqual([])
+  })
+
+  it('writes the analysis summary next to a JSON report', async () => {
+    const workDir = mkdtempSync(join(tmpdir(), 'repo-statter-json-analysis-'))
+    const cwd = process.cwd()
+    process.chdir(workDir)
+    try {
+      const reportPath = await generateReport(testRepoPath, 'analysis', undefined, undefined, undefined, { useCache: false }, TEST_CONFIG, 'json')
+      const stats = JSON.parse(readFileSync(join(dirname(reportPath), 'repo-stats.json'), 'utf-8'))
+
+      expect(stats.totalCommits).toBe(2)
+    } finally {
+      process.chdir(cwd)
+      rmSync(workDir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,88 @@
+import { dirname, join, resolve } from 'path'
+import { copyFile, writeFile } from 'fs/promises'
+import { fileURLToPath } from 'url'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+import type { AnalysisContext } from './generator.js'
+import type { ProcessedData } from '../data/unified-pipeline.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+import type { RemoteHost } from '../git/remote-host.js'
+import { getCommitUrlTemplate } from '../utils/links.js'
+
+/**
+ * Version of report.schema.json. Bump the minor version for new optional
+ * fields and the major version for anything that breaks existing consumers.
+ */
+export const JSON_REPORT_SCHEMA_VERSION = '1.10.0'
+
+// Written next to every JSON report so consumers can validate offline
+export const JSON_REPORT_SCHEMA_FILE = 'repo-statter-report.schema.json'
+
+// In npm package: dist/report/json-report.js -> src/report/report.schema.json
+export const JSON_REPORT_SCHEMA_PATH = join(__dirname, '../../src/report/report.schema.json')
+
+export interface JsonReport extends ProcessedData {
+  $schema: string
+  schemaVersion: string
+  generatedAt: string
+  repository: {
+    name: string
+    url: string | null
+    forge: RemoteHost['forge'] | null
+    commitUrl: string | null
+    fileUrl: string | null
+    compareUrl: string | null
+  }
+  analysis: Pick<SimplifiedConfig['analysis'], 'maxCommits' | 'branch' | 'range' | 'since' | 'until'>
+  summary: {
+    totalCommits: number
+    totalContributors: number
+    totalLinesAdded: number
+    totalLinesDeleted: number
+    firstCommitDate: string | null
+    lastCommitDate: string | null
+  }
+}
+
+export function buildJsonReport(context: AnalysisContext, pipelineData: ProcessedData): JsonReport {
+  const { repoName, remoteHost, config } = context
+  const { commits } = pipelineData
+  const { maxCommits, branch, range, since, until } = config.analysis
+
+  return {
+    $schema: `./${JSON_REPORT_SCHEMA_FILE}`,
+    schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    repository: {
+      name: repoName,
+      url: remoteHost?.url ?? null,
+      forge: remoteHost?.forge ?? null,
+      commitUrl: getCommitUrlTemplate(config, remoteHost ?? null),
+      fileUrl: remoteHost?.fileUrl ?? null,
+      compareUrl: remoteHost?.compareUrl ?? null
+    },
+    analysis: { maxCommits, branch, range, since, until },
+    summary: {
+      totalCommits: commits.length,
+      totalContributors: pipelineData.contributors.length,
+      totalLinesAdded: commits.reduce((sum, commit) => sum + commit.linesAdded, 0),
+      totalLinesDeleted: commits.reduce((sum, commit) => sum + commit.linesDeleted, 0),
+      firstCommitDate: commits[0]?.date ?? null,
+      lastCommitDate: commits[commits.length - 1]?.date ?? null
+    },
+    ...pipelineData
+  }
+}
+
+/**
+ * Write the report as `<name>.json` together with its JSON Schema
+ */
+export async function writeJsonReport(outputDir: string, filename: string, report: JsonReport): Promise<string> {
+  const reportPath = join(outputDir, filename.endsWith('.json') ? filename : `${filename}.json`)
+
+  await writeFile(reportPath, JSON.stringify(report, null, 2))
+  await copyFile(JSON_REPORT_SCHEMA_PATH, join(outputDir, JSON_REPORT_SCHEMA_FILE))
+
+  return resolve(reportPath)
+}
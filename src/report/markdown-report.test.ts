@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { generateReport } from './generator.js'
+import { escapeMarkdown, renderSparkline } from './markdown-report.js'
+
+describe('escapeMarkdown', () => {
+  it('keeps table cells on one line and neutralizes markup', () => {
+    expect(escapeMarkdown('a | b\n*bold* <br>')).toBe('a \\| b \\*bold\\* &lt;br&gt;')
+  })
+})
+
+describe('renderSparkline', () => {
+  it('embeds a polyline SVG as a data URI', () => {
+    const image = renderSparkline([1, 3, 2], 'Trend', 100, 20)
+    const svg = Buffer.from(image.replace(/^!\[Trend\]\(data:image\/svg\+xml;base64,/, '').replace(/\)$/, ''), 'base64').toString()
+
+    expect(svg).toContain('<polyline')
+    expect(svg).toContain('points="1.0,19.0 50.0,1.0 99.0,10.0"')
+  })
+
+  it('needs at least two points', () => {
+    expect(renderSparkline([5], 'Trend')).toBe('')
+  })
+})
+
+describe('Markdown report', () => {
+  let testRepoPath: string
+  let outputDir: string
+
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-md-'))
+    outputDir = mkdtempSync(join(tmpdir(), 'repo-statter-md-out-'))
+    execSync('git init', { cwd: testRepoPath })
+    execSync('git config user.name "Test User"', { cwd: testRepoPath })
+    execSync('git config user.email "test@example.com"', { cwd: testRepoPath })
+
+    writeFileSync(join(testRepoPath, 'app.ts'), 'export const a = 1\nexport const b = 2\n')
+    execSync('git add . && git commit -m "Add app"', { cwd: testRepoPath })
+    writeFileSync(join(testRepoPath, 'app.test.ts'), 'import { a } from "./app"\n')
+    execSync('git add . && git commit -m "Add test | with pipe"', { cwd: testRepoPath })
+  })
+
+  afterAll(() => {
+    rmSync(testRepoPath, { recursive: true, force: true })
+    rmSync(outputDir, { recursive: true, force: true })
+  })
+
+  it('renders metrics, contributors, categories, files and awards', async () => {
+    const reportPath = await generateReport(testRepoPath, outputDir, undefined, undefined, 'summary', { useCache: false }, TEST_CONFIG, 'markdown')
+
+    expect(reportPath).toBe(join(outputDir, 'summary.md'))
+    const markdown = readFileSync(reportPath, 'utf-8')
+
+    expect(markdown).toMatch(/^# repo-statter-md-/)
+    expect(markdown).toContain('| Commits | 2 |')
+    expect(markdown).toContain('| Lines of code | 3 |')
+    expect(markdown).toContain('| 1 | Test User | 2 | 100.0% | +3 | -0 |')
+    expect(markdown).toContain('| Application | 2 | +2 | -0 |')
+    expect(markdown).toContain('| Test | 1 | +1 | -0 |')
+    expect(markdown).toContain('### Most Churn')
+    expect(markdown).toContain('Add test \\| with pipe')
+    expect(markdown).not.toContain('data:image/svg+xml')
+  })
+
+  it('embeds sparklines when enabled', async () => {
+    const config = { ...TEST_CONFIG, markdown: { ...TEST_CONFIG.markdown, sparklines: true } }
+    const reportPath = await generateReport(testRepoPath, outputDir, undefined, undefined, 'sparklines', { useCache: false }, config, 'markdown')
+
+    expect(readFileSync(reportPath, 'utf-8')).toContain('Lines of code ![Lines of code over time](data:image/svg+xml;base64,')
+  })
+})
@@ -0,0 +1,234 @@
+import { join, resolve } from 'path'
+import { writeFile } from 'fs/promises'
+import type { AnalysisContext } from './generator.js'
+import type { ProcessedData } from '../data/unified-pipeline.js'
+import type { CategoryBreakdown, CommitAward, ContributorAward, IssueData, TopFileStats } from '../data/types.js'
+import { getCommitUrl, getCommitUrlTemplate } from '../utils/links.js'
+
+const MAX_FILES = 10
+const MAX_LANGUAGES = 10
+const MAX_ISSUES = 10
+
+const CATEGORY_NAMES: Array<[keyof Omit<CategoryBreakdown, 'total'>, string]> = [
+  ['application', 'Application'],
+  ['test', 'Test'],
+  ['build', 'Build'],
+  ['documentation', 'Documentation'],
+  ['other', 'Other']
+]
+
+const COMMIT_AWARDS: Array<[keyof NonNullable<ProcessedData['awards']>, string, string]> = [
+  ['filesModified', 'Most Files Modified', 'files'],
+  ['linesAdded', 'Most Lines Added', 'lines'],
+  ['linesRemoved', 'Most Lines Removed', 'lines'],
+  ['bytesAdded', 'Most Bytes Added', 'bytes'],
+  ['bytesRemoved', 'Most Bytes Removed', 'bytes']
+]
+
+const CONTRIBUTOR_AWARDS: Array<[keyof NonNullable<ProcessedData['awards']>, string]> = [
+  ['lowestAverage', 'Lowest Average Lines Changed'],
+  ['highestAverage', 'Highest Average Lines Changed']
+]
+
+/**
+ * Escape text for use inside a Markdown table cell or list item
+ */
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/\r?\n/g, ' ')
+    .replace(/([\\`*_[\]|#~])/g, '\\$1')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+function formatNumber(value: number): string {
+  return Math.round(value).toLocaleString('en-US')
+}
+
+function formatPercent(value: number): string {
+  return `${value.toFixed(1)}%`
+}
+
+function formatDate(date: string | undefined): string {
+  return date ? new Date(date).toISOString().slice(0, 10) : '-'
+}
+
+function table(headers: string[], rows: string[][], alignRight: number[] = []): string {
+  const separator = headers.map((_, index) => alignRight.includes(index) ? '---:' : '---')
+  return [headers, separator, ...rows].map(row => `| ${row.join(' | ')} |`).join('\n')
+}
+
+/**
+ * A static polyline sparkline, embedded as a data URI so the report stays a single file
+ */
+export function renderSparkline(values: number[], label: string, width = 160, height = 32): string {
+  if (values.length < 2) return ''
+
+  const min = Math.min(...values)
+  const range = Math.max(...values) - min || 1
+  const points = values.map((value, index) => {
+    const x = (index / (values.length - 1)) * (width - 2) + 1
+    const y = height - 1 - ((value - min) / range) * (height - 2)
+    return `${x.toFixed(1)},${y.toFixed(1)}`
+  })
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<polyline fill="none" stroke="#0969da" stroke-width="1.5" stroke-linejoin="round" points="${points.join(' ')}"/></svg>`
+  return `![${label}](data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')})`
+}
+
+function renderFileTable(files: TopFileStats[], valueHeader: string): string {
+  if (files.length === 0) return '_No files_'
+  return table(
+    ['#', 'File', valueHeader, 'Share'],
+    files.slice(0, MAX_FILES).map((file, index) => [String(index + 1), `\`${file.fileName.replace(/`/g, "'")}\``, formatNumber(file.value), formatPercent(file.percentage)]),
+    [0, 2, 3]
+  )
+}
+
+function renderIssues(issues: IssueData): string[] {
+  const lines = [`${formatPercent(issues.percentageWithoutIssues)} of commits reference no issue.`, '']
+  if (issues.issues.length > 0) {
+    lines.push(table(
+      ['Issue', 'Commits', 'First', 'Last'],
+      issues.issues.slice(0, MAX_ISSUES).map(issue => [
+        issue.url ? `[${escapeMarkdown(issue.key)}](${issue.url})` : escapeMarkdown(issue.key),
+        formatNumber(issue.commits),
+        formatDate(issue.firstDate),
+        formatDate(issue.lastDate)
+      ]),
+      [1]
+    ), '')
+  }
+  return lines
+}
+
+function renderAwards(awards: NonNullable<ProcessedData['awards']>, commitUrlTemplate: string | null): string[] {
+  const lines: string[] = []
+
+  for (const [key, title, unit] of COMMIT_AWARDS) {
+    const entries = awards[key] as CommitAward[]
+    if (entries.length === 0) continue
+    lines.push(`### ${title}`, '')
+    entries.forEach((award, index) => {
+      const sha = award.sha.slice(0, 7)
+      const url = getCommitUrl(commitUrlTemplate, award.sha)
+      const commit = url ? `[\`${sha}\`](${url})` : `\`${sha}\``
+      const subject = escapeMarkdown(award.message.split('\n')[0] ?? '')
+      lines.push(`${index + 1}. ${commit} ${subject} (${escapeMarkdown(award.authorName)}, ${formatDate(award.date)}): **${formatNumber(award.value)}** ${unit}`)
+    })
+    lines.push('')
+  }
+
+  for (const [key, title] of CONTRIBUTOR_AWARDS) {
+    const entries = awards[key] as ContributorAward[]
+    if (entries.length === 0) continue
+    lines.push(`### ${title}`, '')
+    entries.forEach((award, index) => {
+      lines.push(`${index + 1}. ${escapeMarkdown(award.name)}: **${formatNumber(award.averageLinesChanged)}** lines per commit over ${formatNumber(award.commits)} commits`)
+    })
+    lines.push('')
+  }
+
+  return lines
+}
+
+/**
+ * Render the report as GitHub-flavoured Markdown for READMEs, wikis, PR
+ * comments and CI step summaries
+ */
+export function renderMarkdownReport(context: AnalysisContext, pipelineData: ProcessedData): string {
+  const { repoName, remoteHost, config } = context
+  const { commits, contributors, fileTypes, timeSeries, linearSeries, topFilesData, ownership, issues, awards } = pipelineData
+
+  const totalLinesAdded = commits.reduce((sum, commit) => sum + commit.linesAdded, 0)
+  const totalLinesDeleted = commits.reduce((sum, commit) => sum + commit.linesDeleted, 0)
+  // Same hero metric as the HTML report
+  const linesOfCode = Math.max(0, totalLinesAdded - totalLinesDeleted)
+  const repositoryLink = remoteHost ? ` · [${remoteHost.name}](${remoteHost.url})` : ''
+
+  const lines: string[] = [
+    `# ${escapeMarkdown(repoName)}`,
+    '',
+    `_Generated by repo-statter on ${formatDate(new Date().toISOString())}${repositoryLink}_`,
+    '',
+    '## Summary',
+    '',
+    table(['Metric', 'Value'], [
+      ['Commits', formatNumber(commits.length)],
+      ['Contributors', formatNumber(contributors.length)],
+      ['Lines of code', formatNumber(linesOfCode)],
+      ['Lines added / deleted', `+${formatNumber(totalLinesAdded)} / -${formatNumber(totalLinesDeleted)}`],
+      ['First commit', formatDate(commits[0]?.date)],
+      ['Latest commit', formatDate(commits[commits.length - 1]?.date)],
+      ...(ownership ? [['Bus factor', formatNumber(ownership.busFactor)]] : [])
+    ], [1]),
+    ''
+  ]
+
+  if (config.markdown.sparklines) {
+    const locSparkline = renderSparkline(linearSeries.map(point => point.cumulativeLines), 'Lines of code over time')
+    const commitSparkline = renderSparkline(timeSeries.map(point => point.commits), 'Commits over time')
+    if (locSparkline) lines.push(`Lines of code ${locSparkline}`, '')
+    if (commitSparkline) lines.push(`Commits ${commitSparkline}`, '')
+  }
+
+  lines.push('## Contributors', '')
+  const shownContributors = contributors.slice(0, config.markdown.maxContributors)
+  // Full co-author credit counts a commit once per author, so share is taken of credited commits
+  const creditedCommits = contributors.reduce((sum, contributor) => sum + contributor.commits, 0)
+  lines.push(table(
+    ['#', 'Contributor', 'Commits', 'Share', 'Lines added', 'Lines deleted'],
+    shownContributors.map((contributor, index) => [
+      String(index + 1),
+      escapeMarkdown(contributor.name),
+      formatNumber(contributor.commits),
+      formatPercent(creditedCommits > 0 ? (contributor.commits / creditedCommits) * 100 : 0),
+      `+${formatNumber(contributor.linesAdded)}`,
+      `-${formatNumber(contributor.linesDeleted)}`
+    ]),
+    [0, 2, 3, 4, 5]
+  ), '')
+  if (contributors.length > shownContributors.length) {
+    lines.push(`_…and ${formatNumber(contributors.length - shownContributors.length)} more_`, '')
+  }
+
+  lines.push('## Languages', '')
+  lines.push(fileTypes.length > 0
+    ? table(['Language', 'Lines', 'Share'], fileTypes.slice(0, MAX_LANGUAGES).map(fileType => [escapeMarkdown(fileType.type), formatNumber(fileType.lines), formatPercent(fileType.percentage)]), [1, 2])
+    : '_No source files_', '')
+
+  const lastPoint = timeSeries[timeSeries.length - 1]
+  if (lastPoint) {
+    const totals = (key: keyof Omit<CategoryBreakdown, 'total'>, field: 'linesAdded' | 'linesDeleted') =>
+      timeSeries.reduce((sum, point) => sum + point[field][key], 0)
+    lines.push('## Categories', '')
+    lines.push(table(
+      ['Category', 'Lines', 'Lines added', 'Lines deleted'],
+      CATEGORY_NAMES.map(([key, name]) => [name, formatNumber(lastPoint.cumulativeLines[key]), `+${formatNumber(totals(key, 'linesAdded'))}`, `-${formatNumber(totals(key, 'linesDeleted'))}`]),
+      [1, 2, 3]
+    ), '')
+  }
+
+  if (topFilesData) {
+    lines.push('## Files', '', '### Most Churn', '', renderFileTable(topFilesData.mostChurn, 'Lines changed'), '')
+    lines.push('### Largest', '', renderFileTable(topFilesData.largest, 'Lines'), '')
+  }
+
+  if (issues) {
+    lines.push('## Issues', '', ...renderIssues(issues))
+  }
+
+  if (awards) {
+    const awardLines = renderAwards(awards, getCommitUrlTemplate(config, remoteHost ?? null))
+    if (awardLines.length > 0) lines.push('## Awards', '', ...awardLines)
+  }
+
+  return lines.join('\n').trimEnd() + '\n'
+}
+
+export async function writeMarkdownReport(outputDir: string, filename: string, markdown: string): Promise<string> {
+  const reportPath = join(outputDir, filename.endsWith('.md') ? filename : `${filename}.md`)
+  await writeFile(reportPath, markdown)
+  return resolve(reportPath)
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, readFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { loadManifest, generateMultiRepoReport } from './multi-repo.js'
+
+function createRepo(path: string, author: string, email: string, files: Record<string, string>) {
+  mkdirSync(path, { recursive: true })
+  execSync('git init', { cwd: path })
+  execSync(`git config user.name "${author}"`, { cwd: path })
+  execSync(`git config user.email "${email}"`, { cwd: path })
+  for (const [fileName, content] of Object.entries(files)) {
+    writeFileSync(join(path, fileName), content)
+  }
+  execSync('git add . && git commit -m "Initial commit"', { cwd: path })
+}
+
+describe('multi-repository report', () => {
+  let rootDir: string
+
+  beforeAll(() => {
+    rootDir = mkdtempSync(join(tmpdir(), 'repo-statter-multi-'))
+    createRepo(join(rootDir, 'api'), 'Jane Doe', 'jane@example.com', { 'server.ts': 'export const port = 80\n' })
+    createRepo(join(rootDir, 'web'), 'jdoe', 'jane@example.com', { 'app.js': 'console.log(1)\nconsole.log(2)\n' })
+  })
+
+  afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  it('resolves manifest paths against the manifest directory', async () => {
+    const manifestPath = join(rootDir, 'repos.json')
+    writeFileSync(manifestPath, JSON.stringify({ name: 'Product', repositories: ['api', { path: './web', name: 'Website' }] }))
+
+    expect(await loadManifest(manifestPath)).toEqual({
+      name: 'Product',
+      repositories: [{ path: join(rootDir, 'api') }, { path: join(rootDir, 'web'), name: 'Website' }]
+    })
+  })
+
+  it('rejects a manifest without repositories', async () => {
+    const manifestPath = join(rootDir, 'broken.json')
+    writeFileSync(manifestPath, JSON.stringify({ repos: ['api'] }))
+
+    await expect(loadManifest(manifestPath)).rejects.toMatchObject({ code: 'INVALID_MANIFEST' })
+  })
+
+  it('combines every repository into one report', async () => {
+    const outputDir = join(rootDir, 'out')
+    const manifest = { name: 'Product', repositories: [{ path: join(rootDir, 'api') }, { path: join(rootDir, 'web'), name: 'Website' }] }
+
+    const reportPath = await generateMultiRepoReport(manifest, outputDir, undefined, undefined, undefined, { useCache: false }, TEST_CONFIG)
+
+    expect(reportPath).toBe(join(outputDir, 'product.html'))
+    const html = readFileSync(reportPath, 'utf-8')
+    expect(html).toContain('<h5 class="mb-0 fw-semibold">Product</h5>')
+    expect(html).toContain('<tr><td>api</td>')
+    expect(html).toContain('<tr><td>Website</td>')
+    // One contributor, committing to both repositories under different names
+    expect(html).toContain('<span class="badge bg-secondary me-1">api</span><span class="badge bg-secondary me-1">Website</span>')
+    expect(html).not.toMatch(/\{\{\w+\}\}/)
+  })
+})
@@ -0,0 +1,165 @@
+import { resolve, dirname, join } from 'path'
+import { readFile, writeFile, mkdir } from 'fs/promises'
+import { existsSync } from 'fs'
+import { fileURLToPath } from 'url'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+import { buildAnalysisContext } from './generator.js'
+import { DataPipeline } from '../data/unified-pipeline.js'
+import { calculatePortfolio, type PortfolioInput } from '../data/multi-repo-calculator.js'
+import { replaceTemplateVariables, escapeHtml } from '../utils/template-engine.js'
+import { RepoStatError, formatError } from '../utils/errors.js'
+import { DEFAULT_CONFIG } from '../config/defaults.js'
+import type { CacheOptions } from '../git/parser.js'
+import type { ProgressReporter } from '../utils/progress-reporter.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+import type { PortfolioData } from '../data/types.js'
+
+export interface MultiRepoEntry {
+  path: string
+  name?: string // defaults to the repository name
+}
+
+export interface MultiRepoManifest {
+  name?: string // report title, defaults to "Portfolio"
+  repositories: MultiRepoEntry[]
+}
+
+/**
+ * Read a JSON manifest: `{ "name": "...", "repositories": ["../api", { "path": "../web", "name": "Web" }] }`.
+ * Relative paths are resolved against the manifest's directory.
+ */
+export async function loadManifest(manifestPath: string): Promise<MultiRepoManifest> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(await readFile(manifestPath, 'utf-8'))
+  } catch (error) {
+    throw new RepoStatError(`Could not read manifest ${manifestPath}: ${formatError(error)}`, 'INVALID_MANIFEST')
+  }
+
+  const { name: title, repositories: entries } = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>
+  if (!Array.isArray(entries)) {
+    throw new RepoStatError(`Manifest ${manifestPath} must contain a "repositories" array`, 'INVALID_MANIFEST')
+  }
+  if (title !== undefined && typeof title !== 'string') {
+    throw new RepoStatError(`Manifest ${manifestPath}: "name" must be a string`, 'INVALID_MANIFEST')
+  }
+
+  const baseDir = dirname(resolve(manifestPath))
+  const repositories = entries.map((entry: unknown, index: number): MultiRepoEntry => {
+    if (typeof entry === 'string') {
+      return { path: resolve(baseDir, entry) }
+    }
+    const { path, name } = (entry ?? {}) as Record<string, unknown>
+    if (typeof path !== 'string' || (name !== undefined && typeof name !== 'string')) {
+      throw new RepoStatError(`Manifest ${manifestPath}: repository ${index + 1} must be a path or { "path": string, "name"?: string }`, 'INVALID_MANIFEST')
+    }
+    return { path: resolve(baseDir, path), ...(name !== undefined && { name }) }
+  })
+
+  return { ...(title !== undefined && { name: title }), repositories }
+}
+
+/**
+ * Run the pipeline for each repository and combine the results. Every
+ * repository is parsed on its own, so each keeps its own cache entry.
+ */
+export async function analyzePortfolio(manifest: MultiRepoManifest, progressReporter?: ProgressReporter, maxCommits?: number, cacheOptions?: CacheOptions, config?: SimplifiedConfig): Promise<PortfolioData> {
+  if (manifest.repositories.length === 0) {
+    throw new RepoStatError('No repositories to analyze. Give repository paths or a manifest file.', 'NO_REPOSITORIES')
+  }
+
+  const finalConfig = config || DEFAULT_CONFIG
+  const inputs: PortfolioInput[] = []
+  for (const [index, entry] of manifest.repositories.entries()) {
+    progressReporter?.report(`Analyzing ${entry.name ?? entry.path} (${index + 1}/${manifest.repositories.length})`)
+    const context = await buildAnalysisContext(entry.path, progressReporter, maxCommits, cacheOptions, finalConfig)
+
+    // Two checkouts with the same name still need to be told apart
+    const baseName = entry.name ?? context.repoName
+    let name = baseName
+    for (let suffix = 2; inputs.some(input => input.name === name); suffix++) {
+      name = `${baseName} (${suffix})`
+    }
+
+    const pipelineData = await new DataPipeline().processRepository(context)
+    inputs.push({ name, path: entry.path, pipelineData })
+  }
+
+  progressReporter?.report('Combining repositories')
+  return calculatePortfolio(manifest.name ?? 'Portfolio', inputs, finalConfig)
+}
+
+export async function generateMultiRepoReport(manifest: MultiRepoManifest, outputDir: string = 'dist', progressReporter?: ProgressReporter, maxCommits?: number, customFilename?: string, cacheOptions?: CacheOptions, config?: SimplifiedConfig): Promise<string> {
+  const portfolio = await analyzePortfolio(manifest, progressReporter, maxCommits, cacheOptions, config)
+
+  const safeName = portfolio.name.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'portfolio'
+  const filename = customFilename
+    ? (customFilename.endsWith('.html') ? customFilename : `${customFilename}.html`)
+    : `${safeName}.html`
+  const reportPath = join(outputDir, filename)
+
+  if (!existsSync(outputDir)) {
+    await mkdir(outputDir, { recursive: true })
+  }
+
+  progressReporter?.report('Loading multi-repository template')
+  // In npm package: dist/report/multi-repo.js -> src/report/multi-repo-template.html
+  const template = await readFile(join(__dirname, '../../src/report/multi-repo-template.html'), 'utf-8')
+  const logoSvg = await readFile(join(__dirname, '../../src/images/logo.svg'), 'utf-8')
+
+  progressReporter?.report('Generating HTML report')
+  const html = replaceTemplateVariables(template, {
+    ...renderPortfolio(portfolio),
+    generationDate: new Date().toLocaleString(),
+    logoSvg
+  })
+
+  progressReporter?.report('Writing report file')
+  await writeFile(reportPath, html)
+
+  return resolve(reportPath)
+}
+
+function emptyRow(columns: number, message: string): string {
+  return `<tr><td colspan="${columns}" class="text-center text-muted">${message}</td></tr>`
+}
+
+/**
+ * Template values for the multi-repository report; every value is HTML-safe
+ */
+export function renderPortfolio(portfolio: PortfolioData): Record<string, string> {
+  const formatDate = (date: string | null) => date ? new Date(date).toLocaleDateString() : '-'
+
+  const repositoryRows = portfolio.repositories.map(repository => `<tr><td>${escapeHtml(repository.name)}</td>` +
+    `<td class="text-end">${repository.commits.toLocaleString()}</td>` +
+    `<td class="text-end">${repository.contributors.toLocaleString()}</td>` +
+    `<td class="text-end">${repository.linesOfCode.toLocaleString()}</td>` +
+    `<td class="text-end">${formatDate(repository.firstCommitDate)}</td>` +
+    `<td class="text-end">${formatDate(repository.lastCommitDate)}</td></tr>`)
+
+  const contributorRows = portfolio.contributors.map(contributor => `<tr><td>${escapeHtml(contributor.name)}</td>` +
+    `<td>${contributor.repositories.map(repository => `<span class="badge bg-secondary me-1">${escapeHtml(repository)}</span>`).join('')}</td>` +
+    `<td class="text-end">${contributor.commits.toLocaleString()}</td>` +
+    `<td class="text-end">+${contributor.linesAdded.toLocaleString()}</td>` +
+    `<td class="text-end">-${contributor.linesDeleted.toLocaleString()}</td></tr>`)
+
+  // Embedded in a <script> block, so "</script>" in a repository name must not end it
+  const chartData = JSON.stringify({
+    repositories: portfolio.repositories.map(({ name, growth }) => ({ name, growth })),
+    fileTypes: portfolio.fileTypes
+  }).replace(/</g, '\\u003c')
+
+  return {
+    portfolioName: escapeHtml(portfolio.name),
+    totalRepositories: portfolio.repositories.length.toLocaleString(),
+    totalCommits: portfolio.totalCommits.toLocaleString(),
+    totalContributors: portfolio.contributors.length.toLocaleString(),
+    sharedContributors: portfolio.contributors.filter(contributor => contributor.repositories.length > 1).length.toLocaleString(),
+    totalLinesOfCode: portfolio.totalLinesOfCode.toLocaleString(),
+    repositoryRows: repositoryRows.join('\n') || emptyRow(6, 'No repositories'),
+    contributorRows: contributorRows.join('\n') || emptyRow(5, 'No contributors'),
+    chartData
+  }
+}
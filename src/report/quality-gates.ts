@@ -0,0 +1,26 @@
+import { buildAnalysisContext } from './generator.js'
+import { DataPipeline } from '../data/unified-pipeline.js'
+import { evaluateQualityGates } from '../data/quality-gate-calculator.js'
+import { RepoStatError } from '../utils/errors.js'
+import { DEFAULT_CONFIG } from '../config/defaults.js'
+import type { QualityGateResult } from '../data/types.js'
+import type { CacheOptions } from '../git/parser.js'
+import type { ProgressReporter } from '../utils/progress-reporter.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+
+/**
+ * Analyze the repository and evaluate the `qualityGates` thresholds from the config
+ */
+export async function checkQualityGates(repoPath: string, progressReporter?: ProgressReporter, maxCommits?: number, cacheOptions?: CacheOptions, config?: SimplifiedConfig): Promise<QualityGateResult[]> {
+  const finalConfig = config || DEFAULT_CONFIG
+  if (Object.values(finalConfig.qualityGates).every(threshold => threshold === null)) {
+    throw new RepoStatError('No quality gates configured. Set thresholds under "qualityGates" in the config file.', 'NO_QUALITY_GATES')
+  }
+
+  const context = await buildAnalysisContext(repoPath, progressReporter, maxCommits, cacheOptions, finalConfig)
+
+  progressReporter?.report('Processing repository data')
+  const pipelineData = await new DataPipeline().processRepository(context)
+
+  return evaluateQualityGates(pipelineData, context)
+}
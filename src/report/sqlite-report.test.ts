@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { execSync } from 'child_process'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { generateReport } from './generator.js'
+import { sqlLiteral, checkSqliteInstalled } from './sqlite-report.js'
+
+describe('sqlLiteral', () => {
+  it('escapes strings and maps missing values to NULL', () => {
+    expect(sqlLiteral("it's")).toBe("'it''s'")
+    expect(sqlLiteral(42)).toBe('42')
+    expect(sqlLiteral(true)).toBe('1')
+    expect(sqlLiteral(undefined)).toBe('NULL')
+    expect(sqlLiteral(NaN)).toBe('NULL')
+  })
+})
+
+describe('SQLite prerequisite', () => {
+  it('fails before the analysis when the sqlite3 CLI is missing', async () => {
+    const path = process.env['PATH']
+    process.env['PATH'] = ''
+    try {
+      // The repository does not exist, so only an early check can report the missing CLI
+      await expect(
+        generateReport(join(tmpdir(), 'repo-statter-missing-repo'), tmpdir(), undefined, undefined, 'stats', { useCache: false }, TEST_CONFIG, 'sqlite')
+      ).rejects.toMatchObject({ code: 'SQLITE_NOT_INSTALLED' })
+    } finally {
+      process.env['PATH'] = path
+    }
+  })
+})
+
+describe.skipIf(!await checkSqliteInstalled())('SQLite report', () => {
+  let testRepoPath: string
+  let outputDir: string
+  let dbPath: string
+
+  const query = (sql: string) => execSync(`sqlite3 -batch "${dbPath}"`, { input: sql, encoding: 'utf-8' }).trim()
+  const commit = (file: string, content: string, message: string) => {
+    writeFileSync(join(testRepoPath, file), content)
+    execSync(`git add . && git commit -m "${message}"`, { cwd: testRepoPath })
+  }
+
+  beforeAll(() => {
+    testRepoPath = mkdtempSync(join(tmpdir(), 'repo-statter-sqlite-'))
+    outputDir = mkdtempSync(join(tmpdir(), 'repo-statter-sqlite-out-'))
+    dbPath = join(outputDir, 'stats.sqlite')
+    execSync('git init', { cwd: testRepoPath })
+    execSync('git config user.name "Test User"', { cwd: testRepoPath })
+    execSync('git config user.email "test@example.com"', { cwd: testRepoPath })
+
+    commit('app.ts', 'export const a = 1\n', "Add app's entry point")
+    execSync('git tag -a v1.0 -m "First release"', { cwd: testRepoPath })
+    commit('app.test.ts', 'import { a } from "./app"\n', 'Add test')
+  })
+
+  afterAll(() => {
+    rmSync(testRepoPath, { recursive: true, force: true })
+    rmSync(outputDir, { recursive: true, force: true })
+  })
+
+  it('writes commits, file changes, authors, tags and daily stats', async () => {
+    const result = await generateReport(testRepoPath, outputDir, undefined, undefined, 'stats', { useCache: false }, TEST_CONFIG, 'sqlite')
+
+    expect(result).toBe(dbPath)
+    expect(query('SELECT COUNT(*) FROM commits;')).toBe('2')
+    expect(query("SELECT message FROM commits WHERE message LIKE 'Add app%';")).toBe("Add app's entry point")
+    expect(query('SELECT file_name, category FROM file_changes ORDER BY file_name;')).toBe('app.test.ts|test\napp.ts|application')
+    expect(query('SELECT name, emails, commits FROM authors;')).toBe('Test User|test@example.com|2')
+    expect(query('SELECT name, annotated, message FROM tags;')).toBe('v1.0|1|First release')
+    expect(query("SELECT SUM(commits), SUM(lines_added) FROM daily_stats WHERE category = 'total';")).toBe('2|2')
+    expect(query("SELECT name FROM sqlite_master WHERE type = 'index' AND name LIKE 'idx_%' ORDER BY name;").split('\n'))
+      .toContain('idx_file_changes_file')
+  })
+
+  it('only adds new commits when the database is compatible', async () => {
+    // Marker survives an incremental update because existing file changes are kept
+    query("UPDATE file_changes SET file_type = 'Marker' WHERE file_name = 'app.ts';")
+    commit('lib.ts', 'export const b = 2\n', 'Add lib')
+
+    await generateReport(testRepoPath, outputDir, undefined, undefined, 'stats', { useCache: false }, TEST_CONFIG, 'sqlite')
+
+    expect(query('SELECT COUNT(*) FROM commits;')).toBe('3')
+    expect(query("SELECT file_type FROM file_changes WHERE file_name = 'app.ts';")).toBe('Marker')
+    expect(query("SELECT SUM(commits) FROM daily_stats WHERE category = 'total';")).toBe('3')
+  })
+
+  it('rebuilds when the cache version changes', async () => {
+    const config = { ...TEST_CONFIG, performance: { ...TEST_CONFIG.performance, cacheVersion: `${TEST_CONFIG.performance.cacheVersion}-next` } }
+
+    await generateReport(testRepoPath, outputDir, undefined, undefined, 'stats', { useCache: false }, config, 'sqlite')
+
+    expect(query("SELECT file_type FROM file_changes WHERE file_name = 'app.ts';")).toBe('TypeScript')
+    expect(query("SELECT value FROM meta WHERE key = 'cache_version';")).toBe(config.performance.cacheVersion)
+  })
+})
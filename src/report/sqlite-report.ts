@@ -0,0 +1,298 @@
+import { join, resolve } from 'path'
+import { createHash } from 'crypto'
+import { existsSync } from 'fs'
+import { unlink } from 'fs/promises'
+import { spawn } from 'node:child_process'
+import type { AnalysisContext } from './generator.js'
+import type { ProcessedData } from '../data/unified-pipeline.js'
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+import type { CommitData } from '../git/parser.js'
+import { getTags, filterTags } from '../git/tags.js'
+import { getFileCategory } from '../utils/file-categories.js'
+import { RepoStatError } from '../utils/errors.js'
+
+/**
+ * Version of the table layout below. A database written with a different
+ * schema version, cache version or file settings is rebuilt from scratch.
+ */
+export const SQLITE_SCHEMA_VERSION = '1'
+
+const INSERT_BATCH_SIZE = 500
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS commits (
+  sha TEXT PRIMARY KEY,
+  date TEXT NOT NULL,
+  author_name TEXT NOT NULL,
+  author_email TEXT NOT NULL,
+  co_authors TEXT NOT NULL,
+  message TEXT NOT NULL,
+  files_changed INTEGER NOT NULL,
+  lines_added INTEGER NOT NULL,
+  lines_deleted INTEGER NOT NULL,
+  bytes_added INTEGER,
+  bytes_deleted INTEGER
+);
+CREATE TABLE IF NOT EXISTS file_changes (
+  sha TEXT NOT NULL REFERENCES commits(sha),
+  file_name TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  category TEXT NOT NULL,
+  lines_added INTEGER NOT NULL,
+  lines_deleted INTEGER NOT NULL,
+  bytes_added INTEGER,
+  bytes_deleted INTEGER,
+  PRIMARY KEY (sha, file_name)
+);
+CREATE TABLE IF NOT EXISTS authors (
+  name TEXT PRIMARY KEY,
+  emails TEXT NOT NULL,
+  commits INTEGER NOT NULL,
+  lines_added INTEGER NOT NULL,
+  lines_deleted INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS tags (
+  name TEXT PRIMARY KEY,
+  sha TEXT NOT NULL,
+  date TEXT NOT NULL,
+  annotated INTEGER NOT NULL,
+  message TEXT
+);
+CREATE TABLE IF NOT EXISTS daily_stats (
+  date TEXT NOT NULL,
+  category TEXT NOT NULL,
+  commits INTEGER NOT NULL,
+  lines_added INTEGER NOT NULL,
+  lines_deleted INTEGER NOT NULL,
+  bytes_added INTEGER NOT NULL,
+  bytes_deleted INTEGER NOT NULL,
+  PRIMARY KEY (date, category)
+);
+CREATE INDEX IF NOT EXISTS idx_commits_date ON commits(date);
+CREATE INDEX IF NOT EXISTS idx_commits_author ON commits(author_name);
+CREATE INDEX IF NOT EXISTS idx_file_changes_file ON file_changes(file_name);
+CREATE INDEX IF NOT EXISTS idx_file_changes_category ON file_changes(category);
+CREATE INDEX IF NOT EXISTS idx_tags_sha ON tags(sha);
+`
+
+type SqlValue = string | number | boolean | null | undefined
+
+interface DailyStats {
+  commits: number
+  linesAdded: number
+  linesDeleted: number
+  bytesAdded: number
+  bytesDeleted: number
+}
+
+export function sqlLiteral(value: SqlValue): string {
+  if (value === null || value === undefined) return 'NULL'
+  if (typeof value === 'boolean') return value ? '1' : '0'
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'NULL'
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+function insertRows(table: string, rows: SqlValue[][], verb = 'INSERT'): string {
+  const statements: string[] = []
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const values = rows.slice(i, i + INSERT_BATCH_SIZE).map(row => `(${row.map(sqlLiteral).join(', ')})`)
+    statements.push(`${verb} INTO ${table} VALUES\n${values.join(',\n')};`)
+  }
+  return statements.join('\n')
+}
+
+/**
+ * One row per UTC day (matching the HTML time series) and file category, plus
+ * a 'total' row that counts each commit once however many categories it touched
+ */
+function buildDailyStats(commits: CommitData[], config: SimplifiedConfig): SqlValue[][] {
+  const days = new Map<string, Map<string, DailyStats>>()
+  const add = (day: Map<string, DailyStats>, category: string, linesAdded: number, linesDeleted: number, bytesAdded: number, bytesDeleted: number) => {
+    const stats = day.get(category) ?? { commits: 0, linesAdded: 0, linesDeleted: 0, bytesAdded: 0, bytesDeleted: 0 }
+    stats.commits++
+    stats.linesAdded += linesAdded
+    stats.linesDeleted += linesDeleted
+    stats.bytesAdded += bytesAdded
+    stats.bytesDeleted += bytesDeleted
+    day.set(category, stats)
+  }
+
+  for (const commit of commits) {
+    const date = new Date(commit.date).toISOString().slice(0, 10)
+    const day = days.get(date) ?? new Map<string, DailyStats>()
+    days.set(date, day)
+    add(day, 'total', commit.linesAdded, commit.linesDeleted, commit.bytesAdded ?? 0, commit.bytesDeleted ?? 0)
+
+    const byCategory = new Map<string, DailyStats>()
+    for (const file of commit.filesChanged) {
+      add(byCategory, getFileCategory(file.fileName, config).toLowerCase(), file.linesAdded, file.linesDeleted, file.bytesAdded ?? 0, file.bytesDeleted ?? 0)
+    }
+    for (const [category, stats] of byCategory) {
+      add(day, category, stats.linesAdded, stats.linesDeleted, stats.bytesAdded, stats.bytesDeleted)
+    }
+  }
+
+  return [...days].flatMap(([date, day]) => [...day].map(([category, stats]) => [
+    date, category, stats.commits, stats.linesAdded, stats.linesDeleted, stats.bytesAdded, stats.bytesDeleted
+  ]))
+}
+
+export async function checkSqliteInstalled(): Promise<boolean> {
+  try {
+    await runSqlite(':memory:', 'SELECT 1;')
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * `--format sqlite` drives the sqlite3 CLI, so check for it before a long analysis
+ */
+export async function assertSqliteInstalled(): Promise<void> {
+  if (!await checkSqliteInstalled()) {
+    throw new RepoStatError('The sqlite3 command-line tool is required for --format sqlite. Install it from https://sqlite.org/download.html or your package manager.', 'SQLITE_NOT_INSTALLED')
+  }
+}
+
+/**
+ * Run a script with the sqlite3 CLI, passing it on stdin so large exports
+ * are not limited by the command line length
+ */
+function runSqlite(dbPath: string, sql: string): Promise<string> {
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn('sqlite3', ['-batch', '-bail', dbPath], { stdio: ['pipe', 'pipe', 'pipe'] })
+    let stdout = ''
+    let stderr = ''
+    child.stdout.on('data', chunk => { stdout += chunk })
+    child.stderr.on('data', chunk => { stderr += chunk })
+    child.on('error', reject)
+    child.on('close', code => {
+      if (code === 0) {
+        resolvePromise(stdout)
+      } else {
+        reject(new RepoStatError(`sqlite3 failed: ${stderr.trim() || `exit code ${code}`}`, 'SQLITE_ERROR'))
+      }
+    })
+    child.stdin.end(sql)
+  })
+}
+
+/**
+ * Anything that changes the stored rows of an existing commit forces a rebuild
+ */
+function getBuildKeys(config: SimplifiedConfig): Record<string, string> {
+  const settings = JSON.stringify({ fileCategories: config.fileCategories, fileTypes: config.fileTypes, exclusions: config.exclusions })
+  return {
+    schema_version: SQLITE_SCHEMA_VERSION,
+    cache_version: config.performance.cacheVersion,
+    settings_hash: createHash('sha256').update(settings).digest('hex').slice(0, 16)
+  }
+}
+
+/**
+ * Commits already stored in a compatible database, or null when it has to be rebuilt
+ */
+async function readStoredCommits(dbPath: string, buildKeys: Record<string, string>): Promise<Set<string> | null> {
+  if (!existsSync(dbPath)) return null
+
+  try {
+    const meta = await runSqlite(dbPath, "SELECT key || '=' || value FROM meta;")
+    const stored = new Set(meta.split('\n').filter(Boolean))
+    if (!Object.entries(buildKeys).every(([key, value]) => stored.has(`${key}=${value}`))) {
+      return null
+    }
+    const shas = await runSqlite(dbPath, 'SELECT sha FROM commits;')
+    return new Set(shas.split('\n').filter(Boolean))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Write the analysis to `<name>.sqlite`. Re-running against the same file only
+ * inserts file changes for new commits; the small derived tables are rewritten.
+ */
+export async function writeSqliteReport(outputDir: string, name: string, context: AnalysisContext, pipelineData: ProcessedData): Promise<string> {
+  const { repoPath, config, progressReporter } = context
+  const { commits, contributors } = pipelineData
+
+  await assertSqliteInstalled()
+
+  const dbPath = join(outputDir, /\.(sqlite|db)$/.test(name) ? name : `${name}.sqlite`)
+  const buildKeys = getBuildKeys(config)
+  const storedCommits = await readStoredCommits(dbPath, buildKeys)
+
+  if (storedCommits === null && existsSync(dbPath)) {
+    progressReporter?.report('Rebuilding SQLite database')
+    await unlink(dbPath)
+  }
+
+  const newCommits = commits.filter(commit => !storedCommits?.has(commit.sha))
+  progressReporter?.report(`Writing ${newCommits.length} new commits to SQLite`)
+
+  const emailsByAuthor = new Map<string, Set<string>>()
+  for (const commit of commits) {
+    const emails = emailsByAuthor.get(commit.authorName) ?? new Set<string>()
+    for (const email of commit.identity?.emails ?? [commit.authorEmail]) emails.add(email)
+    emailsByAuthor.set(commit.authorName, emails)
+  }
+
+  const tags = filterTags(await getTags(repoPath), config.tags.patterns)
+
+  const script = [
+    'BEGIN;',
+    SCHEMA,
+    // Drop commits that are no longer part of the analysis (e.g. a narrower range)
+    'CREATE TEMP TABLE analyzed_commits (sha TEXT PRIMARY KEY);',
+    insertRows('analyzed_commits', commits.map(commit => [commit.sha])),
+    'DELETE FROM file_changes WHERE sha NOT IN (SELECT sha FROM analyzed_commits);',
+    'DELETE FROM commits WHERE sha NOT IN (SELECT sha FROM analyzed_commits);',
+    // Commit rows are cheap, so they are always refreshed to pick up identity changes
+    insertRows('commits', commits.map(commit => [
+      commit.sha,
+      commit.date,
+      commit.authorName,
+      commit.authorEmail,
+      (commit.coAuthors ?? []).map(coAuthor => coAuthor.name).join('; '),
+      commit.message,
+      commit.filesChanged.length,
+      commit.linesAdded,
+      commit.linesDeleted,
+      commit.bytesAdded,
+      commit.bytesDeleted
+    ]), 'INSERT OR REPLACE'),
+    insertRows('file_changes', newCommits.flatMap(commit => commit.filesChanged.map(file => [
+      commit.sha,
+      file.fileName,
+      file.fileType,
+      getFileCategory(file.fileName, config).toLowerCase(),
+      file.linesAdded,
+      file.linesDeleted,
+      file.bytesAdded,
+      file.bytesDeleted
+    ]))),
+    'DELETE FROM authors;',
+    insertRows('authors', contributors.map(contributor => [
+      contributor.name,
+      [...emailsByAuthor.get(contributor.name) ?? []].join('; '),
+      contributor.commits,
+      contributor.linesAdded,
+      contributor.linesDeleted
+    ])),
+    'DELETE FROM tags;',
+    insertRows('tags', tags.map(tag => [tag.name, tag.sha, tag.date, tag.annotated, tag.message])),
+    'DELETE FROM daily_stats;',
+    insertRows('daily_stats', buildDailyStats(commits, config)),
+    insertRows('meta', Object.entries(buildKeys), 'INSERT OR REPLACE'),
+    'COMMIT;'
+  ].filter(Boolean).join('\n')
+
+  await runSqlite(dbPath, script)
+
+  return resolve(dbPath)
+}
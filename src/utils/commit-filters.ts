@@ -16,4 +16,12 @@ export function isRealCommit(commit: CommitData, config: SimplifiedConfig): bool
   return !config.commitFilters.automatedPatterns.some(pattern => 
     new RegExp(pattern).test(message)
   )
-}
\ No newline at end of file
+}
+
+/**
+ * Whether the commit is listed in `commitFilters.ignoreShas`, by full or abbreviated SHA
+ */
+export function isIgnoredCommit(commit: CommitData, config: SimplifiedConfig): boolean {
+  const sha = commit.sha.toLowerCase()
+  return config.commitFilters.ignoreShas.some(ignored => sha.startsWith(ignored.toLowerCase()))
+}
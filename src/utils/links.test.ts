@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { TEST_CONFIG } from '../test/test-config.js'
+import { resolveRemoteHost } from '../git/remote-host.js'
+import { fillLinkTemplate, getCommitUrl, getCommitUrlTemplate, getFileUrl, getFileUrlTemplate } from './links.js'
+
+const gitlab = resolveRemoteHost('git@gitlab.com:team/app.git')
+
+describe('fillLinkTemplate', () => {
+  it('fills placeholders and encodes path segments', () => {
+    expect(fillLinkTemplate('{repo}/issues/{number}', { repo: 'https://example.com/a/b', number: '12' })).toBe('https://example.com/a/b/issues/12')
+    expect(fillLinkTemplate('https://tracker/?q={key}', { key: '#12' })).toBe('https://tracker/?q=%2312')
+    expect(fillLinkTemplate('{repo}/blob/main/{path}', { repo: 'https://example.com/a/b', path: 'src/a b.ts' })).toBe('https://example.com/a/b/blob/main/src/a%20b.ts')
+  })
+
+  it('returns null when a placeholder has no value', () => {
+    expect(fillLinkTemplate('{repo}/issues/{number}', { repo: null, number: '12' })).toBeNull()
+  })
+})
+
+describe('getCommitUrlTemplate', () => {
+  it('defaults to the remote commit page', () => {
+    const template = getCommitUrlTemplate(TEST_CONFIG, resolveRemoteHost('git@github.com:owner/repo.git'))
+
+    expect(template).toBe('https://github.com/owner/repo/commit/{sha}')
+    expect(getCommitUrl(template, 'abc123')).toBe('https://github.com/owner/repo/commit/abc123')
+  })
+
+  it('uses links.commitUrl for other hosts', () => {
+    const config = { ...TEST_CONFIG, links: { ...TEST_CONFIG.links, commitUrl: 'https://git.example.com/team/app/commits/{sha}' } }
+
+    expect(getCommitUrlTemplate(config, null)).toBe('https://git.example.com/team/app/commits/{sha}')
+    expect(getCommitUrlTemplate({ ...config, links: { ...config.links, commitUrl: '{repo}/-/commit/{sha}' } }, gitlab)).toBe('https://gitlab.com/team/app/-/commit/{sha}')
+  })
+
+  it('has no template without a remote or a configured link', () => {
+    expect(getCommitUrlTemplate(TEST_CONFIG, null)).toBeNull()
+    expect(getCommitUrl(null, 'abc123')).toBeNull()
+  })
+})
+
+describe('getFileUrlTemplate', () => {
+  it('pins file links to a revision', () => {
+    const template = getFileUrlTemplate(gitlab, 'abc123')
+
+    expect(getFileUrl(template, 'src/index.ts')).toBe('https://gitlab.com/team/app/-/blob/abc123/src/index.ts')
+    expect(getFileUrlTemplate(null, 'abc123')).toBeNull()
+  })
+})
@@ -0,0 +1,55 @@
+import type { SimplifiedConfig } from '../config/simplified-schema.js'
+import type { RemoteHost } from '../git/remote-host.js'
+
+/**
+ * Replace `{name}` placeholders in a link template. Returns null when the
+ * template uses a placeholder without a value, e.g. `{repo}` for a
+ * repository without a known remote.
+ */
+export function fillLinkTemplate(template: string, values: Record<string, string | null | undefined>): string | null {
+  let missing = false
+  const url = template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = values[name]
+    if (value === null || value === undefined) {
+      missing = true
+      return placeholder
+    }
+    // The repository URL is a prefix and file paths keep their slashes
+    if (name === 'repo') return value
+    if (name === 'path') return value.split('/').map(encodeURIComponent).join('/')
+    return encodeURIComponent(value)
+  })
+  return missing ? null : url
+}
+
+/**
+ * The commit link template for the report, with `{sha}` left in place
+ */
+export function getCommitUrlTemplate(config: SimplifiedConfig, remoteHost: RemoteHost | null): string | null {
+  const { commitUrl } = config.links
+  if (!commitUrl) return remoteHost?.commitUrl ?? null
+  return commitUrl.includes('{repo}') && !remoteHost
+    ? null
+    : commitUrl.replace(/\{repo\}/g, remoteHost?.url ?? '')
+}
+
+/**
+ * The file link template at a revision, with `{path}` left in place
+ */
+export function getFileUrlTemplate(remoteHost: RemoteHost | null, ref: string | undefined): string | null {
+  return remoteHost && ref ? remoteHost.fileUrl.replace(/\{ref\}/g, encodeURIComponent(ref)) : null
+}
+
+/**
+ * Link to a commit, or null when no commit link template is known
+ */
+export function getCommitUrl(commitUrlTemplate: string | null | undefined, sha: string): string | null {
+  return commitUrlTemplate ? fillLinkTemplate(commitUrlTemplate, { sha }) : null
+}
+
+/**
+ * Link to a file, or null when no file link template is known
+ */
+export function getFileUrl(fileUrlTemplate: string | null | undefined, path: string): string | null {
+  return fileUrlTemplate ? fillLinkTemplate(fileUrlTemplate, { path }) : null
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { replaceTemplateVariables, injectIntoBody } from './template-engine.js'
+import { replaceTemplateVariables, injectIntoBody, escapeHtml } from './template-engine.js'
 
 describe('template-engine', () => {
   describe('replaceTemplateVariables', () => {
@@ -17,6 +17,11 @@ describe('template-engine', () => {
       expect(result).toBe('Hello Alice, today is Monday')
     })
 
+    it('should insert values containing replacement patterns literally', () => {
+      const result = replaceTemplateVariables('File: {{file}}', { file: 'src/$&$1.ts' })
+      expect(result).toBe('File: src/$&$1.ts')
+    })
+
     it('should replace repeated template variables', () => {
       const template = '{{name}} says: Hello {{name}}'
       const data = { name: 'Bob' }
@@ -122,4 +127,10 @@ describe('template-engine', () => {
       expect(() => injectIntoBody('template', 123 as any)).toThrow('Content must be a string')
     })
   })
-})
\ No newline at end of file
+
+  describe('escapeHtml', () => {
+    it('should escape markup characters', () => {
+      expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;')
+    })
+  })
+})
@@ -13,7 +13,8 @@ export function replaceTemplateVariables(template: string, data: TemplateData):
   for (const [key, value] of Object.entries(data)) {
     assert(typeof value === 'string', `Template value for ${key} must be a string`)
     const placeholder = `{{${key}}}`
-    result = result.replace(new RegExp(placeholder, 'g'), value)
+    // Function replacement so `$&` and friends in values are inserted literally
+    result = result.replace(new RegExp(placeholder, 'g'), () => value)
   }
   
   return result
@@ -24,4 +25,13 @@ export function injectIntoBody(template: string, content: string): string {
   assert(typeof content === 'string', 'Content must be a string')
   
   return template.replace('</body>', content + '\n</body>')
-}
\ No newline at end of file
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
@@ -1,4 +1,5 @@
 import type { ContributorAward, CommitAward } from '../data/types.js'
+import { getCommitUrl } from '../utils/links.js'
 
 export interface AwardsData {
   filesModified: CommitAward[]
@@ -10,7 +11,7 @@ export interface AwardsData {
   highestAverage: ContributorAward[]
 }
 
-export function renderAwards(awards: AwardsData, githubUrl?: string): void {
+export function renderAwards(awards: AwardsData, commitUrlTemplate?: string | null): void {
   const container = document.getElementById('awardsContainer')
   if (!container) return
 
@@ -71,14 +72,15 @@ export function renderAwards(awards: AwardsData, githubUrl?: string): void {
             award.message.substring(0, 50) + '...' :
             award.message
 
-        const commitLink = githubUrl ?
-            `<a href="${githubUrl}/commit/${award.sha}" target="_blank" class="text-decoration-none" title="${award.sha}">
+        const commitUrl = getCommitUrl(commitUrlTemplate, award.sha)
+        const commitLink = commitUrl ?
+            `<a href="${commitUrl.replace(/"/g, '&quot;')}" target="_blank" class="text-decoration-none" title="${award.sha}">
             ${award.sha.substring(0, 7)}
           </a>` :
             `<span title="${award.sha}">${award.sha.substring(0, 7)}</span>`
 
         meta.innerHTML = `
-          ${award.authorName} • 
+          ${[award.authorName, ...(award.coAuthorNames ?? [])].join(' & ')} • 
           ${new Date(award.date).toLocaleDateString()} • 
           ${commitLink}
         `
@@ -9,6 +9,12 @@ import type { ProcessedData } from '../data/unified-pipeline.js'
 import { renderAwards, type AwardsData } from './awards-renderer.js'
 import { renderTimeSlider, resetTimeSlider, updateTargetCharts } from './time-slider-renderer.js'
 import { renderUserCharts } from './user-charts-renderer.js'
+import { renderOwnership } from './ownership-renderer.js'
+import { renderHotspots } from './hotspots-renderer.js'
+import { renderPackages } from './packages-renderer.js'
+import { renderCommitSizes } from './commit-sizes-renderer.js'
+import { renderCommitTypeSummary } from './commit-types-renderer.js'
+import { renderIssues } from './issues-renderer.js'
 
 // Import shared utilities
 import { showChartError } from './charts/chart-utils.js'
@@ -27,7 +33,8 @@ let fileTypeFilter: FileTypeFilter | null = null
 
 export interface ChartData extends ProcessedData {
   awards?: AwardsData
-  githubUrl?: string
+  commitUrlTemplate?: string | null // Commit link with a {sha} placeholder
+  fileUrlTemplate?: string | null // File link at the newest commit with a {path} placeholder
   chartsConfig?: SimplifiedConfig['charts']
 }
 
@@ -88,18 +95,90 @@ export function renderAllCharts(data: ChartData): void {
   const growthAxisMode = localStorage.getItem('growthChartXAxis') || 'commit'
   createChart('growth', 
     { linearSeries: data.linearSeries, timeSeries: data.timeSeries, commits: data.commits }, 
-    { axisMode: growthAxisMode },
+    { axisMode: growthAxisMode, milestones: data.milestones },
     'growthChart', 'Growth chart failed to load')
 
   const categoryAxisMode = localStorage.getItem('categoryChartXAxis') || 'commit'
   createChart('categoryLines', 
     { timeSeries: data.timeSeries, commits: data.commits }, 
-    { axisMode: categoryAxisMode },
+    { axisMode: categoryAxisMode, milestones: data.milestones },
     'categoryLinesChart', 'Category lines chart failed to load')
 
-  createChart('commitActivity', data.timeSeries, {},
+  if (data.complexityTrend && data.complexityTrend.points.length > 0) {
+    createChart('complexityTrend', data.complexityTrend, {},
+      'complexityTrendChart', 'Complexity trend chart failed to load')
+  }
+
+  // Metrics across report runs, only recorded with --history
+  if (data.history && data.history.snapshots.length > 1) {
+    createChart('historyTrend', data.history, {},
+      'historyTrendChart', 'History trend chart failed to load')
+  } else {
+    const container = document.getElementById('historyTrendChart')
+    if (container) {
+      container.innerHTML = data.history
+        ? '<p class="text-muted mb-0">Only one run recorded so far. Trends appear from the next run.</p>'
+        : '<p class="text-muted mb-0">Generate the report with --history to track metrics across runs.</p>'
+    }
+  }
+
+  // Workspace packages, when the repository is a monorepo
+  if (data.packages) {
+    createChart('packageLines', data.packages, {},
+      'packageLinesChart', 'Package lines chart failed to load')
+    try {
+      renderPackages(data.packages, manager)
+    } catch (error) {
+      console.error('Failed to render packages:', error)
+    }
+  } else {
+    const container = document.getElementById('packageLinesChart')
+    if (container) {
+      container.innerHTML = '<p class="text-muted mb-0">No workspace packages detected. Set packages.roots to list them.</p>'
+    }
+  }
+
+  createChart('commitActivity', data.timeSeries, { milestones: data.milestones },
     'commitActivityChart', 'Commit activity chart failed to load')
 
+  // Conventional Commits (or keyword) types over time and per contributor
+  if (data.commitTypes) {
+    createChart('commitTypes', data.commitTypes, { granularity: data.commitTypes.granularity },
+      'commitTypesChart', 'Commit types chart failed to load')
+    createChart('commitTypesByContributor', data.commitTypes, {},
+      'commitTypesByContributorChart', 'Commit types by contributor chart failed to load')
+    try {
+      renderCommitTypeSummary(data.commitTypes)
+    } catch (error) {
+      console.error('Failed to render commit type summary:', error)
+    }
+  }
+
+  // Most referenced issues and commits without a ticket
+  if (data.issues) {
+    try {
+      renderIssues(data.issues)
+    } catch (error) {
+      console.error('Failed to render issues:', error)
+    }
+  } else {
+    const container = document.getElementById('issuesContainer')
+    if (container) {
+      container.innerHTML = '<p class="text-muted mb-0">No issue trackers configured. Set issues.trackers to collect issue references.</p>'
+    }
+  }
+
+  // Commit size distribution and the outlier review list
+  if (data.commitSizes) {
+    createChart('commitSizes', data.commitSizes, { metric: 'lines' },
+      'commitSizesChart', 'Commit sizes chart failed to load')
+    try {
+      renderCommitSizes(data.commitSizes, manager, data.commitUrlTemplate)
+    } catch (error) {
+      console.error('Failed to render commit sizes:', error)
+    }
+  }
+
   createChart('wordCloud', data.wordCloudData, 
     { height: data.chartsConfig?.wordCloudHeight ?? 400 },
     'wordCloudChart', 'Word cloud failed to load')
@@ -120,6 +199,33 @@ export function renderAllCharts(data: ChartData): void {
       'topFilesChart', 'Top files chart failed to load')
   }
 
+  // Hotspots: recent churn against complexity
+  if (data.hotspots) {
+    createChart('hotspots', data.hotspots, {},
+      'hotspotsChart', 'Hotspots chart failed to load')
+    try {
+      renderHotspots(data.hotspots, data.fileUrlTemplate)
+    } catch (error) {
+      console.error('Failed to render hotspots:', error)
+    }
+  }
+
+  // Ownership and bus factor
+  if (data.ownership) {
+    createChart('ownership', data.ownership, {},
+      'ownershipChart', 'Ownership chart failed to load')
+    try {
+      renderOwnership(data.ownership, data.fileUrlTemplate)
+    } catch (error) {
+      console.error('Failed to render ownership:', error)
+    }
+  }
+
+  if (data.coupling) {
+    createChart('coupling', data.coupling, {},
+      'couplingChart', 'Change coupling chart failed to load')
+  }
+
   // Render time slider last so all target charts exist
   try {
     renderTimeSlider(data.timeSeries, data.linearSeries, {
@@ -137,11 +243,11 @@ export function renderAllCharts(data: ChartData): void {
   // Render user charts for top contributors
   const limit = data.chartsConfig?.topContributorsLimit ?? 10
   const topContributors = data.contributors.slice(0, limit)
-  renderUserCharts(topContributors, data.commits, data.linearSeries, data.timeSeries, globalManager)
+  renderUserCharts(topContributors, data.commits, data.linearSeries, data.timeSeries, globalManager, data.milestones)
 
   // Render awards if available
   if (data.awards) {
-    renderAwards(data.awards, data.githubUrl)
+    renderAwards(data.awards, data.commitUrlTemplate)
   }
 
   // Set up chart toggles and event handlers
@@ -10,9 +10,17 @@ import { growthChart } from './definitions/growth.js'
 import { categoryLinesChart } from './definitions/category-lines.js'
 import { topFilesSizeChart, topFilesChurnChart, topFilesComplexChart } from './definitions/top-files.js'
 import { userChart, userActivityChart } from './definitions/user-charts.js'
+import { hotspotsChart } from './definitions/hotspots.js'
+import { complexityTrendChart } from './definitions/complexity-trend.js'
+import { historyTrendChart } from './definitions/history-trend.js'
+import { packageLinesChart } from './definitions/package-lines.js'
+import { commitSizesChart } from './definitions/commit-sizes.js'
+import { commitTypesChart, commitTypesByContributorChart } from './definitions/commit-types.js'
+import { ownershipChart } from './definitions/ownership.js'
+import { couplingChart } from './definitions/coupling.js'
 
 export interface ChartDefinition {
-  type: 'line' | 'area' | 'bar' | 'donut' | 'heatmap' | 'treemap' | 'radialBar' | 'rangeBar' | 'd3-wordcloud'
+  type: 'line' | 'area' | 'bar' | 'donut' | 'heatmap' | 'treemap' | 'radialBar' | 'rangeBar' | 'bubble' | 'd3-wordcloud'
   hasAxisToggle: boolean
   defaultAxis?: 'date' | 'commit'
   height: number
@@ -39,6 +47,15 @@ export const CHART_DEFINITIONS: Record<string, ChartDefinition> = {
   topFilesSize: topFilesSizeChart,
   topFilesChurn: topFilesChurnChart,
   topFilesComplex: topFilesComplexChart,
+  hotspots: hotspotsChart,
+  complexityTrend: complexityTrendChart,
+  historyTrend: historyTrendChart,
+  packageLines: packageLinesChart,
+  commitSizes: commitSizesChart,
+  commitTypes: commitTypesChart,
+  commitTypesByContributor: commitTypesByContributorChart,
+  ownership: ownershipChart,
+  coupling: couplingChart,
   
   // Dynamic user charts - created per contributor
   userChart,
@@ -3,7 +3,7 @@ import type { TimeSeriesPoint } from '../../../data/types.js'
 import type { CommitData } from '../../../git/parser.js'
 import type { ChartDefinition } from '../chart-definitions.js'
 import { CHART_COLOR_PALETTES } from '../shared/colors.js'
-import { createBaseChartOptions, createDateTimeAxisOptions, createNumericAxisOptions, createLegendOptions, createTooltipOptions } from '../shared/common-options.js'
+import { createBaseChartOptions, createDateTimeAxisOptions, createNumericAxisOptions, createLegendOptions, createTooltipOptions, createMilestoneAnnotations } from '../shared/common-options.js'
 import { validateTimeSeriesPoint } from '../shared/validators.js'
 
 export const categoryLinesChart: ChartDefinition = {
@@ -119,7 +119,7 @@ export const categoryLinesChart: ChartDefinition = {
     
     return { series, mode, commits: data.commits }
   },
-  optionsBuilder: (data): ApexOptions => {
+  optionsBuilder: (data, config): ApexOptions => {
     const baseOptions = {
       ...createBaseChartOptions('line', 350),
       chart: {
@@ -143,7 +143,9 @@ export const categoryLinesChart: ChartDefinition = {
         ...createLegendOptions('top'),
         horizontalAlign: 'left' as const
       },
-      tooltip: createTooltipOptions()
+      tooltip: createTooltipOptions(),
+      // Commit mode plots commit N at x = N - 1
+      annotations: createMilestoneAnnotations(config?.milestones, data.mode, 0)
     }
     
     if (data.mode === 'date') {
@@ -2,7 +2,7 @@ import type { ApexOptions } from 'apexcharts'
 import type { TimeSeriesPoint } from '../../../data/types.js'
 import type { ChartDefinition } from '../chart-definitions.js'
 import { CHART_COLORS } from '../shared/colors.js'
-import { createBaseChartOptions, createAxisOptions, createTooltipOptions } from '../shared/common-options.js'
+import { createBaseChartOptions, createAxisOptions, createTooltipOptions, createMilestoneAnnotations } from '../shared/common-options.js'
 import { validateArrayInput, validateTimeSeriesPoint } from '../shared/validators.js'
 
 export const commitActivityChart: ChartDefinition = {
@@ -76,7 +76,7 @@ export const commitActivityChart: ChartDefinition = {
       bucketCount: data.length
     }
   },
-  optionsBuilder: (data): ApexOptions => ({
+  optionsBuilder: (data, config): ApexOptions => ({
     ...createBaseChartOptions('bar', 350),
     chart: {
       ...createBaseChartOptions('bar', 350).chart,
@@ -122,6 +122,7 @@ export const commitActivityChart: ChartDefinition = {
     dataLabels: {
       enabled: false
     },
+    annotations: createMilestoneAnnotations(config?.milestones, 'date'),
     tooltip: {
       ...createTooltipOptions(),
       x: {
@@ -0,0 +1,64 @@
+import type { ApexOptions } from 'apexcharts'
+import type { CommitSizeData } from '../../../data/types.js'
+import type { ChartDefinition } from '../chart-definitions.js'
+import { CHART_COLORS } from '../shared/colors.js'
+import { createBaseChartOptions, createAxisOptions, createTooltipOptions } from '../shared/common-options.js'
+
+type SizeMetric = 'lines' | 'files' | 'bytes'
+
+const METRIC_LABELS: Record<SizeMetric, string> = {
+  lines: 'Lines changed',
+  files: 'Files changed',
+  bytes: 'Bytes changed'
+}
+
+export const commitSizesChart: ChartDefinition = {
+  type: 'bar',
+  hasAxisToggle: false,
+  height: 350,
+  elementId: 'commitSizesChart',
+  dataFormatter: (data: CommitSizeData, options?: { metric?: SizeMetric }) => {
+    const metric = options?.metric ?? 'lines'
+    const distribution = data?.[metric]
+    if (!distribution || !Array.isArray(distribution.buckets)) {
+      throw new Error(`commitSizes: no ${metric} distribution`)
+    }
+
+    return [{
+      name: METRIC_LABELS[metric],
+      data: distribution.buckets.map(bucket => ({
+        x: bucket.label,
+        y: bucket.count,
+        // Buckets entirely above the threshold only hold outliers
+        fillColor: bucket.min > distribution.outlierThreshold ? CHART_COLORS.pastel : CHART_COLORS.primary
+      }))
+    }]
+  },
+  optionsBuilder: (series, options?: { metric?: SizeMetric }): ApexOptions => ({
+    ...createBaseChartOptions('bar', 350),
+    series,
+    plotOptions: {
+      bar: {
+        columnWidth: '95%'
+      }
+    },
+    dataLabels: { enabled: false },
+    xaxis: {
+      ...createAxisOptions(METRIC_LABELS[options?.metric ?? 'lines']),
+      type: 'category'
+    },
+    yaxis: {
+      title: { text: 'Commits', style: { color: '#24292f' } },
+      labels: {
+        style: { colors: '#24292f' },
+        formatter: (val: number) => Math.round(val).toLocaleString()
+      }
+    },
+    tooltip: {
+      ...createTooltipOptions(),
+      y: {
+        formatter: (val: number) => `${val.toLocaleString()} commits`
+      }
+    }
+  })
+}
@@ -0,0 +1,110 @@
+import type { ApexOptions } from 'apexcharts'
+import type { CommitTypeData } from '../../../data/types.js'
+import type { ChartDefinition } from '../chart-definitions.js'
+import { CHART_COLOR_PALETTES } from '../shared/colors.js'
+import { createBaseChartOptions, createAxisOptions, createDateTimeAxisOptions, createLegendOptions, createTooltipOptions } from '../shared/common-options.js'
+
+// Fixed colors for the common types so both charts agree
+const TYPE_COLORS: Record<string, string> = {
+  feat: '#90EE90',
+  fix: '#FFB6C1',
+  refactor: '#87CEEB',
+  docs: '#98D8C8',
+  test: '#D8BFD8',
+  chore: '#F0E68C',
+  other: '#D3D3D3'
+}
+
+function getTypeColor(type: string, index: number): string {
+  return TYPE_COLORS[type] ?? CHART_COLOR_PALETTES.pastel[index % CHART_COLOR_PALETTES.pastel.length]!
+}
+
+function validate(data: CommitTypeData, chart: string): void {
+  if (!data || !Array.isArray(data.types) || !Array.isArray(data.timeSeries) || !Array.isArray(data.contributors)) {
+    throw new Error(`${chart}: types, timeSeries and contributors must be arrays`)
+  }
+}
+
+const stackedBarOptions = (series: any[]): ApexOptions => ({
+  ...createBaseChartOptions('bar', 350),
+  chart: {
+    ...createBaseChartOptions('bar', 350).chart,
+    stacked: true
+  },
+  series,
+  colors: series.map((item: { color: string }) => item.color),
+  legend: {
+    ...createLegendOptions('top'),
+    horizontalAlign: 'left'
+  },
+  dataLabels: { enabled: false }
+})
+
+export const commitTypesChart: ChartDefinition = {
+  type: 'bar',
+  hasAxisToggle: false,
+  height: 350,
+  elementId: 'commitTypesChart',
+  dataFormatter: (data: CommitTypeData) => {
+    validate(data, 'commitTypes')
+
+    return data.types.map(({ type }, index) => ({
+      name: type,
+      color: getTypeColor(type, index),
+      data: data.timeSeries.map(point => ({ x: new Date(point.date).getTime(), y: point.counts[type] ?? 0 }))
+    }))
+  },
+  optionsBuilder: (series, options?: { granularity?: CommitTypeData['granularity'] }): ApexOptions => ({
+    ...stackedBarOptions(series),
+    xaxis: createDateTimeAxisOptions('Date'),
+    yaxis: {
+      title: { text: 'Commits', style: { color: '#24292f' } },
+      labels: {
+        style: { colors: '#24292f' },
+        formatter: (val: number) => Math.round(val).toLocaleString()
+      }
+    },
+    tooltip: {
+      ...createTooltipOptions(),
+      shared: true,
+      intersect: false,
+      x: { format: options?.granularity === 'month' ? 'MMM yyyy' : 'dd MMM yyyy' }
+    }
+  })
+}
+
+export const commitTypesByContributorChart: ChartDefinition = {
+  type: 'bar',
+  hasAxisToggle: false,
+  height: 350,
+  elementId: 'commitTypesByContributorChart',
+  dataFormatter: (data: CommitTypeData) => {
+    validate(data, 'commitTypesByContributor')
+
+    return data.types.map(({ type }, index) => ({
+      name: type,
+      color: getTypeColor(type, index),
+      data: data.contributors.map(contributor => ({ x: contributor.name, y: contributor.counts[type] ?? 0 }))
+    }))
+  },
+  optionsBuilder: (series): ApexOptions => ({
+    ...stackedBarOptions(series),
+    plotOptions: {
+      bar: {
+        horizontal: true
+      }
+    },
+    xaxis: {
+      ...createAxisOptions('Commits'),
+      labels: {
+        style: { colors: '#24292f' },
+        formatter: (val: string | number) => Math.round(Number(val)).toLocaleString()
+      }
+    },
+    tooltip: {
+      ...createTooltipOptions(),
+      shared: true,
+      intersect: false
+    }
+  })
+}
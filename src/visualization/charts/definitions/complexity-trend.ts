@@ -0,0 +1,85 @@
+import type { ApexOptions } from 'apexcharts'
+import type { ComplexityTrendData } from '../../../data/types.js'
+import type { ChartDefinition } from '../chart-definitions.js'
+import { CHART_COLOR_PALETTES } from '../shared/colors.js'
+import { createBaseChartOptions, createDateTimeAxisOptions, createLegendOptions, createTooltipOptions } from '../shared/common-options.js'
+
+export const complexityTrendChart: ChartDefinition = {
+  type: 'line',
+  hasAxisToggle: false,
+  height: 350,
+  elementId: 'complexityTrendChart',
+  dataFormatter: (trend: ComplexityTrendData) => {
+    if (!trend || !Array.isArray(trend.points)) {
+      throw new Error('complexityTrend: points must be an array')
+    }
+
+    return [
+      {
+        name: 'Average Complexity per Function',
+        data: trend.points.map(point => ({
+          x: new Date(point.date).getTime(),
+          y: point.averageComplexity,
+          meta: point
+        }))
+      },
+      {
+        name: 'Total Complexity',
+        data: trend.points.map(point => ({
+          x: new Date(point.date).getTime(),
+          y: point.totalComplexity,
+          meta: point
+        }))
+      }
+    ]
+  },
+  optionsBuilder: (series): ApexOptions => ({
+    ...createBaseChartOptions('line', 350),
+    series,
+    colors: [
+      CHART_COLOR_PALETTES.pastel[0],  // Pastel pink for average complexity
+      CHART_COLOR_PALETTES.pastel[4]   // Sky blue for total complexity
+    ],
+    stroke: { curve: 'straight', width: 2 },
+    markers: { size: 4 },
+    legend: {
+      ...createLegendOptions('top'),
+      horizontalAlign: 'left'
+    },
+    dataLabels: { enabled: false },
+    xaxis: createDateTimeAxisOptions('Date'),
+    yaxis: [
+      {
+        title: { text: 'Average per Function', style: { color: '#24292f' } },
+        min: 0,
+        labels: {
+          style: { colors: '#24292f' },
+          formatter: (val: number) => val.toFixed(1)
+        }
+      },
+      {
+        opposite: true,
+        title: { text: 'Total Complexity', style: { color: '#24292f' } },
+        min: 0,
+        labels: {
+          style: { colors: '#24292f' },
+          formatter: (val: number) => Math.round(val).toLocaleString()
+        }
+      }
+    ],
+    tooltip: {
+      ...createTooltipOptions(),
+      shared: false,
+      custom: function({ seriesIndex, dataPointIndex, w }: any) {
+        const point = w.config.series[seriesIndex]?.data[dataPointIndex]?.meta
+        if (!point) return ''
+        return `<div class="custom-tooltip">
+          <div><strong>${point.label}</strong> • ${new Date(point.date).toLocaleDateString()}</div>
+          <div>Average per function: ${point.averageComplexity.toFixed(2)}</div>
+          <div>Total: ${point.totalComplexity.toLocaleString()} across ${point.functions.toLocaleString()} functions in ${point.files.toLocaleString()} files</div>
+          <div>Most complex function: ${point.maxComplexity}</div>
+        </div>`
+      }
+    }
+  })
+}
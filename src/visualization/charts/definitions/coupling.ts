@@ -0,0 +1,72 @@
+import type { ApexOptions } from 'apexcharts'
+import type { CouplingData } from '../../../data/types.js'
+import type { ChartDefinition } from '../chart-definitions.js'
+import { CHART_COLORS } from '../shared/colors.js'
+import { createBaseChartOptions, createAxisOptions, createTooltipOptions } from '../shared/common-options.js'
+
+const MAX_PAIRS = 15
+
+const shortName = (fileName: string) => fileName.split('/').pop() || fileName
+
+export const couplingChart: ChartDefinition = {
+  type: 'bar',
+  hasAxisToggle: false,
+  height: 400,
+  elementId: 'couplingChart',
+  dataFormatter: (coupling: CouplingData) => {
+    if (!coupling || !Array.isArray(coupling.pairs)) {
+      console.warn('couplingChart: No data provided')
+      return [{ data: [] }]
+    }
+
+    return [{
+      name: 'Confidence',
+      data: coupling.pairs.slice(0, MAX_PAIRS).map(pair => ({
+        x: `${shortName(pair.fileA)} ↔ ${shortName(pair.fileB)}`,
+        y: Math.round(pair.confidence * 100),
+        meta: pair
+      }))
+    }]
+  },
+  optionsBuilder: (series): ApexOptions => ({
+    ...createBaseChartOptions('bar', 400),
+    series,
+    plotOptions: {
+      bar: {
+        horizontal: true,
+        distributed: true
+      }
+    },
+    // Pairs that cross directory boundaries are the hidden coupling worth reviewing
+    colors: series[0].data.map((point: any) => point.meta.crossDirectory ? CHART_COLORS.pastel : CHART_COLORS.primary),
+    legend: { show: false },
+    dataLabels: {
+      enabled: true,
+      formatter: (val: number) => `${val}%`,
+      style: {
+        colors: ['#24292f']
+      }
+    },
+    xaxis: {
+      ...createAxisOptions('Confidence (%)'),
+      max: 100
+    },
+    yaxis: {
+      labels: { style: { colors: '#24292f' }, maxWidth: 300 }
+    },
+    tooltip: {
+      ...createTooltipOptions(),
+      custom: function({ dataPointIndex, w }: any) {
+        const pair = w.config.series[0].data[dataPointIndex]?.meta
+        if (!pair) return ''
+        return `<div class="custom-tooltip">
+          <div><strong>${pair.fileA}</strong></div>
+          <div><strong>${pair.fileB}</strong></div>
+          <div>Changed together in ${pair.sharedCommits} commits</div>
+          <div>Confidence: ${(pair.confidence * 100).toFixed(0)}% • Support: ${(pair.support * 100).toFixed(1)}%</div>
+          ${pair.crossDirectory ? '<div>Crosses directory boundaries</div>' : ''}
+        </div>`
+      }
+    }
+  })
+}
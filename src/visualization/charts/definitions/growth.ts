@@ -3,7 +3,7 @@ import type { TimeSeriesPoint, LinearSeriesPoint } from '../../../data/types.js'
 import type { CommitData } from '../../../git/parser.js'
 import type { ChartDefinition } from '../chart-definitions.js'
 import { CHART_COLOR_PALETTES } from '../shared/colors.js'
-import { createBaseChartOptions, createDateTimeAxisOptions, createNumericAxisOptions, createLegendOptions, createTooltipOptions } from '../shared/common-options.js'
+import { createBaseChartOptions, createDateTimeAxisOptions, createNumericAxisOptions, createLegendOptions, createTooltipOptions, createMilestoneAnnotations } from '../shared/common-options.js'
 import { validateTimeSeriesPoint, validateLinearSeriesPoint } from '../shared/validators.js'
 import { formatBytes } from '../chart-utils.js'
 
@@ -96,7 +96,7 @@ export const growthChart: ChartDefinition = {
       }
     }
   },
-  optionsBuilder: (data): ApexOptions => {
+  optionsBuilder: (data, config): ApexOptions => {
     const baseOptions = {
       ...createBaseChartOptions('area', 350),
       chart: {
@@ -125,7 +125,8 @@ export const growthChart: ChartDefinition = {
         horizontalAlign: 'left' as const
       },
       dataLabels: { enabled: false },
-      tooltip: createTooltipOptions()
+      tooltip: createTooltipOptions(),
+      annotations: createMilestoneAnnotations(config?.milestones, data.mode)
     }
     
     if (data.mode === 'date') {
@@ -0,0 +1,87 @@
+import type { ApexOptions } from 'apexcharts'
+import type { HistoryData, MetricsSnapshot } from '../../../data/types.js'
+import type { ChartDefinition } from '../chart-definitions.js'
+import { CHART_COLOR_PALETTES } from '../shared/colors.js'
+import { createBaseChartOptions, createDateTimeAxisOptions, createLegendOptions, createTooltipOptions } from '../shared/common-options.js'
+
+const CATEGORIES = ['application', 'test', 'build', 'documentation', 'other'] as const
+
+function toPoint(snapshot: MetricsSnapshot, y: number) {
+  return { x: new Date(snapshot.recordedAt).getTime(), y, meta: snapshot }
+}
+
+export const historyTrendChart: ChartDefinition = {
+  type: 'line',
+  hasAxisToggle: false,
+  height: 350,
+  elementId: 'historyTrendChart',
+  dataFormatter: (history: HistoryData) => {
+    if (!history || !Array.isArray(history.snapshots)) {
+      throw new Error('historyTrend: snapshots must be an array')
+    }
+
+    return [
+      ...CATEGORIES.map(category => ({
+        name: category.charAt(0).toUpperCase() + category.slice(1),
+        data: history.snapshots.map(snapshot => toPoint(snapshot, snapshot.linesOfCode[category]))
+      })),
+      {
+        name: 'Contributors',
+        data: history.snapshots.map(snapshot => toPoint(snapshot, snapshot.contributors))
+      }
+    ]
+  },
+  optionsBuilder: (series): ApexOptions => ({
+    ...createBaseChartOptions('line', 350),
+    series,
+    colors: [
+      ...CATEGORIES.map(category => CHART_COLOR_PALETTES.categories[category]),
+      '#24292f'
+    ],
+    stroke: { curve: 'straight', width: 2, dashArray: [0, 0, 0, 0, 0, 4] },
+    markers: { size: 4 },
+    legend: {
+      ...createLegendOptions('top'),
+      horizontalAlign: 'left'
+    },
+    dataLabels: { enabled: false },
+    xaxis: createDateTimeAxisOptions('Report Run'),
+    yaxis: [
+      ...CATEGORIES.map((_, index) => ({
+        seriesName: 'Application',
+        show: index === 0,
+        title: { text: 'Lines of Code', style: { color: '#24292f' } },
+        min: 0,
+        labels: {
+          style: { colors: '#24292f' },
+          formatter: (val: number) => Math.round(val).toLocaleString()
+        }
+      })),
+      {
+        seriesName: 'Contributors',
+        opposite: true,
+        title: { text: 'Contributors', style: { color: '#24292f' } },
+        min: 0,
+        labels: {
+          style: { colors: '#24292f' },
+          formatter: (val: number) => Math.round(val).toLocaleString()
+        }
+      }
+    ],
+    tooltip: {
+      ...createTooltipOptions(),
+      shared: false,
+      custom: function({ seriesIndex, dataPointIndex, w }: any) {
+        const snapshot: MetricsSnapshot | undefined = w.config.series[seriesIndex]?.data[dataPointIndex]?.meta
+        if (!snapshot) return ''
+        return `<div class="custom-tooltip">
+          <div><strong>${snapshot.sha.substring(0, 7)}</strong> • recorded ${new Date(snapshot.recordedAt).toLocaleDateString()}</div>
+          <div>Lines of code: ${snapshot.linesOfCode.total.toLocaleString()}</div>
+          <div>Commits: ${snapshot.commits.toLocaleString()} • Contributors: ${snapshot.contributors.toLocaleString()}</div>
+          ${snapshot.averageComplexity !== null ? `<div>Average complexity per function: ${snapshot.averageComplexity.toFixed(2)}</div>` : ''}
+          ${snapshot.busFactor !== null ? `<div>Bus factor: ${snapshot.busFactor}</div>` : ''}
+        </div>`
+      }
+    }
+  })
+}
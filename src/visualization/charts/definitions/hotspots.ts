@@ -0,0 +1,70 @@
+import type { ApexOptions } from 'apexcharts'
+import type { HotspotData } from '../../../data/types.js'
+import type { ChartDefinition } from '../chart-definitions.js'
+import { CHART_COLORS } from '../shared/colors.js'
+import { createBaseChartOptions, createNumericAxisOptions, createTooltipOptions } from '../shared/common-options.js'
+
+export const hotspotsChart: ChartDefinition = {
+  type: 'bubble',
+  hasAxisToggle: false,
+  height: 400,
+  elementId: 'hotspotsChart',
+  dataFormatter: (hotspots: HotspotData) => {
+    if (!hotspots || !Array.isArray(hotspots.files)) {
+      console.warn('hotspotsChart: No data provided')
+      return [{ data: [] }]
+    }
+
+    // Bubble size follows lines of code; y falls back to size when complexity is unavailable
+    return [{
+      name: 'Hotspots',
+      data: hotspots.files.map(file => ({
+        x: file.churn,
+        y: file.complexity ?? file.linesOfCode,
+        z: file.linesOfCode,
+        meta: { ...file, basis: hotspots.basis }
+      }))
+    }]
+  },
+  optionsBuilder: (series): ApexOptions => {
+    const basis = series[0].data[0]?.meta.basis ?? 'complexity'
+    const yAxisTitle = basis === 'complexity' ? 'Cyclomatic Complexity' : 'Lines of Code'
+
+    return {
+      ...createBaseChartOptions('bubble', 400),
+      series,
+      colors: [CHART_COLORS.pastel],
+      fill: { opacity: 0.7 },
+      dataLabels: { enabled: false },
+      xaxis: {
+        ...createNumericAxisOptions('Recent Churn (lines changed)'),
+        tickAmount: 6,
+        labels: {
+          style: { colors: '#24292f' },
+          formatter: (val: string) => Math.round(Number(val)).toLocaleString()
+        }
+      },
+      yaxis: {
+        title: { text: yAxisTitle, style: { color: '#24292f' } },
+        labels: {
+          style: { colors: '#24292f' },
+          formatter: (val: number) => Math.round(val).toLocaleString()
+        }
+      },
+      tooltip: {
+        ...createTooltipOptions(),
+        custom: function({ dataPointIndex, w }: any) {
+          const file = w.config.series[0].data[dataPointIndex]?.meta
+          if (!file) return ''
+          return `<div class="custom-tooltip">
+            <div><strong>${file.fileName}</strong></div>
+            <div>Hotspot score: ${(file.score * 100).toFixed(0)}</div>
+            <div>Churn: ${file.churn.toLocaleString()} lines in ${file.commits} commits</div>
+            ${file.complexity !== null ? `<div>Complexity: ${file.complexity}</div>` : ''}
+            <div>${file.linesOfCode.toLocaleString()} lines of code</div>
+          </div>`
+        }
+      }
+    }
+  }
+}
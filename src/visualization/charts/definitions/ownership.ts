@@ -0,0 +1,85 @@
+import type { ApexOptions } from 'apexcharts'
+import type { OwnershipData } from '../../../data/types.js'
+import type { ChartDefinition } from '../chart-definitions.js'
+import { CHART_COLOR_PALETTES } from '../shared/colors.js'
+import { createBaseChartOptions, createAxisOptions, createTooltipOptions, createLegendOptions } from '../shared/common-options.js'
+
+const MAX_DIRECTORIES = 10
+const MAX_OWNERS = 5
+
+export const ownershipChart: ChartDefinition = {
+  type: 'bar',
+  hasAxisToggle: false,
+  height: 350,
+  elementId: 'ownershipChart',
+  dataFormatter: (ownership: OwnershipData) => {
+    if (!ownership || !Array.isArray(ownership.directories)) {
+      console.warn('ownershipChart: No data provided')
+      return []
+    }
+
+    const directories = ownership.directories.slice(0, MAX_DIRECTORIES)
+    const topOwners = ownership.owners.slice(0, MAX_OWNERS).map(owner => owner.name)
+
+    // One stacked series per top owner, with everyone else folded into "Others"
+    const series = topOwners.map(name => ({
+      name,
+      data: directories.map(directory => {
+        const owner = directory.owners.find(o => o.name === name)
+        return {
+          x: directory.directory,
+          y: Number((owner?.percentage ?? 0).toFixed(1)),
+          lines: owner?.lines ?? 0
+        }
+      })
+    }))
+
+    series.push({
+      name: 'Others',
+      data: directories.map(directory => {
+        const others = directory.owners.filter(o => !topOwners.includes(o.name))
+        return {
+          x: directory.directory,
+          y: Number(others.reduce((sum, o) => sum + o.percentage, 0).toFixed(1)),
+          lines: others.reduce((sum, o) => sum + o.lines, 0)
+        }
+      })
+    })
+
+    return series
+  },
+  optionsBuilder: (series): ApexOptions => ({
+    ...createBaseChartOptions('bar', 350),
+    chart: {
+      ...createBaseChartOptions('bar', 350).chart,
+      stacked: true,
+      stackType: '100%'
+    },
+    series,
+    plotOptions: {
+      bar: {
+        horizontal: true
+      }
+    },
+    colors: CHART_COLOR_PALETTES.pastel,
+    dataLabels: {
+      enabled: false
+    },
+    xaxis: createAxisOptions('Share of Lines (%)'),
+    yaxis: {
+      labels: { style: { colors: '#24292f' } }
+    },
+    legend: createLegendOptions(),
+    tooltip: {
+      ...createTooltipOptions(),
+      custom: function({ seriesIndex, dataPointIndex, w }: any) {
+        const point = w.config.series[seriesIndex]?.data[dataPointIndex]
+        if (!point) return ''
+        return `<div class="custom-tooltip">
+          <div><strong>${point.x}</strong></div>
+          <div>${w.config.series[seriesIndex].name}: ${point.y}% (${point.lines.toLocaleString()} lines)</div>
+        </div>`
+      }
+    }
+  })
+}
@@ -0,0 +1,71 @@
+import type { ApexOptions } from 'apexcharts'
+import type { PackageData } from '../../../data/types.js'
+import type { ChartDefinition } from '../chart-definitions.js'
+import { CHART_COLOR_PALETTES } from '../shared/colors.js'
+import { createBaseChartOptions, createDateTimeAxisOptions, createLegendOptions, createTooltipOptions } from '../shared/common-options.js'
+
+// More stacked series than this are unreadable; the rest are summed
+const MAX_SERIES = 10
+
+export const packageLinesChart: ChartDefinition = {
+  type: 'area',
+  hasAxisToggle: false,
+  height: 350,
+  elementId: 'packageLinesChart',
+  dataFormatter: (data: PackageData) => {
+    if (!data || !Array.isArray(data.packages) || !Array.isArray(data.timeSeries)) {
+      throw new Error('packageLines: packages and timeSeries must be arrays')
+    }
+
+    // Packages are sorted largest first
+    const shown = data.packages.slice(0, MAX_SERIES)
+    const rest = data.packages.slice(MAX_SERIES)
+    const toPoint = (date: string, y: number) => ({ x: new Date(date).getTime(), y })
+
+    const series = shown.map((pkg, index) => ({
+      name: pkg.name,
+      color: CHART_COLOR_PALETTES.pastel[index % CHART_COLOR_PALETTES.pastel.length],
+      data: data.timeSeries.map(point => toPoint(point.date, point.cumulativeLines[pkg.path] ?? 0))
+    }))
+    if (rest.length > 0) {
+      series.push({
+        name: `${rest.length} other packages`,
+        color: '#d0d7de',
+        data: data.timeSeries.map(point => toPoint(point.date, rest.reduce((sum, pkg) => sum + (point.cumulativeLines[pkg.path] ?? 0), 0)))
+      })
+    }
+    return series
+  },
+  optionsBuilder: (series): ApexOptions => ({
+    ...createBaseChartOptions('area', 350),
+    chart: {
+      ...createBaseChartOptions('area', 350).chart,
+      stacked: true
+    },
+    series,
+    colors: series.map((item: { color: string }) => item.color),
+    stroke: { curve: 'stepline', width: 1 },
+    fill: { type: 'solid', opacity: 0.7 },
+    legend: {
+      ...createLegendOptions('top'),
+      horizontalAlign: 'left'
+    },
+    dataLabels: { enabled: false },
+    xaxis: createDateTimeAxisOptions('Date'),
+    yaxis: {
+      title: { text: 'Lines of Code', style: { color: '#24292f' } },
+      min: 0,
+      labels: {
+        style: { colors: '#24292f' },
+        formatter: (val: number) => Math.round(val).toLocaleString()
+      }
+    },
+    tooltip: {
+      ...createTooltipOptions(),
+      shared: true,
+      y: {
+        formatter: (val: number) => `${Math.round(val).toLocaleString()} lines`
+      }
+    }
+  })
+}
@@ -1,7 +1,7 @@
 import type { ApexOptions } from 'apexcharts'
 import type { ChartDefinition } from '../chart-definitions.js'
 import { CHART_COLOR_PALETTES } from '../shared/colors.js'
-import { createBaseChartOptions, createDateTimeAxisOptions, createNumericAxisOptions, createLegendOptions, createTooltipOptions } from '../shared/common-options.js'
+import { createBaseChartOptions, createDateTimeAxisOptions, createNumericAxisOptions, createLegendOptions, createTooltipOptions, createMilestoneAnnotations } from '../shared/common-options.js'
 
 export const userChart: ChartDefinition = {
   type: 'area',
@@ -142,7 +142,8 @@ export const userChart: ChartDefinition = {
       horizontalAlign: 'right',
       fontSize: '12px'
     },
-    dataLabels: { enabled: false }
+    dataLabels: { enabled: false },
+    annotations: createMilestoneAnnotations(config.milestones, config.xAxisMode === 'date' ? 'date' : 'commit')
   })
 }
 
@@ -234,6 +235,7 @@ export const userActivityChart: ChartDefinition = {
       y: {
         formatter: (val: number) => `${val} commit${val !== 1 ? 's' : ''}`
       }
-    }
+    },
+    annotations: createMilestoneAnnotations(config.milestones, 'date')
   })
 }
\ No newline at end of file
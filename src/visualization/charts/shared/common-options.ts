@@ -1,4 +1,5 @@
 import type { ApexOptions } from 'apexcharts'
+import type { Milestone } from '../../../data/types.js'
 
 export const createBaseChartOptions = (type: string, height: number): Partial<ApexOptions> => ({
   chart: {
@@ -39,4 +40,30 @@ export const createLegendOptions = (position: 'top' | 'bottom' | 'left' | 'right
 export const createTooltipOptions = (theme: 'light' | 'dark' = 'light') => ({
   theme,
   marker: { show: false }
-})
\ No newline at end of file
+})
+
+/**
+ * Vertical lines marking tags. On commit axes the line sits at the tagged
+ * commit's position; `commitOffset` matches how the chart numbers its x values.
+ */
+export const createMilestoneAnnotations = (
+  milestones: Milestone[] | undefined,
+  axisMode: 'date' | 'commit',
+  commitOffset: number = 1
+): ApexAnnotations => ({
+  xaxis: (milestones ?? []).map(milestone => ({
+    x: axisMode === 'date' ? new Date(milestone.date).getTime() : milestone.commitIndex + commitOffset,
+    borderColor: milestone.type === 'release' ? '#57606a' : '#8c959f',
+    strokeDashArray: milestone.type === 'release' ? 0 : 4,
+    label: {
+      text: milestone.name,
+      orientation: 'vertical',
+      borderColor: 'transparent',
+      style: {
+        color: '#24292f',
+        background: 'rgba(255, 255, 255, 0.8)',
+        fontSize: '10px'
+      }
+    }
+  }))
+})
@@ -0,0 +1,171 @@
+import type { CommitSizeData, CommitSizeOutlier, SizeDistribution } from '../data/types.js'
+import type { ChartManager } from './charts/index.js'
+import { getCommitUrl } from '../utils/links.js'
+
+const CHART_ID = 'commitSizesChart'
+
+// Kinds that are almost never worth counting; plain large commits are left for review
+const PRESELECTED_KINDS: Array<CommitSizeOutlier['kind']> = ['vendored', 'generated', 'reformat']
+
+const KIND_LABELS: Record<CommitSizeOutlier['kind'], string> = {
+  vendored: 'Vendored',
+  generated: 'Generated',
+  reformat: 'Reformat',
+  large: 'Large'
+}
+
+export function renderCommitSizes(commitSizes: CommitSizeData, manager: ChartManager, commitUrlTemplate?: string | null): void {
+  renderMetricToggle(commitSizes, manager)
+  renderPercentiles(commitSizes)
+  renderOutliers(commitSizes, commitUrlTemplate)
+}
+
+function renderMetricToggle(commitSizes: CommitSizeData, manager: ChartManager): void {
+  const inputs = document.querySelectorAll<HTMLInputElement>('input[name="commitSizeMetric"]')
+  inputs.forEach(input => {
+    if (input.value === 'bytes' && !commitSizes.bytes) {
+      input.disabled = true
+      return
+    }
+    input.addEventListener('change', () => {
+      if (!input.checked) return
+      manager.destroy(CHART_ID)
+      manager.create('commitSizes', commitSizes, { elementId: CHART_ID, metric: input.value })
+    })
+  })
+}
+
+function renderPercentiles(commitSizes: CommitSizeData): void {
+  const container = document.getElementById('commitSizePercentiles')
+  if (!container) return
+
+  const rows: Array<[string, SizeDistribution | null]> = [
+    ['Lines', commitSizes.lines],
+    ['Files', commitSizes.files],
+    ['Bytes', commitSizes.bytes]
+  ]
+
+  const table = document.createElement('table')
+  table.className = 'table table-sm mb-0'
+
+  const headRow = document.createElement('tr')
+  ;['', 'Median', 'p90', 'p95', 'p99', 'Max', 'Outlier above'].forEach((label, index) => {
+    const th = document.createElement('th')
+    th.textContent = label
+    if (index > 0) th.className = 'text-end'
+    headRow.appendChild(th)
+  })
+  table.createTHead().appendChild(headRow)
+
+  const body = table.createTBody()
+  rows.forEach(([label, distribution]) => {
+    if (!distribution) return
+    const row = body.insertRow()
+    const { p50, p90, p95, p99 } = distribution.percentiles
+    ;[label, ...[p50, p90, p95, p99, distribution.max, distribution.outlierThreshold].map(value => value.toLocaleString())].forEach((cell, index) => {
+      const td = row.insertCell()
+      td.textContent = cell
+      if (index > 0) td.className = 'text-end'
+    })
+  })
+
+  container.innerHTML = ''
+  container.appendChild(table)
+}
+
+function renderOutliers(commitSizes: CommitSizeData, commitUrlTemplate?: string | null): void {
+  const container = document.getElementById('commitOutliersContainer')
+  const snippet = document.getElementById('commitIgnoreSnippet')
+  if (!container || !snippet) return
+
+  const selected = new Set(commitSizes.outliers.filter(outlier => PRESELECTED_KINDS.includes(outlier.kind)).map(outlier => outlier.sha))
+  const listInputs = document.querySelectorAll<HTMLInputElement>('input[name="commitIgnoreList"]')
+  const updateSnippet = () => {
+    // ignoreShas drops commits everywhere; ignoreRevs keeps them in lines of code and growth
+    const list = Array.from(listInputs).find(input => input.checked)?.value === 'ignoreRevs' ? 'ignoreRevs' : 'ignoreShas'
+    const existing = list === 'ignoreRevs' ? commitSizes.ignoredRevs : commitSizes.ignoredShas
+    snippet.textContent = JSON.stringify({ commitFilters: { [list]: Array.from(new Set([...existing, ...selected])) } }, null, 2)
+  }
+  listInputs.forEach(input => input.addEventListener('change', updateSnippet))
+
+  container.innerHTML = ''
+  if (commitSizes.outliers.length === 0) {
+    container.innerHTML = '<p class="text-muted mb-0">No outlier commits</p>'
+  } else {
+    container.appendChild(createOutlierTable(commitSizes.outliers, selected, updateSnippet, commitUrlTemplate))
+  }
+  updateSnippet()
+
+  const copyButton = document.getElementById('commitIgnoreCopy')
+  copyButton?.addEventListener('click', () => {
+    navigator.clipboard?.writeText(snippet.textContent ?? '').then(() => {
+      copyButton.textContent = 'Copied'
+      setTimeout(() => { copyButton.textContent = 'Copy' }, 1500)
+    }).catch(error => console.error('Failed to copy the ignore list:', error))
+  })
+}
+
+function createOutlierTable(outliers: CommitSizeOutlier[], selected: Set<string>, onChange: () => void, commitUrlTemplate?: string | null): HTMLTableElement {
+  const table = document.createElement('table')
+  table.className = 'table table-sm table-hover mb-0'
+
+  const headRow = document.createElement('tr')
+  const headers: Array<[string, boolean]> = [['Ignore', false], ['Commit', false], ['Kind', false], ['Lines', true], ['Files', true], ['Why', false]]
+  headers.forEach(([label, numeric]) => {
+    const th = document.createElement('th')
+    th.textContent = label
+    if (numeric) th.className = 'text-end'
+    headRow.appendChild(th)
+  })
+  table.createTHead().appendChild(headRow)
+
+  const body = table.createTBody()
+  outliers.forEach(outlier => {
+    const row = body.insertRow()
+
+    const checkbox = document.createElement('input')
+    checkbox.type = 'checkbox'
+    checkbox.className = 'form-check-input'
+    checkbox.checked = selected.has(outlier.sha)
+    checkbox.setAttribute('aria-label', `Ignore commit ${outlier.sha.slice(0, 7)}`)
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked) selected.add(outlier.sha)
+      else selected.delete(outlier.sha)
+      onChange()
+    })
+    row.insertCell().appendChild(checkbox)
+
+    const commitCell = row.insertCell()
+    const commitUrl = getCommitUrl(commitUrlTemplate, outlier.sha)
+    const sha = document.createElement(commitUrl ? 'a' : 'code')
+    sha.textContent = outlier.sha.slice(0, 7)
+    sha.title = outlier.sha
+    if (sha instanceof HTMLAnchorElement && commitUrl) {
+      sha.href = commitUrl
+      sha.target = '_blank'
+      sha.className = 'font-monospace text-decoration-none'
+    }
+    const meta = document.createElement('div')
+    meta.className = 'small text-muted'
+    meta.textContent = `${outlier.authorName} • ${new Date(outlier.date).toLocaleDateString()} • ${outlier.message.split('\n')[0]}`
+    commitCell.appendChild(sha)
+    commitCell.appendChild(meta)
+
+    const badge = document.createElement('span')
+    badge.className = 'badge bg-light text-secondary border'
+    badge.textContent = KIND_LABELS[outlier.kind]
+    row.insertCell().appendChild(badge)
+
+    ;[outlier.lines, outlier.files].forEach(value => {
+      const td = row.insertCell()
+      td.className = 'text-end'
+      td.textContent = value.toLocaleString()
+    })
+
+    const reason = row.insertCell()
+    reason.className = 'small'
+    reason.textContent = outlier.reason
+  })
+
+  return table
+}
@@ -0,0 +1,46 @@
+import type { CommitTypeData } from '../data/types.js'
+
+export function renderCommitTypeSummary(commitTypes: CommitTypeData): void {
+  const container = document.getElementById('commitTypeSummary')
+  if (!container) return
+
+  container.innerHTML = ''
+
+  const metrics: Array<[string, string, string]> = [
+    [
+      'Feat : Fix',
+      commitTypes.featFixRatio !== null ? commitTypes.featFixRatio.toFixed(2) : '–',
+      'Feature commits for every fix commit'
+    ],
+    ['Breaking Changes', commitTypes.breakingChanges.toLocaleString(), 'Marked with ! or a BREAKING CHANGE footer'],
+    ['Conventional', `${commitTypes.conventionalPercentage.toFixed(0)}%`, 'Commits with a Conventional Commits header; the rest are classified by keywords']
+  ]
+
+  const row = document.createElement('div')
+  row.className = 'row text-center g-3 mb-3'
+  metrics.forEach(([label, value, description]) => {
+    const col = document.createElement('div')
+    col.className = 'col-4'
+    col.title = description
+
+    const valueElement = document.createElement('div')
+    valueElement.className = 'metric-value'
+    valueElement.textContent = value
+
+    const labelElement = document.createElement('div')
+    labelElement.className = 'metric-label'
+    labelElement.textContent = label
+
+    col.appendChild(valueElement)
+    col.appendChild(labelElement)
+    row.appendChild(col)
+  })
+  container.appendChild(row)
+
+  if (commitTypes.scopes.length > 0) {
+    const scopes = document.createElement('div')
+    scopes.className = 'small text-muted'
+    scopes.textContent = `Top scopes: ${commitTypes.scopes.map(({ scope, commits }) => `${scope} (${commits})`).join(', ')}`
+    container.appendChild(scopes)
+  }
+}
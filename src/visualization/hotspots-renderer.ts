@@ -0,0 +1,55 @@
+import type { HotspotData } from '../data/types.js'
+import { getFileUrl } from '../utils/links.js'
+
+export function renderHotspots(hotspots: HotspotData, fileUrlTemplate?: string | null): void {
+  const container = document.getElementById('hotspotsContainer')
+  if (!container) return
+
+  container.innerHTML = ''
+
+  if (hotspots.files.length === 0) {
+    container.innerHTML = '<p class="text-muted mb-0">No recently changed files to rank</p>'
+    return
+  }
+
+  const list = document.createElement('ol')
+  list.className = 'list-group list-group-flush'
+
+  hotspots.files.forEach(file => {
+    const item = document.createElement('li')
+    item.className = 'list-group-item d-flex justify-content-between align-items-start'
+
+    const content = document.createElement('div')
+    content.className = 'ms-2 me-auto'
+
+    const fileUrl = getFileUrl(fileUrlTemplate, file.fileName)
+    const header = document.createElement(fileUrl ? 'a' : 'div')
+    header.className = 'd-block fw-bold text-secondary text-decoration-none'
+    header.textContent = file.fileName
+    if (header instanceof HTMLAnchorElement && fileUrl) {
+      header.href = fileUrl
+      header.target = '_blank'
+    }
+
+    const meta = document.createElement('small')
+    meta.className = 'text-muted'
+    meta.textContent = [
+      `${file.churn.toLocaleString()} lines changed in ${file.commits} commits`,
+      ...(file.complexity !== null ? [`complexity ${file.complexity}`] : []),
+      `${file.linesOfCode.toLocaleString()} LOC`
+    ].join(' • ')
+
+    const badge = document.createElement('span')
+    badge.className = 'badge bg-light text-secondary border rounded-pill'
+    badge.title = 'Hotspot score (0-100)'
+    badge.textContent = (file.score * 100).toFixed(0)
+
+    content.appendChild(header)
+    content.appendChild(meta)
+    item.appendChild(content)
+    item.appendChild(badge)
+    list.appendChild(item)
+  })
+
+  container.appendChild(list)
+}
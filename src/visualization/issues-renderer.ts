@@ -0,0 +1,88 @@
+import type { IssueData } from '../data/types.js'
+
+export function renderIssues(issues: IssueData): void {
+  renderIssueSummary(issues)
+
+  const container = document.getElementById('issuesContainer')
+  if (!container) return
+
+  container.innerHTML = ''
+
+  if (issues.issues.length === 0) {
+    container.innerHTML = '<p class="text-muted mb-0">No issue references found. Set issues.trackers to match your tracker\'s keys.</p>'
+    return
+  }
+
+  const list = document.createElement('ol')
+  list.className = 'list-group list-group-flush'
+
+  issues.issues.forEach(issue => {
+    const item = document.createElement('li')
+    item.className = 'list-group-item d-flex justify-content-between align-items-start'
+
+    const content = document.createElement('div')
+    content.className = 'ms-2 me-auto'
+
+    const header = document.createElement(issue.url ? 'a' : 'div')
+    header.className = 'fw-bold text-secondary text-decoration-none'
+    header.textContent = issue.key
+    if (header instanceof HTMLAnchorElement && issue.url) {
+      header.href = issue.url
+      header.target = '_blank'
+      header.rel = 'noopener'
+    }
+
+    const first = new Date(issue.firstDate).toLocaleDateString()
+    const last = new Date(issue.lastDate).toLocaleDateString()
+    const meta = document.createElement('small')
+    meta.className = 'd-block text-muted'
+    meta.textContent = first === last ? first : `${first} – ${last}`
+
+    const badge = document.createElement('span')
+    badge.className = 'badge bg-light text-secondary border rounded-pill'
+    badge.title = 'Commits referencing this issue'
+    badge.textContent = issue.commits.toLocaleString()
+
+    content.appendChild(header)
+    content.appendChild(meta)
+    item.appendChild(content)
+    item.appendChild(badge)
+    list.appendChild(item)
+  })
+
+  container.appendChild(list)
+}
+
+function renderIssueSummary(issues: IssueData): void {
+  const container = document.getElementById('issueSummary')
+  if (!container) return
+
+  container.innerHTML = ''
+
+  const metrics: Array<[string, string, string]> = [
+    ['Without Ticket', `${issues.percentageWithoutIssues.toFixed(0)}%`, `${issues.commitsWithoutIssues.toLocaleString()} commits reference no issue`],
+    ['With Ticket', issues.commitsWithIssues.toLocaleString(), 'Commits referencing at least one issue'],
+    ['Issues', issues.totalIssues.toLocaleString(), 'Distinct issue keys referenced']
+  ]
+
+  const row = document.createElement('div')
+  row.className = 'row text-center g-3 mb-3'
+  metrics.forEach(([label, value, description]) => {
+    const col = document.createElement('div')
+    col.className = 'col-4'
+    col.title = description
+
+    const valueElement = document.createElement('div')
+    valueElement.className = 'metric-value'
+    valueElement.textContent = value
+
+    const labelElement = document.createElement('div')
+    labelElement.className = 'metric-label'
+    labelElement.textContent = label
+
+    col.appendChild(valueElement)
+    col.appendChild(labelElement)
+    row.appendChild(col)
+  })
+  container.appendChild(row)
+}
@@ -0,0 +1,142 @@
+import type { OwnershipData } from '../data/types.js'
+import { getFileUrl } from '../utils/links.js'
+
+// Files where a single owner holds at least this share are knowledge silos
+const SILO_PERCENTAGE = 80
+
+export function renderOwnership(ownership: OwnershipData, fileUrlTemplate?: string | null): void {
+  renderBusFactor(ownership)
+  renderOwnershipFiles(ownership, fileUrlTemplate)
+}
+
+function renderBusFactor(ownership: OwnershipData): void {
+  const container = document.getElementById('busFactorContainer')
+  if (!container) return
+
+  container.innerHTML = ''
+
+  const summary = document.createElement('div')
+  summary.className = 'text-center mb-3'
+  summary.innerHTML = `
+    <div class="metric-label">Bus Factor</div>
+    <div class="metric-value">${ownership.busFactor}</div>
+    <small class="text-muted">${ownership.totalLines.toLocaleString()} lines owned by ${ownership.owners.length} contributors</small>
+  `
+  if (ownership.estimatedFiles > 0) {
+    const source = document.createElement('div')
+    source.className = 'small text-muted mt-1'
+    source.textContent = ownership.blamedFiles > 0
+      ? `${ownership.blamedFiles.toLocaleString()} files measured with git blame, ${ownership.estimatedFiles.toLocaleString()} estimated from churn`
+      : 'Estimated from churn share; git blame was off or unavailable'
+    summary.appendChild(source)
+  }
+
+  const list = document.createElement('ol')
+  list.className = 'list-group list-group-flush'
+
+  ownership.owners.slice(0, 5).forEach(owner => {
+    const item = document.createElement('li')
+    item.className = 'list-group-item d-flex justify-content-between align-items-start'
+
+    const content = document.createElement('div')
+    content.className = 'ms-2 me-auto'
+
+    const header = document.createElement('div')
+    header.className = 'fw-bold text-secondary'
+    header.textContent = owner.name
+
+    const meta = document.createElement('small')
+    meta.className = 'text-muted'
+    meta.textContent = `${owner.lines.toLocaleString()} lines`
+
+    const badge = document.createElement('span')
+    badge.className = 'badge bg-light text-secondary border rounded-pill'
+    badge.textContent = `${owner.percentage.toFixed(1)}%`
+
+    content.appendChild(header)
+    content.appendChild(meta)
+    item.appendChild(content)
+    item.appendChild(badge)
+    list.appendChild(item)
+  })
+
+  container.appendChild(summary)
+  container.appendChild(list)
+}
+
+function renderOwnershipFiles(ownership: OwnershipData, fileUrlTemplate?: string | null): void {
+  const container = document.getElementById('ownershipFilesContainer')
+  if (!container) return
+
+  container.innerHTML = ''
+
+  if (ownership.files.length === 0) {
+    container.innerHTML = '<p class="text-muted mb-0">No file ownership data available</p>'
+    return
+  }
+
+  const table = document.createElement('table')
+  table.className = 'table table-sm table-hover mb-0'
+  table.innerHTML = `
+    <thead>
+      <tr>
+        <th>File</th>
+        <th class="text-end">Lines</th>
+        <th>Top Owner</th>
+        <th class="text-end">Share</th>
+      </tr>
+    </thead>
+  `
+
+  const body = document.createElement('tbody')
+
+  ownership.files.forEach(file => {
+    const topOwner = file.owners[0]
+    if (!topOwner) return
+
+    const row = document.createElement('tr')
+    if (topOwner.percentage >= SILO_PERCENTAGE) {
+      row.className = 'table-warning'
+    }
+
+    const fileCell = document.createElement('td')
+    const fileUrl = getFileUrl(fileUrlTemplate, file.fileName)
+    if (fileUrl) {
+      const link = document.createElement('a')
+      link.href = fileUrl
+      link.target = '_blank'
+      link.className = 'text-decoration-none'
+      link.textContent = file.fileName
+      fileCell.appendChild(link)
+    } else {
+      fileCell.textContent = file.fileName
+    }
+    fileCell.title = file.source === 'blame' ? 'Measured with git blame' : 'Estimated from churn'
+    if (file.source === 'churn') {
+      const estimate = document.createElement('small')
+      estimate.className = 'text-muted ms-1'
+      estimate.textContent = '(estimated)'
+      fileCell.appendChild(estimate)
+    }
+
+    const linesCell = document.createElement('td')
+    linesCell.className = 'text-end'
+    linesCell.textContent = file.totalLines.toLocaleString()
+
+    const ownerCell = document.createElement('td')
+    ownerCell.textContent = topOwner.name
+
+    const shareCell = document.createElement('td')
+    shareCell.className = 'text-end'
+    shareCell.textContent = `${topOwner.percentage.toFixed(1)}%`
+
+    row.appendChild(fileCell)
+    row.appendChild(linesCell)
+    row.appendChild(ownerCell)
+    row.appendChild(shareCell)
+    body.appendChild(row)
+  })
+
+  table.appendChild(body)
+  container.appendChild(table)
+}
@@ -0,0 +1,103 @@
+import type { PackageData, PackageStats } from '../data/types.js'
+import type { ChartManager } from './charts/index.js'
+
+const CONTRIBUTORS_CHART_ID = 'packageContributorsChart'
+
+export function renderPackages(packages: PackageData, manager: ChartManager): void {
+  const select = document.getElementById('packageSelect') as HTMLSelectElement | null
+  if (!select) return
+
+  select.innerHTML = ''
+  packages.packages.forEach((pkg, index) => {
+    const option = document.createElement('option')
+    option.value = String(index)
+    option.textContent = pkg.path ? `${pkg.name} (${pkg.path})` : pkg.name
+    select.appendChild(option)
+  })
+
+  const show = () => {
+    const pkg = packages.packages[Number(select.value)]
+    if (pkg) renderPackage(pkg, manager)
+  }
+  select.addEventListener('change', show)
+  show()
+}
+
+function renderPackage(pkg: PackageStats, manager: ChartManager): void {
+  renderPackageSummary(pkg)
+  renderFileTypes(pkg)
+  renderChurnFiles(pkg)
+
+  manager.destroy(CONTRIBUTORS_CHART_ID)
+  const container = document.getElementById(CONTRIBUTORS_CHART_ID)
+  if (pkg.contributors.length === 0) {
+    if (container) container.innerHTML = '<p class="text-muted mb-0">No contributors</p>'
+    return
+  }
+  try {
+    manager.create('contributors', pkg.contributors, { elementId: CONTRIBUTORS_CHART_ID })
+  } catch (error) {
+    console.error('Failed to render package contributors:', error)
+  }
+}
+
+function renderPackageSummary(pkg: PackageStats): void {
+  const container = document.getElementById('packageSummary')
+  if (!container) return
+
+  container.textContent = `${pkg.linesOfCode.toLocaleString()} lines • ${pkg.commits.toLocaleString()} commits • ` +
+    `${pkg.contributors.length.toLocaleString()} contributors • +${pkg.linesAdded.toLocaleString()} / -${pkg.linesDeleted.toLocaleString()}`
+}
+
+function renderTable(containerId: string, headers: Array<[string, boolean]>, rows: string[][], emptyMessage: string): void {
+  const container = document.getElementById(containerId)
+  if (!container) return
+
+  container.innerHTML = ''
+  if (rows.length === 0) {
+    container.innerHTML = `<p class="text-muted mb-0">${emptyMessage}</p>`
+    return
+  }
+
+  const table = document.createElement('table')
+  table.className = 'table table-sm table-hover mb-0'
+
+  const headRow = document.createElement('tr')
+  headers.forEach(([label, numeric]) => {
+    const th = document.createElement('th')
+    th.textContent = label
+    if (numeric) th.className = 'text-end'
+    headRow.appendChild(th)
+  })
+  table.createTHead().appendChild(headRow)
+
+  const body = table.createTBody()
+  rows.forEach(cells => {
+    const row = body.insertRow()
+    cells.forEach((cell, index) => {
+      const td = row.insertCell()
+      td.textContent = cell
+      if (headers[index]?.[1]) td.className = 'text-end'
+    })
+  })
+
+  container.appendChild(table)
+}
+
+function renderFileTypes(pkg: PackageStats): void {
+  renderTable(
+    'packageFileTypesContainer',
+    [['File Type', false], ['Lines', true], ['Share', true]],
+    pkg.fileTypes.slice(0, 10).map(fileType => [fileType.type, fileType.lines.toLocaleString(), `${fileType.percentage.toFixed(1)}%`]),
+    'No current files'
+  )
+}
+
+function renderChurnFiles(pkg: PackageStats): void {
+  renderTable(
+    'packageChurnContainer',
+    [['File', false], ['Churn', true], ['Commits', true]],
+    pkg.topChurnFiles.map(file => [file.fileName, file.churn.toLocaleString(), file.commits.toLocaleString()]),
+    'No changed files'
+  )
+}
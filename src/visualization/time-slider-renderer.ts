@@ -347,11 +347,12 @@ export function updateTargetCharts(
             
             if (contributorName) {
               // Filter commits for this specific user
-              const userFilteredCommits = filteredCommits.filter(c => c.authorName === contributorName)
+              const userFilteredCommits = filteredCommits.filter(c => c.authorName === contributorName || c.coAuthors?.some(coAuthor => coAuthor.name === contributorName))
               
               // Destroy and recreate the chart with filtered data
               manager.destroy(chartId)
               manager.create('userActivityChart', userFilteredCommits, {
+                ...managedChart.options,
                 elementId: chartId,
                 chartId: chartId,
                 timeRange: { min, max } // Pass the time range for consistent display
@@ -1,5 +1,5 @@
 import type { CommitData } from '../git/parser.js'
-import type { ContributorStats, TimeSeriesPoint, LinearSeriesPoint } from '../data/types.js'
+import type { ContributorStats, TimeSeriesPoint, LinearSeriesPoint, Milestone } from '../data/types.js'
 import type { ChartManager } from './charts/index.js'
 
 export function renderUserCharts(
@@ -7,7 +7,8 @@ export function renderUserCharts(
   commits: CommitData[], 
   _linearSeries: LinearSeriesPoint[], 
   timeSeries: TimeSeriesPoint[],
-  manager: ChartManager | null
+  manager: ChartManager | null,
+  milestones: Milestone[] = []
 ): void {
   const container = document.getElementById('userChartsContainer')
   if (!container || !manager) {
@@ -15,7 +16,15 @@ export function renderUserCharts(
   }
 
   topContributors.forEach((contributor, index) => {
-    const userCommits = commits.filter(c => c.authorName === contributor.name)
+    const userCommits = commits.filter(c => c.authorName === contributor.name || c.coAuthors?.some(coAuthor => coAuthor.name === contributor.name))
+
+    // Place each tag after the user's last commit at or before the tagged commit
+    const userMilestones = milestones
+      .map(milestone => ({
+        ...milestone,
+        commitIndex: userCommits.filter(c => new Date(c.date).getTime() <= new Date(milestone.date).getTime()).length - 1
+      }))
+      .filter(milestone => milestone.commitIndex >= 0)
 
     const chartId = `userChart${index}`
     const activityChartId = `userActivityChart${index}`
@@ -48,12 +57,14 @@ export function renderUserCharts(
     manager.create('userChart', { userCommits, xAxisMode, timeSeries }, { 
       elementId: chartId, 
       chartId: chartId,
-      xAxisMode: xAxisMode 
+      xAxisMode: xAxisMode,
+      milestones: userMilestones
     })
     
     manager.create('userActivityChart', userCommits, { 
       elementId: activityChartId,
-      chartId: activityChartId
+      chartId: activityChartId,
+      milestones: userMilestones
     })
     
     // Toggle handling is now done by setupUserChartToggles in chart-toggles.ts